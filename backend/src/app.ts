@@ -2,6 +2,9 @@ import express from 'express';
 import cors from 'cors';
 import movieRoutes from './routes/movieRoutes';
 import adminRoutes from './routes/adminRoutes';
+import authRoutes from './routes/authRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import watchlistRoutes from './routes/watchlistRoutes';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { env } from './config/env';
@@ -60,7 +63,10 @@ app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Apply routes - Multer will only run for multipart/form-data
+app.use('/api', authRoutes);
 app.use('/api', movieRoutes);
+app.use('/api', reviewRoutes);
+app.use('/api', watchlistRoutes);
 app.use('/api', adminRoutes);
 
 // Health check endpoint
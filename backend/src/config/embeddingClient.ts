@@ -1,16 +1,27 @@
-import OpenAI from "openai";
-import { env } from "./env";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from "../services/embeddingProviders";
 
-let openaiClient: OpenAI | null = null;
+let provider: EmbeddingProvider | null = null;
 
-export const getEmbeddingClient = (): OpenAI => {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
+/**
+ * Get the embedding provider used for queries and ingestion. Defaults to the
+ * configured EMBEDDING_PROVIDER; at boot it is replaced by the provider that
+ * built the active vector index.
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!provider) {
+    provider = createEmbeddingProvider();
   }
 
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey: env.OPENAI_API_KEY ?? "" });
-  }
+  return provider;
+};
 
-  return openaiClient;
+/**
+ * Replace the active embedding provider (custom backends, tests).
+ * Pass null to fall back to the configured provider on next use.
+ */
+export const setEmbeddingProvider = (next: EmbeddingProvider | null): void => {
+  provider = next;
 };
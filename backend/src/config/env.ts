@@ -13,12 +13,22 @@ const envSchema = z.object({
   // TMDB API for movie seeding (optional)
   TMDB_API_KEY: z.string().optional(),
   // Embedding options - using local transformers.js
-  EMBEDDING_PROVIDER: z.string().optional(), // local, openai, etc.
+  EMBEDDING_PROVIDER: z.enum(["local", "openai"]).default("local"),
   EMBEDDING_MODEL: z.string().default("sentence-transformers/all-MiniLM-L6-v2"), // Local model using transformers.js (384 dims)
-  OPENAI_API_KEY: z.string().optional(), // Optional OpenAI API key
+  OPENAI_API_KEY: z.string().optional(), // Required when EMBEDDING_PROVIDER=openai
+  OPENAI_EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
+  OPENAI_BASE_URL: z.string().url().optional(), // OpenAI-compatible endpoint (e.g. the mock embedding server)
+  EMBEDDING_BATCH_SIZE: z.coerce.number().int().min(1).default(16), // Texts per forward pass in generateEmbeddings
+  EMBEDDING_CACHE_SIZE: z.coerce.number().int().min(0).default(1000), // In-memory LRU entries (0 disables)
+  EMBEDDING_CACHE_PERSIST: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"), // Also persist embeddings in MongoDB
+  PLOT_CHUNK_SIZE: z.coerce.number().int().min(100).default(800), // Max characters per plot chunk (MiniLM reads ~256 tokens)
+  PLOT_CHUNK_OVERLAP: z.coerce.number().int().min(0).default(150), // Characters shared by consecutive plot chunks
   // Vector DB options (use one)
   VECTOR_DB_PROVIDER: z
-    .enum(["qdrant", "pinecone", "chroma"])
+    .enum(["qdrant", "pinecone", "chroma", "memory"])
     .default("qdrant"),
   VECTOR_DB_URL: z.string().url().optional(), // For Qdrant/Chroma
   VECTOR_DB_API_KEY: z.string().optional(), // For Qdrant Cloud/Pinecone
@@ -27,10 +37,32 @@ const envSchema = z.object({
   PINECONE_ENVIRONMENT: z.string().optional(), // For Pinecone (legacy)
   VECTOR_COLLECTION: z.string().default("movies"),
   VECTOR_DIMENSION: z.coerce.number().default(384), // HF all-MiniLM-L6-v2 uses 384
+  VECTOR_DB_SNAPSHOT_PATH: z.string().optional(), // For memory provider: JSON file to load/persist vectors
+  // Background ingestion worker
+  INGESTION_WORKER_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  INGESTION_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  INGESTION_LEASE_MS: z.coerce.number().int().min(1000).default(60000), // Job lease before another worker may reclaim it
+  INGESTION_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(2000),
+  INGESTION_BACKOFF_BASE_MS: z.coerce.number().int().min(0).default(5000), // Retry delay = base * 2^(attempt - 1)
+  INGESTION_BATCH_SIZE: z.coerce.number().int().min(1).default(8), // Jobs claimed and embedded together per worker round
+  // Authentication
+  JWT_SECRET: z.string().min(32).optional(), // HMAC key for access/refresh tokens; required in production
+  JWT_ACCESS_TTL: z.string().default("15m"), // Access token lifetime (jsonwebtoken duration, e.g. 15m, 1h)
+  JWT_REFRESH_TTL: z.string().default("7d"), // Refresh token lifetime
+  ADMIN_EMAIL: z.string().email().optional(), // Admin account created or promoted at startup
+  ADMIN_PASSWORD: z.string().min(8).max(128).optional(), // Password for ADMIN_EMAIL
 });
 
 const parsed = envSchema.safeParse(process.env);
 
+if (parsed.success && parsed.data.NODE_ENV === "production" && !parsed.data.JWT_SECRET) {
+  logger.error("JWT_SECRET must be set in production");
+  throw new Error("Invalid environment configuration");
+}
+
 if (!parsed.success) {
   logger.error(
     "Invalid environment configuration",
@@ -0,0 +1,33 @@
+import { getEmbeddingProvider } from './embeddingClient';
+import { EmbeddingDimensionMismatchError } from '../services/embeddingProviders';
+import { logger } from '../utils/logger';
+
+/**
+ * Embed a probe text once so a provider/model whose vector size does not match
+ * the active index dimension is caught at startup instead of on the first upsert
+ */
+export const initializeEmbeddingProvider = async (): Promise<void> => {
+  const provider = getEmbeddingProvider();
+  logger.info(`Embedding provider: ${provider.name} (${provider.model})`);
+
+  try {
+    const [vector] = await provider.embed(['embedding dimension check'], 1);
+    const dimension = vector?.length ?? 0;
+    if (dimension !== provider.dimension) {
+      throw new EmbeddingDimensionMismatchError(provider.name, provider.dimension, dimension);
+    }
+    logger.info(`✓ Embedding dimension ${dimension} matches the vector index`);
+  } catch (error) {
+    if (error instanceof EmbeddingDimensionMismatchError) {
+      logger.error(error.message);
+      logger.error('Set VECTOR_DIMENSION to the model dimension or choose another model, then re-index.');
+      throw error;
+    }
+
+    // Provider unreachable (offline model download, API outage): keep serving
+    // non-semantic routes, like the vector DB does
+    logger.error('Failed to initialize embedding provider', error);
+    logger.warn('⚠️  Server will continue without embeddings.');
+    logger.warn('⚠️  Semantic search and ingestion will fail until the provider is reachable.');
+  }
+};
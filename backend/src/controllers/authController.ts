@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { asyncHandler } from "../utils/asyncHandler";
+import {
+  EmailInUseError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  login,
+  logout,
+  refreshSession,
+  signup,
+  toPublicUser,
+} from "../services/authService";
+import { UserModel } from "../models/User";
+
+const credentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+const signupSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8).max(128),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const signupHandler = asyncHandler(async (req, res) => {
+  const body = signupSchema.parse(req.body);
+  try {
+    const { user, tokens } = await signup(body);
+    return res.status(201).json({ user: toPublicUser(user), ...tokens });
+  } catch (error) {
+    if (error instanceof EmailInUseError) {
+      return res.status(409).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const loginHandler = asyncHandler(async (req, res) => {
+  const { email, password } = credentialsSchema.parse(req.body);
+  try {
+    const { user, tokens } = await login(email, password);
+    return res.json({ user: toPublicUser(user), ...tokens });
+  } catch (error) {
+    if (error instanceof InvalidCredentialsError) {
+      return res.status(401).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const refreshHandler = asyncHandler(async (req, res) => {
+  const { refreshToken } = refreshSchema.parse(req.body);
+  try {
+    const { user, tokens } = await refreshSession(refreshToken);
+    return res.json({ user: toPublicUser(user), ...tokens });
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      return res.status(401).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+// Ends every session of the user (all refresh tokens are revoked)
+export const logoutHandler = asyncHandler(async (req, res) => {
+  await logout(req.user!.id);
+  return res.status(204).send();
+});
+
+export const meHandler = asyncHandler(async (req, res) => {
+  const user = await UserModel.findById(req.user!.id);
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+  return res.json({ user: toPublicUser(user) });
+});
@@ -6,17 +6,43 @@ import {
 } from "../services/ingestionService";
 import {
   getMovieById,
+  getMoviesByIds,
   searchMoviesByEmbedding,
+  searchMoviesHybrid,
   getAllMovies,
   updateMovie,
   deleteMovie,
   updateMoviePosterImage,
+  type PlotPassage,
+  type SemanticSearchResult,
 } from "../services/movieService";
 import type { MovieDocument } from "../models/Movie";
+import {
+  fieldsParam,
+  weightsParam,
+  resolveFieldWeights,
+  type FieldScores,
+} from "../utils/fieldWeights";
 import { asyncHandler } from "../utils/asyncHandler";
 import { generateEmbedding } from "../services/embeddingService";
+import { explainSearchResults } from "../services/searchExplanationService";
+import {
+  findSimilarToMovie,
+  searchMoviesLikeThese,
+  MissingEmbeddingsError,
+} from "../services/similarMoviesService";
+import {
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  fetchRankedPage,
+  MAX_SEARCH_DEPTH,
+  searchFingerprint,
+  type SearchCursor,
+} from "../utils/searchCursor";
 import { logger } from "../utils/logger";
 import { downloadImageFromGridFS } from "../services/gridfsService";
+import { recordMovieView } from "../services/personalRecommendationService";
 
 // Helper to transform empty strings to undefined and validate URL if provided
 const urlOrEmpty = z.preprocess(
@@ -40,14 +66,128 @@ const ingestionSchema = z.object({
 const searchSchema = z.object({
   q: z.string().min(3),
   limit: z.coerce.number().min(1).max(20).optional(),
+  // semantic: vector search only; hybrid: Mongo $text + vector search fused with RRF
+  mode: z.enum(["semantic", "hybrid"]).default("semantic"),
+  lexicalWeight: z.coerce.number().min(0).max(10).optional(),
+  semanticWeight: z.coerce.number().min(0).max(10).optional(),
+  // Per-field scoring, e.g. fields=plot,genre or weights=plot:0.6,genre:0.3,title:0.1
+  fields: fieldsParam.optional(),
+  weights: weightsParam.optional(),
+  // Opaque token from a previous response's nextCursor
+  cursor: z.string().min(1).optional(),
+  // 0-1: trade relevance for variety (MMR re-ranking, semantic mode only)
+  diversity: z.coerce.number().min(0).max(1).default(0),
+  // Attach a "why this matched" explanation to every result
+  explain: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const toSearchResult = (
+  movie: MovieDocument,
+  score: number,
+  breakdown?: FieldScores,
+  passage?: PlotPassage
+) => ({
+  id: movie.id || movie._id?.toString(),
+  title: movie.title,
+  genres: movie.genres,
+  cast: movie.cast,
+  rating: movie.rating,
+  posterUrl: movie.posterUrl,
+  posterGridFSId: movie.posterGridFSId?.toString(),
+  releaseYear: movie.releaseYear,
+  score,
+  ...(breakdown && { breakdown }),
+  ...(passage && { passage }),
 });
 
 const similarSchema = z.object({
   limit: z.coerce.number().min(1).max(10).default(5),
+  diversity: z.coerce.number().min(0).max(1).default(0),
+});
+
+const moviesLikeTheseSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(20),
+  negativeIds: z.array(z.string().min(1)).max(20).default([]),
+  limit: z.coerce.number().min(1).max(20).default(10),
+  negativeWeight: z.coerce.number().min(0).max(2).default(0.5),
 });
 
 export const searchMoviesHandler = asyncHandler(async (req, res) => {
-  const { q, limit } = searchSchema.parse(req.query);
+  const {
+    q,
+    limit,
+    mode,
+    lexicalWeight,
+    semanticWeight,
+    fields,
+    weights,
+    cursor,
+    diversity,
+    explain,
+  } = searchSchema.parse(req.query);
+  const fieldWeights = resolveFieldWeights(fields, weights);
+  const pageSize = limit ?? 10;
+
+  // Everything that affects the ranking; a cursor only works for the same values
+  const fingerprint = searchFingerprint({
+    q,
+    mode,
+    fieldWeights,
+    lexicalWeight,
+    semanticWeight,
+    diversity: mode === "semantic" ? diversity : 0,
+  });
+  let position: SearchCursor = { offset: 0 };
+  if (cursor) {
+    try {
+      position = decodeCursor(cursor, fingerprint);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+  }
+  const movieKey = ({ movie }: { movie: MovieDocument }) =>
+    movie.id || movie._id?.toString();
+  const toNextCursor = (next?: SearchCursor) =>
+    next ? encodeCursor(fingerprint, next) : null;
+
+  if (mode === "hybrid") {
+    logger.info(`Starting hybrid search for query: "${q}"`);
+    const { page: results, next } = await fetchRankedPage(
+      (depth) =>
+        searchMoviesHybrid(q, depth, {
+          fieldWeights,
+          lexicalWeight,
+          semanticWeight,
+        }),
+      position,
+      pageSize,
+      movieKey,
+      ({ score }) => score
+    );
+    const explanations = explain
+      ? await explainSearchResults(q, results)
+      : undefined;
+
+    return res.json({
+      count: results.length,
+      mode,
+      nextCursor: toNextCursor(next),
+      results: results.map(
+        ({ movie, score, matchedBy, ranks, breakdown, passage }, idx) => ({
+          ...toSearchResult(movie, score, breakdown, passage),
+          matchedBy,
+          ranks,
+          ...(explanations && { explanation: explanations[idx] }),
+        })
+      ),
+    });
+  }
 
   try {
     logger.info(`Starting semantic search for query: "${q}"`);
@@ -68,33 +208,50 @@ export const searchMoviesHandler = asyncHandler(async (req, res) => {
     }
 
     // Search vector database
-    let results: { movie: MovieDocument; score: number }[] = [];
-    try {
-      results = await searchMoviesByEmbedding(embedding, limit ?? 10);
-      logger.info(`Vector search returned ${results.length} results`);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      logger.error("Vector search failed", { error: errorMessage });
-      // Return empty results instead of failing
-      results = [];
-    }
+    const rank = async (depth: number): Promise<SemanticSearchResult[]> => {
+      try {
+        const ranked = await searchMoviesByEmbedding(embedding, depth, {
+          fieldWeights,
+          query: q,
+          diversity,
+          // The same pool on every page, so earlier pages keep their picks and
+          // slicing by position neither repeats nor skips movies
+          ...(diversity && { candidates: MAX_SEARCH_DEPTH }),
+        });
+        logger.info(`Vector search returned ${ranked.length} results`);
+        return ranked;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        logger.error("Vector search failed", { error: errorMessage });
+        // Return empty results instead of failing
+        return [];
+      }
+    };
+    // Diversified results are not sorted by score, so page them by position
+    const { page: results, next } = await fetchRankedPage(
+      rank,
+      position,
+      pageSize,
+      movieKey,
+      diversity ? undefined : ({ score }) => score
+    );
 
     // Transform results
-    const transformedResults = results.map(({ movie, score }) => ({
-      id: movie.id || movie._id?.toString(),
-      title: movie.title,
-      genres: movie.genres,
-      cast: movie.cast,
-      rating: movie.rating,
-      posterUrl: movie.posterUrl,
-      posterGridFSId: movie.posterGridFSId?.toString(),
-      releaseYear: movie.releaseYear,
-      score,
-    }));
+    const explanations = explain
+      ? await explainSearchResults(q, results)
+      : undefined;
+    const transformedResults = results.map(
+      ({ movie, score, breakdown, passage }, idx) => ({
+        ...toSearchResult(movie, score, breakdown, passage),
+        ...(explanations && { explanation: explanations[idx] }),
+      })
+    );
 
     res.json({
       count: transformedResults.length,
+      mode,
+      nextCursor: toNextCursor(next),
       results: transformedResults,
     });
   } catch (error) {
@@ -117,6 +274,13 @@ export const getMovieHandler = asyncHandler(async (req, res) => {
     return res.status(404).json({ message: "Movie not found" });
   }
 
+  if (req.user) {
+    // Best effort: a failed write should not fail the page
+    recordMovieView(req.user.id, movie.id).catch((error) =>
+      logger.warn(`Failed to record view of movie ${movie.id}`, error)
+    );
+  }
+
   // Ensure id field is present
   const movieObj = movie.toObject();
   return res.json({
@@ -127,7 +291,7 @@ export const getMovieHandler = asyncHandler(async (req, res) => {
 
 export const getSimilarMoviesHandler = asyncHandler(
   async (req: Request, res) => {
-    const { limit } = similarSchema.parse(req.query);
+    const { limit, diversity } = similarSchema.parse(req.query);
     const { id } = req.params as { id: string };
     const movie = await getMovieById(id);
 
@@ -135,36 +299,78 @@ export const getSimilarMoviesHandler = asyncHandler(
       return res.status(404).json({ message: "Movie not found" });
     }
 
-    const baseText = movie.plot;
-    if (!baseText) {
-      return res.status(400).json({
-        message: "Movie is missing plot description for similarity search",
+    try {
+      // Searches from the movie's stored vectors: plot, else genre, else title
+      const { basedOn, results } = await findSimilarToMovie(movie, limit, {
+        diversity,
       });
+
+      return res.json({
+        count: results.length,
+        basedOn,
+        results: results.map(({ movie: candidate, score }) => ({
+          id: candidate.id || candidate._id?.toString(),
+          title: candidate.title,
+          posterUrl: candidate.posterUrl,
+          posterGridFSId: candidate.posterGridFSId?.toString(),
+          score,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof MissingEmbeddingsError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
     }
+  }
+);
 
-    // Request limit + 1 results to account for the movie itself being in the results
-    const embedding = await generateEmbedding(baseText);
-    const results = await searchMoviesByEmbedding(embedding, limit + 1);
-    const filtered = results
-      .filter(({ movie: candidate }) => {
-        const candidateId = candidate.id || candidate._id?.toString();
-        const movieId = movie.id || movie._id?.toString();
-        return candidateId !== movieId;
-      })
-      .slice(0, limit); // Ensure we only return the requested limit
+/**
+ * "More like these": movies close to the combined vectors of several seed
+ * movies, optionally steered away from negative examples
+ */
+export const getMoviesLikeTheseHandler = asyncHandler(async (req, res) => {
+  const { ids, negativeIds, limit, negativeWeight } =
+    moviesLikeTheseSchema.parse(req.body);
+  const [seeds, negatives] = await Promise.all([
+    getMoviesByIds(ids),
+    getMoviesByIds(negativeIds.filter((id) => !ids.includes(id))),
+  ]);
+
+  if (!seeds.length) {
+    return res.status(404).json({ message: "No seed movies found" });
+  }
+
+  try {
+    const results = await searchMoviesLikeThese(seeds, negatives, {
+      limit,
+      negativeWeight,
+    });
 
     return res.json({
-      count: filtered.length,
-      results: filtered.map(({ movie: candidate, score }) => ({
+      count: results.length,
+      seeds: seeds.map((seed) => ({ id: seed.id, title: seed.title })),
+      negatives: negatives.map((negative) => ({
+        id: negative.id,
+        title: negative.title,
+      })),
+      results: results.map(({ movie: candidate, score }) => ({
         id: candidate.id || candidate._id?.toString(),
         title: candidate.title,
         posterUrl: candidate.posterUrl,
         posterGridFSId: candidate.posterGridFSId?.toString(),
+        genres: candidate.genres,
+        releaseYear: candidate.releaseYear,
         score,
       })),
     });
+  } catch (error) {
+    if (error instanceof MissingEmbeddingsError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
   }
-);
+});
 
 const listSchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -336,16 +542,24 @@ export const ingestMovieWithImageHandler = asyncHandler(async (req, res) => {
         type: typeof imageBuffer,
       });
 
-      await ingestMovieWithImage(
+      const { movie, job } = await ingestMovieWithImage(
         validatedPayload,
         imageBuffer,
         file.mimetype,
         file.originalname
       );
-      res.status(202).json({ message: "Movie ingestion with image started" });
+      res.status(202).json({
+        message: "Movie ingestion with image started",
+        movieId: movie.id,
+        jobId: job.id,
+      });
     } else {
-      await ingestMovie(validatedPayload);
-      res.status(202).json({ message: "Movie ingestion started" });
+      const { movie, job } = await ingestMovie(validatedPayload);
+      res.status(202).json({
+        message: "Movie ingestion started",
+        movieId: movie.id,
+        jobId: job.id,
+      });
     }
   } catch (error) {
     const errorMessage =
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { asyncHandler } from "../utils/asyncHandler";
+import { MAX_STARS, MIN_STARS } from "../models/Review";
+import {
+  AlreadyReviewedError,
+  createReview,
+  deleteReview,
+  getUserReview,
+  listMovieReviews,
+  ReviewForbiddenError,
+  updateReview,
+} from "../services/reviewService";
+
+const starsSchema = z.coerce.number().int().min(MIN_STARS).max(MAX_STARS);
+const textSchema = z.string().trim().max(5000);
+
+const createReviewSchema = z.object({
+  stars: starsSchema,
+  text: textSchema.optional(),
+});
+
+const updateReviewSchema = z
+  .object({
+    stars: starsSchema.optional(),
+    text: textSchema.optional(),
+  })
+  .refine((body) => body.stars !== undefined || body.text !== undefined, {
+    message: "Provide stars or text to update",
+  });
+
+const listReviewsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const listMovieReviewsHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const { page, limit } = listReviewsSchema.parse(req.query);
+  const result = await listMovieReviews(id, { page, limit });
+  if (!result) {
+    return res.status(404).json({ message: "Movie not found" });
+  }
+  return res.json(result);
+});
+
+export const getMyReviewHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const review = await getUserReview(id, req.user!.id);
+  return res.json({ review });
+});
+
+export const createReviewHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const body = createReviewSchema.parse(req.body);
+  try {
+    const result = await createReview(id, req.user!, body);
+    if (!result) {
+      return res.status(404).json({ message: "Movie not found" });
+    }
+    return res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof AlreadyReviewedError) {
+      return res.status(409).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const updateReviewHandler = asyncHandler(async (req, res) => {
+  const { reviewId } = req.params as { reviewId: string };
+  const body = updateReviewSchema.parse(req.body);
+  try {
+    const result = await updateReview(reviewId, req.user!, body);
+    if (!result) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof ReviewForbiddenError) {
+      return res.status(403).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+// Authors delete their own reviews; admins can delete any (moderation)
+export const deleteReviewHandler = asyncHandler(async (req, res) => {
+  const { reviewId } = req.params as { reviewId: string };
+  try {
+    const result = await deleteReview(reviewId, req.user!);
+    if (!result) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    return res.json({ message: "Review deleted", ...result });
+  } catch (error) {
+    if (error instanceof ReviewForbiddenError) {
+      return res.status(403).json({ message: error.message });
+    }
+    throw error;
+  }
+});
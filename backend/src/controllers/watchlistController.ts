@@ -0,0 +1,163 @@
+import { z } from "zod";
+import { asyncHandler } from "../utils/asyncHandler";
+import {
+  addFavourite,
+  addMovieToWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  DuplicateWatchlistNameError,
+  getWatchlist,
+  InvalidWatchlistOrderError,
+  listFavourites,
+  listUserWatchlists,
+  removeFavourite,
+  removeMovieFromWatchlist,
+  reorderWatchlist,
+  updateWatchlist,
+  WatchlistMovieNotFoundError,
+} from "../services/watchlistService";
+
+const nameSchema = z.string().trim().min(1).max(100);
+
+const createWatchlistSchema = z.object({
+  name: nameSchema,
+  isPublic: z.boolean().optional(),
+});
+
+const updateWatchlistSchema = z
+  .object({
+    name: nameSchema.optional(),
+    isPublic: z.boolean().optional(),
+  })
+  .refine((body) => body.name !== undefined || body.isPublic !== undefined, {
+    message: "Provide name or isPublic to update",
+  });
+
+const addMovieSchema = z.object({
+  movieId: z.string().min(1),
+  // 0 puts the movie first; omitted appends it
+  position: z.number().int().min(0).optional(),
+});
+
+const reorderSchema = z.object({
+  movieIds: z.array(z.string().min(1)).max(1000),
+});
+
+const notFound = { message: "Watchlist not found" };
+
+export const listMyWatchlistsHandler = asyncHandler(async (req, res) => {
+  const watchlists = await listUserWatchlists(req.user!.id);
+  return res.json({ count: watchlists.length, watchlists });
+});
+
+// Public lists are readable by anyone; private ones only by their owner
+export const getWatchlistHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const watchlist = await getWatchlist(id, req.user?.id);
+  if (!watchlist) {
+    return res.status(404).json(notFound);
+  }
+  return res.json(watchlist);
+});
+
+export const createWatchlistHandler = asyncHandler(async (req, res) => {
+  const body = createWatchlistSchema.parse(req.body);
+  try {
+    const watchlist = await createWatchlist(req.user!.id, body);
+    return res.status(201).json(watchlist);
+  } catch (error) {
+    if (error instanceof DuplicateWatchlistNameError) {
+      return res.status(409).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const updateWatchlistHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const body = updateWatchlistSchema.parse(req.body);
+  try {
+    const watchlist = await updateWatchlist(id, req.user!.id, body);
+    if (!watchlist) {
+      return res.status(404).json(notFound);
+    }
+    return res.json(watchlist);
+  } catch (error) {
+    if (error instanceof DuplicateWatchlistNameError) {
+      return res.status(409).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const deleteWatchlistHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  if (!(await deleteWatchlist(id, req.user!.id))) {
+    return res.status(404).json(notFound);
+  }
+  return res.json({ message: "Watchlist deleted" });
+});
+
+export const addWatchlistMovieHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const { movieId, position } = addMovieSchema.parse(req.body);
+  try {
+    const watchlist = await addMovieToWatchlist(id, req.user!.id, movieId, position);
+    if (!watchlist) {
+      return res.status(404).json(notFound);
+    }
+    return res.json(watchlist);
+  } catch (error) {
+    if (error instanceof WatchlistMovieNotFoundError) {
+      return res.status(404).json({ message: "Movie not found" });
+    }
+    throw error;
+  }
+});
+
+export const removeWatchlistMovieHandler = asyncHandler(async (req, res) => {
+  const { id, movieId } = req.params as { id: string; movieId: string };
+  const watchlist = await removeMovieFromWatchlist(id, req.user!.id, movieId);
+  if (!watchlist) {
+    return res.status(404).json(notFound);
+  }
+  return res.json(watchlist);
+});
+
+export const reorderWatchlistHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params as { id: string };
+  const { movieIds } = reorderSchema.parse(req.body);
+  try {
+    const watchlist = await reorderWatchlist(id, req.user!.id, movieIds);
+    if (!watchlist) {
+      return res.status(404).json(notFound);
+    }
+    return res.json(watchlist);
+  } catch (error) {
+    if (error instanceof InvalidWatchlistOrderError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+});
+
+export const listFavouritesHandler = asyncHandler(async (req, res) => {
+  return res.json(await listFavourites(req.user!.id));
+});
+
+export const addFavouriteHandler = asyncHandler(async (req, res) => {
+  const { movieId } = req.params as { movieId: string };
+  try {
+    return res.json(await addFavourite(req.user!.id, movieId));
+  } catch (error) {
+    if (error instanceof WatchlistMovieNotFoundError) {
+      return res.status(404).json({ message: "Movie not found" });
+    }
+    throw error;
+  }
+});
+
+export const removeFavouriteHandler = asyncHandler(async (req, res) => {
+  const { movieId } = req.params as { movieId: string };
+  return res.json(await removeFavourite(req.user!.id, movieId));
+});
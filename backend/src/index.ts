@@ -2,15 +2,28 @@ import app from './app';
 import { env } from './config/env';
 import { connectDatabase } from './config/database';
 import { initializeVectorDB } from './config/initVectorDB';
+import { initializeEmbeddingProvider } from './config/initEmbeddingProvider';
 import { initializeGridFS } from './services/gridfsService';
 import { logger } from './utils/logger';
 import { importMovies } from './scripts/importMovies';
+import { startIngestionWorker } from './services/ingestionWorker';
+import { syncMovieTextIndex } from './services/movieService';
+import { ensureAdminAccount } from './services/authService';
 
 const startServer = async () => {
   try {
     await connectDatabase();
+    await syncMovieTextIndex();
+    await ensureAdminAccount();
     initializeGridFS();
     await initializeVectorDB();
+    await initializeEmbeddingProvider();
+
+    if (env.INGESTION_WORKER_ENABLED) {
+      startIngestionWorker();
+    } else {
+      logger.warn('Ingestion worker disabled (INGESTION_WORKER_ENABLED=false); queued jobs will not run here');
+    }
     
     // Auto-import movies if AUTO_IMPORT_MOVIES=true in .env
     if (process.env.AUTO_IMPORT_MOVIES === 'true') {
@@ -0,0 +1,125 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { ApiKeyScope } from '../models/ApiKey';
+import { USER_ROLES, type UserRole } from '../models/User';
+import { verifyApiKey, type ApiKeyIdentity } from '../services/apiKeyService';
+import {
+  getCurrentRole,
+  InvalidTokenError,
+  verifyAccessToken,
+  type AuthUser,
+} from '../services/authService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireRole from the Bearer access token (role as stored now)
+      user?: AuthUser;
+      // Set when the request authenticated with X-API-Key
+      apiKey?: ApiKeyIdentity;
+    }
+  }
+}
+
+// Higher rank includes the permissions of lower ones: admin > editor > viewer
+const roleRank = (role: UserRole): number => USER_ROLES.length - USER_ROLES.indexOf(role);
+
+const bearerToken = (req: Request): string | undefined => {
+  const header = req.get('authorization') ?? '';
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+};
+
+/**
+ * Authenticate the X-API-Key header, if sent, and check it has `scope`.
+ * Returns false after responding 401/403; true when the request may continue.
+ */
+const checkApiKey = async (
+  req: Request,
+  res: Response,
+  scope: ApiKeyScope,
+): Promise<boolean> => {
+  const apiKey = await verifyApiKey(req.get('x-api-key') ?? '');
+  if (!apiKey) {
+    res.status(401).json({ message: 'Invalid or revoked API key' });
+    return false;
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    res.status(403).json({ message: `API key lacks the ${scope} scope` });
+    return false;
+  }
+  req.apiKey = apiKey;
+  return true;
+};
+
+/**
+ * Set req.user from the access token. Returns false after responding 401.
+ */
+const authenticate = (req: Request, res: Response, token: string): boolean => {
+  try {
+    req.user = verifyAccessToken(token);
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      res.status(401).json({ message: error.message });
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Require a valid access token whose user's role is at least `role`, or, when
+ * `scope` is given, an X-API-Key with that scope instead. The role is read
+ * from the database rather than the token, so a demotion applies before the
+ * token expires.
+ * Responds 401 without valid credentials and 403 when the role or scope is
+ * insufficient.
+ */
+export const requireRole =
+  (role: UserRole, scope?: ApiKeyScope) => async (req: Request, res: Response, next: NextFunction) => {
+    if (scope && req.get('x-api-key') !== undefined) {
+      if (await checkApiKey(req, res, scope)) next();
+      return;
+    }
+
+    const token = bearerToken(req);
+    if (!token) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    if (!authenticate(req, res, token)) return;
+
+    const currentRole = await getCurrentRole(req.user!.id);
+    if (!currentRole) {
+      return res.status(401).json({ message: 'Account no longer exists' });
+    }
+    req.user!.role = currentRole;
+
+    if (roleRank(currentRole) < roleRank(role)) {
+      return res.status(403).json({ message: `Requires ${role} role` });
+    }
+    next();
+  };
+
+/**
+ * For public endpoints: requests without X-API-Key pass through, while a sent
+ * key must be valid and have `scope` (so clients learn about revoked keys and
+ * its usage is recorded).
+ */
+export const optionalApiKey =
+  (scope: ApiKeyScope) => async (req: Request, res: Response, next: NextFunction) => {
+    if (req.get('x-api-key') === undefined || (await checkApiKey(req, res, scope))) {
+      next();
+    }
+  };
+
+/**
+ * For endpoints that anyone may call but that show more to signed-in users:
+ * sets req.user when a Bearer token is sent. An invalid token still gets 401
+ * so the client can refresh it.
+ */
+export const optionalUser = (req: Request, res: Response, next: NextFunction) => {
+  const token = bearerToken(req);
+  if (!token || authenticate(req, res, token)) {
+    next();
+  }
+};
@@ -0,0 +1,36 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// search: search and similarity endpoints; ingest: create, update and delete
+// movies; admin: /admin and /analytics endpoints. Scopes do not imply each other.
+export const API_KEY_SCOPES = ['search', 'ingest', 'admin'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyDocument extends Document {
+  name: string;
+  // First characters of the key, shown so admins can tell keys apart
+  prefix: string;
+  // SHA-256 of the full key; the key itself is only returned once, on creation
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy?: Types.ObjectId;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<ApiKeyDocument>(
+  {
+    name: { type: String, required: true, trim: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true },
+    scopes: { type: [String], enum: API_KEY_SCOPES, required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+export const ApiKeyModel = model<ApiKeyDocument>('ApiKey', apiKeySchema);
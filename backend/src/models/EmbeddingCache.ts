@@ -0,0 +1,27 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Persisted embedding for a (model, normalized text) pair so restarts and
+// re-indexing do not recompute vectors that were already generated
+export interface EmbeddingCacheDocument extends Document {
+  embeddingModel: string;
+  textHash: string; // sha256 of the normalized text
+  vector: number[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const embeddingCacheSchema = new Schema<EmbeddingCacheDocument>(
+  {
+    embeddingModel: { type: String, required: true },
+    textHash: { type: String, required: true },
+    vector: { type: [Number], required: true },
+  },
+  { timestamps: true },
+);
+
+embeddingCacheSchema.index({ embeddingModel: 1, textHash: 1 }, { unique: true });
+
+export const EmbeddingCacheModel = model<EmbeddingCacheDocument>(
+  'EmbeddingCache',
+  embeddingCacheSchema,
+);
@@ -0,0 +1,24 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+/**
+ * A movie a user marked as a favourite; one document per user and movie
+ */
+export interface FavouriteDocument extends Document {
+  user: Types.ObjectId;
+  movie: Types.ObjectId;
+  createdAt: Date;
+}
+
+const favouriteSchema = new Schema<FavouriteDocument>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    movie: { type: Schema.Types.ObjectId, ref: 'Movie', required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+favouriteSchema.index({ user: 1, movie: 1 }, { unique: true });
+// A user's favourites, newest first
+favouriteSchema.index({ user: 1, createdAt: -1 });
+
+export const FavouriteModel = model<FavouriteDocument>('Favourite', favouriteSchema);
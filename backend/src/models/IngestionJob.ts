@@ -1,8 +1,22 @@
 import { Schema, model, Document, Types } from 'mongoose';
 
+export type IngestionJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+// ingest: new movie; update: movie edited, embeddings/payload need refreshing
+export type IngestionJobType = 'ingest' | 'update';
+
 export interface IngestionJobDocument extends Document {
   movieId: Types.ObjectId;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  type: IngestionJobType;
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the job may be claimed (used for retry backoff)
+  nextRunAt: Date;
+  // Lease: the worker holding the job and until when; expired leases are reclaimed
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastAttemptAt?: Date;
+  completedAt?: Date;
   errorMessage?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -11,17 +25,26 @@ export interface IngestionJobDocument extends Document {
 const ingestionJobSchema = new Schema<IngestionJobDocument>(
   {
     movieId: { type: Schema.Types.ObjectId, ref: 'Movie', required: true },
+    type: { type: String, enum: ['ingest', 'update'], default: 'ingest' },
     status: {
       type: String,
       enum: ['pending', 'processing', 'completed', 'failed'],
       default: 'pending',
     },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    nextRunAt: { type: Date, default: () => new Date() },
+    lockedBy: { type: String },
+    lockedUntil: { type: Date },
+    lastAttemptAt: { type: Date },
+    completedAt: { type: Date },
     errorMessage: { type: String },
   },
   { timestamps: true },
 );
 
 ingestionJobSchema.index({ movieId: 1, status: 1 });
+ingestionJobSchema.index({ status: 1, nextRunAt: 1 });
+ingestionJobSchema.index({ status: 1, lockedUntil: 1 });
 
 export const IngestionJobModel = model<IngestionJobDocument>('IngestionJob', ingestionJobSchema);
-
@@ -12,12 +12,12 @@ export interface MovieDocument extends Document {
   posterGridFSId?: Types.ObjectId;
   posterContentType?: string;
   rating?: number;
+  // Mean review stars (1-5) and number of reviews, kept up to date by reviewService
+  communityRating?: number;
+  ratingCount: number;
   metadata?: Record<string, unknown>;
-  embeddingKeys: {
-    title?: string;
-    plot?: string;
-    genre?: string;
-  };
+  // Vector DB ID per embedding key (title, genre, plot:0, plot:1, ...)
+  embeddingKeys: Record<string, string>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,12 +35,10 @@ const movieSchema = new Schema<MovieDocument>(
     posterGridFSId: { type: Schema.Types.ObjectId },
     posterContentType: { type: String },
     rating: { type: Number },
+    communityRating: { type: Number },
+    ratingCount: { type: Number, default: 0 },
     metadata: { type: Schema.Types.Mixed },
-    embeddingKeys: {
-      title: { type: String },
-      plot: { type: String },
-      genre: { type: String },
-    },
+    embeddingKeys: { type: Schema.Types.Mixed, default: {} },
   },
   {
     timestamps: true,
@@ -54,7 +52,18 @@ const movieSchema = new Schema<MovieDocument>(
   }
 );
 
-movieSchema.index({ title: "text", plot: "text" });
+// MongoDB allows one text index per collection; older ones are replaced at
+// startup by syncMovieTextIndex
+export const MOVIE_TEXT_INDEX = "movie_text_search";
+
+// Used by lexical/hybrid search; title and cast hits should outrank plot mentions
+movieSchema.index(
+  { title: "text", cast: "text", director: "text", plot: "text" },
+  {
+    name: MOVIE_TEXT_INDEX,
+    weights: { title: 10, cast: 5, director: 5, plot: 1 },
+  }
+);
 movieSchema.index({ genres: 1, releaseYear: -1 });
 
 export const MovieModel = model<MovieDocument>("Movie", movieSchema);
@@ -0,0 +1,25 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+/**
+ * A signed-in user opened a movie's page; one document per user and movie,
+ * updated on each visit
+ */
+export interface MovieViewDocument extends Document {
+  user: Types.ObjectId;
+  movie: Types.ObjectId;
+  viewCount: number;
+  lastViewedAt: Date;
+}
+
+const movieViewSchema = new Schema<MovieViewDocument>({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  movie: { type: Schema.Types.ObjectId, ref: 'Movie', required: true },
+  viewCount: { type: Number, default: 0 },
+  lastViewedAt: { type: Date, default: Date.now },
+});
+
+movieViewSchema.index({ user: 1, movie: 1 }, { unique: true });
+// A user's most recent views, for their taste profile
+movieViewSchema.index({ user: 1, lastViewedAt: -1 });
+
+export const MovieViewModel = model<MovieViewDocument>('MovieView', movieViewSchema);
@@ -0,0 +1,29 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const MIN_STARS = 1;
+export const MAX_STARS = 5;
+
+export interface ReviewDocument extends Document {
+  user: Types.ObjectId;
+  movie: Types.ObjectId;
+  stars: number;
+  text?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reviewSchema = new Schema<ReviewDocument>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    movie: { type: Schema.Types.ObjectId, ref: 'Movie', required: true },
+    stars: { type: Number, required: true, min: MIN_STARS, max: MAX_STARS },
+    text: { type: String, trim: true },
+  },
+  { timestamps: true },
+);
+
+// One review per user per movie; also serves the per-movie listing
+reviewSchema.index({ movie: 1, user: 1 }, { unique: true });
+reviewSchema.index({ movie: 1, createdAt: -1 });
+
+export const ReviewModel = model<ReviewDocument>('Review', reviewSchema);
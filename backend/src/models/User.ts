@@ -0,0 +1,32 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Ordered from most to least privileged; see requireRole
+export const USER_ROLES = ['admin', 'editor', 'viewer'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface UserDocument extends Document {
+  email: string;
+  name?: string;
+  passwordHash: string;
+  role: UserRole;
+  // Bumped on logout and role changes; refresh tokens carrying an older value are rejected
+  tokenVersion: number;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const userSchema = new Schema<UserDocument>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    name: { type: String, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, enum: USER_ROLES, default: 'viewer' },
+    tokenVersion: { type: Number, default: 0 },
+    lastLoginAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+export const UserModel = model<UserDocument>('User', userSchema);
@@ -0,0 +1,23 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Points a stable name (`<VECTOR_DB_PROVIDER>:<VECTOR_COLLECTION>`) at the
+ * active VectorIndex. Switching indexes is a single-document update, so every
+ * reader sees either the old or the new collection, never a mix.
+ */
+export interface VectorAliasDocument extends Document {
+  name: string;
+  target: string; // VectorIndex.name
+  switchedAt: Date;
+}
+
+const vectorAliasSchema = new Schema<VectorAliasDocument>(
+  {
+    name: { type: String, required: true, unique: true },
+    target: { type: String, required: true },
+    switchedAt: { type: Date, default: () => new Date() },
+  },
+  { timestamps: true },
+);
+
+export const VectorAliasModel = model<VectorAliasDocument>('VectorAlias', vectorAliasSchema);
@@ -0,0 +1,59 @@
+import { Schema, model, Document } from 'mongoose';
+import type { EmbeddingProviderName } from '../services/embeddingProviders';
+import type { VectorDBProvider } from '../services/vectorStores';
+
+// building: re-index running; ready: built but not switched to;
+// active: target of the alias; retired: replaced by a newer index
+export type VectorIndexStatus = 'building' | 'ready' | 'active' | 'retired' | 'failed';
+
+/**
+ * One version of the vector collection, built with a single embedding spec
+ */
+export interface VectorIndexDocument extends Document {
+  name: string; // Collection name, e.g. movies__sentence-transformers-all-minilm-l6-v2__384
+  vectorProvider: VectorDBProvider;
+  embeddingProvider: EmbeddingProviderName;
+  embeddingModel: string;
+  dimension: number;
+  status: VectorIndexStatus;
+  totalMovies: number;
+  processedMovies: number;
+  failedMovies: number;
+  errorMessage?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  activatedAt?: Date;
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const vectorIndexSchema = new Schema<VectorIndexDocument>(
+  {
+    name: { type: String, required: true },
+    vectorProvider: { type: String, required: true },
+    embeddingProvider: { type: String, enum: ['local', 'openai'], required: true },
+    embeddingModel: { type: String, required: true },
+    dimension: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ['building', 'ready', 'active', 'retired', 'failed'],
+      default: 'building',
+    },
+    totalMovies: { type: Number, default: 0 },
+    processedMovies: { type: Number, default: 0 },
+    failedMovies: { type: Number, default: 0 },
+    errorMessage: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    activatedAt: { type: Date },
+    retiredAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+// Each vector provider keeps its own versions, which may share a name
+vectorIndexSchema.index({ vectorProvider: 1, name: 1 }, { unique: true });
+vectorIndexSchema.index({ status: 1 });
+
+export const VectorIndexModel = model<VectorIndexDocument>('VectorIndex', vectorIndexSchema);
@@ -0,0 +1,40 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface WatchlistItem {
+  movie: Types.ObjectId;
+  addedAt: Date;
+}
+
+export interface WatchlistDocument extends Document {
+  user: Types.ObjectId;
+  name: string;
+  // Public lists can be viewed by anyone with the link; only the owner edits
+  isPublic: boolean;
+  // In the owner's chosen order
+  items: WatchlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const watchlistItemSchema = new Schema<WatchlistItem>(
+  {
+    movie: { type: Schema.Types.ObjectId, ref: 'Movie', required: true },
+    addedAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const watchlistSchema = new Schema<WatchlistDocument>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true, trim: true },
+    isPublic: { type: Boolean, default: false },
+    items: { type: [watchlistItemSchema], default: [] },
+  },
+  { timestamps: true },
+);
+
+// List names are unique per user
+watchlistSchema.index({ user: 1, name: 1 }, { unique: true });
+
+export const WatchlistModel = model<WatchlistDocument>('Watchlist', watchlistSchema);
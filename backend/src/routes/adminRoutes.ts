@@ -3,11 +3,41 @@ import { z } from 'zod';
 import { asyncHandler } from '../utils/asyncHandler';
 import { logger } from '../utils/logger';
 import { MovieModel } from '../models/Movie';
-import { getAllMovies } from '../services/movieService';
+import {
+  getAllMovies,
+  deleteMovies,
+  sweepOrphanVectors,
+  backfillVectorPayloads,
+} from '../services/movieService';
 import { importMovies } from '../scripts/importMovies';
+import { getEmbeddingCacheStats } from '../services/embeddingService';
+import { EmbeddingDimensionMismatchError } from '../services/embeddingProviders';
+import {
+  dropVectorIndex,
+  listVectorIndexes,
+  startReindex,
+  VectorIndexConflictError,
+} from '../services/vectorIndexService';
+import {
+  enqueueEmbeddingJob,
+  getIngestionJob,
+  getIngestionJobCounts,
+  listIngestionJobs,
+  retryIngestionJob,
+} from '../services/ingestionService';
+import { listUsers, toPublicUser, updateUserRole } from '../services/authService';
+import { createApiKey, listApiKeys, revokeApiKey, toPublicApiKey } from '../services/apiKeyService';
+import { requireRole } from '../middleware/auth';
+import { USER_ROLES } from '../models/User';
+import { API_KEY_SCOPES } from '../models/ApiKey';
 
 const router = Router();
 
+// Everything in this router is for admins (or API keys with the admin scope)
+router.use(['/admin', '/analytics'], requireRole('admin', 'admin'));
+// Accounts and keys are managed by signed-in admins only, never by an API key
+router.use(['/admin/users', '/admin/api-keys'], requireRole('admin'));
+
 // Analytics: Get search statistics
 router.get(
   '/analytics/searches',
@@ -128,15 +158,13 @@ router.post(
       .parse(req.body);
 
     try {
-      const result = await MovieModel.deleteMany({
-        _id: { $in: ids },
-      });
+      const deletedCount = await deleteMovies(ids);
 
-      logger.info(`Bulk deleted ${result.deletedCount} movies`);
+      logger.info(`Bulk deleted ${deletedCount} movies`);
 
       res.json({
-        message: `Deleted ${result.deletedCount} movies`,
-        deletedCount: result.deletedCount,
+        message: `Deleted ${deletedCount} movies`,
+        deletedCount,
       });
     } catch (error) {
       logger.error('Bulk delete error', error);
@@ -161,11 +189,23 @@ router.put(
       .parse(req.body);
 
     try {
+      // Movies the update actually changes; only they need new vector payloads
+      const changes = Object.entries(updates).map(([field, value]) => ({ [field]: { $ne: value } }));
+      const changed = changes.length
+        ? await MovieModel.find({ _id: { $in: ids }, $or: changes }).select('_id').lean()
+        : [];
+      const changedIds = changed.map((movie) => movie._id);
+
       const result = await MovieModel.updateMany(
-        { _id: { $in: ids } },
+        { _id: { $in: changedIds } },
         { $set: updates }
       );
 
+      // Genres, director and rating are filter fields in the vector payload
+      for (const movieId of changedIds) {
+        await enqueueEmbeddingJob(String(movieId), 'update');
+      }
+
       logger.info(`Bulk updated ${result.modifiedCount} movies`);
 
       res.json({
@@ -279,6 +319,7 @@ router.get(
           connected: dbHealthy,
           movieCount,
         },
+        embeddingCache: getEmbeddingCacheStats(),
         uptime: process.uptime(),
       });
     } catch (error) {
@@ -370,6 +411,219 @@ router.post(
   })
 );
 
+// Admin: Remove vectors whose movie no longer exists
+router.post(
+  '/admin/vectors/sweep-orphans',
+  asyncHandler(async (req, res) => {
+    const { dryRun } = z
+      .object({ dryRun: z.boolean().default(false) })
+      .parse(req.body ?? {});
+
+    const result = await sweepOrphanVectors(dryRun);
+    res.json({
+      message: dryRun ? 'Orphan vector scan completed (dry run)' : 'Orphan vector sweep completed',
+      dryRun,
+      ...result,
+    });
+  })
+);
+
+// Admin: Re-embed movies whose vectors have no filter payload yet
+router.post(
+  '/admin/vectors/backfill-payloads',
+  asyncHandler(async (req, res) => {
+    const { dryRun } = z
+      .object({ dryRun: z.boolean().default(false) })
+      .parse(req.body ?? {});
+
+    const result = await backfillVectorPayloads(dryRun);
+    res.json({
+      message: dryRun
+        ? 'Vector payload scan completed (dry run)'
+        : `Queued ${result.movieIds.length} movie(s) for re-embedding`,
+      dryRun,
+      ...result,
+    });
+  })
+);
+
+// Admin: List vector index versions and the active alias
+router.get(
+  '/admin/vector-indexes',
+  asyncHandler(async (req, res) => {
+    res.json(await listVectorIndexes());
+  })
+);
+
+// Admin: Build a new vector collection in the background and switch to it when done
+router.post(
+  '/admin/vector-indexes/reindex',
+  asyncHandler(async (req, res) => {
+    const spec = z
+      .object({
+        provider: z.enum(['local', 'openai']).optional(),
+        model: z.string().min(1).optional(),
+        dimension: z.coerce.number().int().min(1).optional(),
+      })
+      .parse(req.body ?? {});
+
+    try {
+      const index = await startReindex(spec);
+      res.status(202).json({
+        message: `Re-index started; search switches to '${index.name}' when it completes`,
+        index,
+      });
+    } catch (error) {
+      if (error instanceof VectorIndexConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof EmbeddingDimensionMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+  })
+);
+
+// Admin: Drop a retired or failed vector index version
+router.delete(
+  '/admin/vector-indexes/:name',
+  asyncHandler(async (req, res) => {
+    const { name } = req.params as { name: string };
+    try {
+      const index = await dropVectorIndex(name);
+      if (!index) {
+        return res.status(404).json({ message: 'Vector index not found' });
+      }
+      res.json({ message: `Vector index '${name}' dropped` });
+    } catch (error) {
+      if (error instanceof VectorIndexConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      throw error;
+    }
+  })
+);
+
+// Admin: List ingestion jobs (filter by status, movie, date range)
+router.get(
+  '/admin/jobs',
+  asyncHandler(async (req, res) => {
+    const params = z
+      .object({
+        status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+        movieId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid movie ID').optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        page: z.coerce.number().min(1).default(1),
+        limit: z.coerce.number().min(1).max(100).default(20),
+      })
+      .parse(req.query);
+
+    const [result, counts] = await Promise.all([
+      listIngestionJobs(params),
+      getIngestionJobCounts(),
+    ]);
+
+    res.json({ ...result, counts });
+  })
+);
+
+// Admin: Get a single ingestion job
+router.get(
+  '/admin/jobs/:id',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params as { id: string };
+    const job = await getIngestionJob(id);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    res.json(job);
+  })
+);
+
+// Admin: Re-queue a failed ingestion job
+router.post(
+  '/admin/jobs/:id/retry',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params as { id: string };
+    const job = await retryIngestionJob(id);
+    if (job === null) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    if (job === false) {
+      return res.status(409).json({ message: 'Only failed jobs can be retried' });
+    }
+    res.json({ message: 'Job re-queued', job });
+  })
+);
+
+// Admin: List user accounts
+router.get(
+  '/admin/users',
+  asyncHandler(async (_req, res) => {
+    const users = await listUsers();
+    res.json({ count: users.length, users: users.map(toPublicUser) });
+  })
+);
+
+// Admin: Change a user's role (their current sessions end)
+router.patch(
+  '/admin/users/:id',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params as { id: string };
+    const { role } = z.object({ role: z.enum(USER_ROLES) }).parse(req.body);
+    if (id === req.user!.id && role !== 'admin') {
+      return res.status(400).json({ message: 'Admins cannot remove their own admin role' });
+    }
+
+    const user = await updateUserRole(id, role);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json({ user: toPublicUser(user) });
+  })
+);
+
+// Admin: List API keys (never the keys themselves)
+router.get(
+  '/admin/api-keys',
+  asyncHandler(async (_req, res) => {
+    const apiKeys = await listApiKeys();
+    res.json({ count: apiKeys.length, apiKeys: apiKeys.map(toPublicApiKey) });
+  })
+);
+
+// Admin: Create an API key; the response is the only time the key is shown
+router.post(
+  '/admin/api-keys',
+  asyncHandler(async (req, res) => {
+    const { name, scopes } = z
+      .object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+      })
+      .parse(req.body);
+
+    const { apiKey, key } = await createApiKey({ name, scopes, createdBy: req.user!.id });
+    logger.info(`API key "${name}" (${apiKey.prefix}) created by ${req.user!.email}`);
+    res.status(201).json({ apiKey: toPublicApiKey(apiKey), key });
+  })
+);
+
+// Admin: Revoke an API key
+router.delete(
+  '/admin/api-keys/:id',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params as { id: string };
+    const apiKey = await revokeApiKey(id);
+    if (!apiKey) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+    res.json({ apiKey: toPublicApiKey(apiKey) });
+  })
+);
+
 // Admin: List movies missing posters
 router.get(
   '/admin/missing-posters',
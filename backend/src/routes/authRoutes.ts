@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  loginHandler,
+  logoutHandler,
+  meHandler,
+  refreshHandler,
+  signupHandler,
+} from '../controllers/authController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.post('/auth/signup', signupHandler);
+router.post('/auth/login', loginHandler);
+router.post('/auth/refresh', refreshHandler);
+router.post('/auth/logout', requireRole('viewer'), logoutHandler);
+router.get('/auth/me', requireRole('viewer'), meHandler);
+
+export default router;
@@ -3,6 +3,7 @@ import {
   searchMoviesHandler,
   getMovieHandler,
   getSimilarMoviesHandler,
+  getMoviesLikeTheseHandler,
   listMoviesHandler,
   updateMovieHandler,
   deleteMovieHandler,
@@ -11,8 +12,16 @@ import {
   updateMoviePosterHandler,
 } from '../controllers/movieController';
 import { advancedSearch, getFilterOptions, getDirectorSuggestions } from '../services/searchService';
-import { getTrendingMovies, getTopRatedByGenre, getEnhancedRecommendations, getPopularMovies } from '../services/recommendationService';
+import {
+  getTrendingMovies,
+  getTopRatedByGenre,
+  getEnhancedRecommendations,
+  getBlendedRecommendations,
+  getPopularMovies,
+  getPersonalRecommendations,
+} from '../services/recommendationService';
 import { upload } from '../middleware/upload';
+import { optionalApiKey, optionalUser, requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -24,7 +33,9 @@ router.get('/health', (_req, res) => {
 router.get('/movies', listMoviesHandler);
 
 // Ingest with image support - ONLY use Multer for multipart/form-data
-router.post('/movies/ingest', (req, res, next) => {
+// Creating, editing and deleting movies needs an editor (or admin) account
+// or an API key with the ingest scope
+router.post('/movies/ingest', requireRole('editor', 'ingest'), (req, res, next) => {
   const contentType = req.get('content-type') || '';
   if (contentType.includes('multipart/form-data')) {
     // FormData with file - use Multer
@@ -35,7 +46,11 @@ router.post('/movies/ingest', (req, res, next) => {
   }
 }, ingestMovieWithImageHandler);
 
+// Search is public; a client that sends X-API-Key needs the search scope
+const searchKey = optionalApiKey('search');
+
 // All search routes MUST come before /movies/:id to avoid matching 'search' as an id
+router.use('/movies/search', searchKey);
 router.get('/movies/search/advanced', advancedSearch);
 router.get('/movies/search/trending', getTrendingMovies);
 router.get('/movies/search/popular', getPopularMovies);
@@ -44,6 +59,9 @@ router.get('/movies/search/filters', getFilterOptions);
 router.get('/movies/search/directors', getDirectorSuggestions);
 router.get('/movies/search', searchMoviesHandler);
 
+// "More like these" from several seed movies
+router.post('/movies/similar', searchKey, getMoviesLikeTheseHandler);
+
 // Random and best rated endpoints
 router.get('/movies/random', async (req, res) => {
   try {
@@ -70,14 +88,24 @@ router.get('/movies/best-rated', async (req, res) => {
 
 // Movie-specific routes - :id routes come after all /movies/* static paths
 router.get('/movies/:id/poster', getMoviePosterHandler);
-router.get('/movies/:id/recommendations', getEnhancedRecommendations);
-router.get('/movies/:id/similar', getSimilarMoviesHandler);
-router.get('/movies/:id', getMovieHandler);
+router.get('/movies/:id/recommendations', searchKey, getEnhancedRecommendations);
+router.get('/movies/:id/recommendations/blended', searchKey, getBlendedRecommendations);
+router.get('/movies/:id/similar', searchKey, getSimilarMoviesHandler);
+// Signed-in users' visits feed their "For you" recommendations
+router.get('/movies/:id', optionalUser, getMovieHandler);
 
-router.put('/movies/:id', updateMovieHandler);
-router.put('/movies/:id/poster', upload.single('posterImage'), updateMoviePosterHandler);
+// Recommendations from the signed-in user's ratings, watchlists and views
+router.get('/me/recommendations', requireRole('viewer'), getPersonalRecommendations);
+
+router.put('/movies/:id', requireRole('editor', 'ingest'), updateMovieHandler);
+router.put(
+  '/movies/:id/poster',
+  requireRole('editor', 'ingest'),
+  upload.single('posterImage'),
+  updateMoviePosterHandler,
+);
 
-router.delete('/movies/:id', deleteMovieHandler);
+router.delete('/movies/:id', requireRole('editor', 'ingest'), deleteMovieHandler);
 
 export default router;
 
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  createReviewHandler,
+  deleteReviewHandler,
+  getMyReviewHandler,
+  listMovieReviewsHandler,
+  updateReviewHandler,
+} from '../controllers/reviewController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Reading reviews is public; writing one needs an account
+router.get('/movies/:id/reviews', listMovieReviewsHandler);
+router.get('/movies/:id/reviews/mine', requireRole('viewer'), getMyReviewHandler);
+router.post('/movies/:id/reviews', requireRole('viewer'), createReviewHandler);
+router.put('/reviews/:reviewId', requireRole('viewer'), updateReviewHandler);
+router.delete('/reviews/:reviewId', requireRole('viewer'), deleteReviewHandler);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  addFavouriteHandler,
+  addWatchlistMovieHandler,
+  createWatchlistHandler,
+  deleteWatchlistHandler,
+  getWatchlistHandler,
+  listFavouritesHandler,
+  listMyWatchlistsHandler,
+  removeFavouriteHandler,
+  removeWatchlistMovieHandler,
+  reorderWatchlistHandler,
+  updateWatchlistHandler,
+} from '../controllers/watchlistController';
+import { optionalUser, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Lists belong to the signed-in user; a public list can be read by anyone
+router.get('/watchlists', requireRole('viewer'), listMyWatchlistsHandler);
+router.post('/watchlists', requireRole('viewer'), createWatchlistHandler);
+router.get('/watchlists/:id', optionalUser, getWatchlistHandler);
+router.patch('/watchlists/:id', requireRole('viewer'), updateWatchlistHandler);
+router.delete('/watchlists/:id', requireRole('viewer'), deleteWatchlistHandler);
+router.post('/watchlists/:id/movies', requireRole('viewer'), addWatchlistMovieHandler);
+router.put('/watchlists/:id/movies', requireRole('viewer'), reorderWatchlistHandler);
+router.delete('/watchlists/:id/movies/:movieId', requireRole('viewer'), removeWatchlistMovieHandler);
+
+// Favourites are private to each user, newest first
+router.get('/favourites', requireRole('viewer'), listFavouritesHandler);
+router.put('/favourites/:movieId', requireRole('viewer'), addFavouriteHandler);
+router.delete('/favourites/:movieId', requireRole('viewer'), removeFavouriteHandler);
+
+export default router;
@@ -0,0 +1,53 @@
+"""
+Write goldenEmbeddings.json: reference vectors from sentence-transformers for
+`npm run test:golden`.
+
+    pip install sentence-transformers
+    python src/scripts/fixtures/generateGoldenEmbeddings.py [model]
+
+Re-run after changing the sample texts or the default EMBEDDING_MODEL.
+"""
+
+import json
+import os
+import sys
+
+import sentence_transformers
+from sentence_transformers import SentenceTransformer
+
+MODEL = sys.argv[1] if len(sys.argv) > 1 else "sentence-transformers/all-MiniLM-L6-v2"
+
+SAMPLES = [
+    "The Matrix is a science fiction action film.",
+    "A hacker learns that reality is a simulation controlled by machines.",
+    "Two lovers from rival families meet a tragic end in Verona.",
+    "A young wizard attends a school of witchcraft and wizardry.",
+    "Heartwarming animated comedy about toys that come to life when nobody is watching.",
+    "Dark, slow-burning crime thriller",
+    "space",
+]
+
+# The local provider loads the quantized ONNX export first, which stays close
+# to but not bit-identical with the PyTorch reference
+TOLERANCE = {"minCosine": 0.99, "maxAbsDiff": 0.02}
+
+model = SentenceTransformer(MODEL)
+vectors = model.encode(SAMPLES, normalize_embeddings=True)
+
+fixture = {
+    "model": MODEL,
+    "dimension": int(vectors.shape[1]),
+    "generatedWith": f"sentence-transformers {sentence_transformers.__version__}",
+    "tolerance": TOLERANCE,
+    "samples": [
+        {"text": text, "vector": [round(float(v), 7) for v in vector]}
+        for text, vector in zip(SAMPLES, vectors)
+    ],
+}
+
+output = os.path.join(os.path.dirname(os.path.abspath(__file__)), "goldenEmbeddings.json")
+with open(output, "w", encoding="utf8") as f:
+    json.dump(fixture, f, indent=2)
+    f.write("\n")
+
+print(f"Wrote {len(SAMPLES)} reference vectors ({fixture['dimension']} dims) to {output}")
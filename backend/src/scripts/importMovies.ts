@@ -3,6 +3,7 @@ import { initializeGridFS } from '../services/gridfsService';
 import { initializeVectorDB } from '../config/initVectorDB';
 import { MovieModel } from '../models/Movie';
 import { ingestMovieWithImage } from '../services/ingestionService';
+import { drainIngestionQueue } from '../services/ingestionWorker';
 import { logger } from '../utils/logger';
 import axios from 'axios';
 import * as fs from 'fs';
@@ -123,6 +124,10 @@ async function importMovies() {
       }
     }
 
+    // Movies are saved; wait for the queued embedding jobs before exiting
+    logger.info('Waiting for embedding jobs to finish...');
+    await drainIngestionQueue();
+
     logger.info('='.repeat(50));
     logger.info('Import completed!');
     logger.info(`✓ Successfully added: ${successCount} movies`);
@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import type { AddressInfo } from "net";
+import express from "express";
+import { logger } from "../utils/logger";
+
+/**
+ * OpenAI-compatible embedding server for tests and offline development.
+ *
+ * Implements `POST /v1/embeddings` (float and base64 encodings) with
+ * deterministic bag-of-words hashing vectors, so texts sharing words get
+ * similar vectors. Point the backend at it with:
+ *   EMBEDDING_PROVIDER=openai OPENAI_API_KEY=mock OPENAI_BASE_URL=http://localhost:4010/v1
+ */
+
+const DEFAULT_DIMENSION = Number(process.env.VECTOR_DIMENSION ?? 384);
+
+export const mockEmbedding = (text: string, dimension: number): number[] => {
+  const vector = new Array<number>(dimension).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const token of tokens) {
+    const digest = createHash("sha256").update(token).digest();
+    const index = digest.readUInt32BE(0) % dimension;
+    const sign = digest[4]! & 1 ? 1 : -1;
+    vector[index]! += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return norm === 0 ? vector : vector.map((val) => val / norm);
+};
+
+const toBase64 = (vector: number[]): string =>
+  Buffer.from(new Float32Array(vector).buffer).toString("base64");
+
+export const createMockEmbeddingApp = (dimension = DEFAULT_DIMENSION) => {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  app.post(["/v1/embeddings", "/embeddings"], (req, res) => {
+    const { input, model, dimensions, encoding_format } = req.body ?? {};
+    const texts: unknown[] = Array.isArray(input) ? input : [input];
+
+    if (texts.length === 0 || texts.some((text) => typeof text !== "string")) {
+      return res.status(400).json({
+        error: { message: "input must be a string or an array of strings", type: "invalid_request_error" },
+      });
+    }
+
+    const size = typeof dimensions === "number" ? dimensions : dimension;
+    const data = (texts as string[]).map((text, index) => {
+      const embedding = mockEmbedding(text, size);
+      return {
+        object: "embedding",
+        index,
+        embedding: encoding_format === "base64" ? toBase64(embedding) : embedding,
+      };
+    });
+    const tokens = (texts as string[]).reduce(
+      (sum, text) => sum + text.split(/\s+/).filter(Boolean).length,
+      0,
+    );
+
+    res.json({
+      object: "list",
+      data,
+      model: model ?? "mock-embedding",
+      usage: { prompt_tokens: tokens, total_tokens: tokens },
+    });
+  });
+
+  return app;
+};
+
+/**
+ * Start the mock server. Port 0 picks a free port; the returned url already
+ * includes the `/v1` prefix expected by OPENAI_BASE_URL.
+ */
+export const startMockEmbeddingServer = (
+  port = 0,
+  dimension = DEFAULT_DIMENSION,
+): Promise<{ url: string; close: () => Promise<void> }> =>
+  new Promise((resolve, reject) => {
+    const server = createMockEmbeddingApp(dimension).listen(port, () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://localhost:${boundPort}/v1`,
+        close: () =>
+          new Promise<void>((done, fail) =>
+            server.close((error) => (error ? fail(error) : done())),
+          ),
+      });
+    });
+    server.on("error", reject);
+  });
+
+// Run if called directly
+if (require.main === module) {
+  const port = Number(process.env.MOCK_EMBEDDING_PORT ?? 4010);
+  startMockEmbeddingServer(port)
+    .then(({ url }) => {
+      logger.info(`Mock embedding server listening at ${url} (${DEFAULT_DIMENSION} dims)`);
+    })
+    .catch((error) => {
+      logger.error("Failed to start mock embedding server", error);
+      process.exit(1);
+    });
+}
@@ -4,6 +4,7 @@ import { initializeGridFS } from "../services/gridfsService";
 import { initializeVectorDB } from "../config/initVectorDB";
 import { MovieModel } from "../models/Movie";
 import { ingestMovieWithImage } from "../services/ingestionService";
+import { drainIngestionQueue } from "../services/ingestionWorker";
 import { logger } from "../utils/logger";
 
 // TMDB API - Free for non-commercial use
@@ -297,6 +298,10 @@ async function seedMovies() {
       }
     }
 
+    // Movies are saved; wait for the queued embedding jobs before exiting
+    logger.info("Waiting for embedding jobs to finish...");
+    await drainIngestionQueue();
+
     logger.info("=".repeat(50));
     logger.info("Seeding completed!");
     logger.info(`✓ Successfully added: ${successCount} movies`);
@@ -1,5 +1,11 @@
-import { generateEmbedding } from "../services/embeddingService";
+import {
+  clearEmbeddingCache,
+  generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingCacheStats,
+} from "../services/embeddingService";
 import { env } from "../config/env";
+import { getEmbeddingProvider } from "../config/embeddingClient";
 import { logger } from "../utils/logger";
 
 /**
@@ -8,8 +14,8 @@ import { logger } from "../utils/logger";
 const testEmbedding = async () => {
   try {
     logger.info("Starting embedding model test...");
-    logger.info(`Embedding Provider: ${env.EMBEDDING_PROVIDER ?? "local"}`);
-    logger.info(`Embedding Model: ${env.EMBEDDING_MODEL}`);
+    logger.info(`Embedding Provider: ${getEmbeddingProvider().name}`);
+    logger.info(`Embedding Model: ${getEmbeddingProvider().model}`);
     logger.info(`Expected Dimension: ${env.VECTOR_DIMENSION}`);
 
     // Test samples with different characteristics
@@ -79,12 +85,19 @@ const testEmbedding = async () => {
         }
 
         // Calculate some statistics
-        const min = Math.min(...embedding);
-        const max = Math.max(...embedding);
-        const avg = embedding.reduce((a, b) => a + b, 0) / embedding.length;
         const magnitude = Math.sqrt(
           embedding.reduce((sum, val) => sum + val * val, 0),
         );
+        // Unit vectors keep cosine scores comparable across queries
+        if (Math.abs(magnitude - 1) > 1e-3) {
+          throw new Error(
+            `Embedding is not L2-normalised (magnitude ${magnitude.toFixed(4)})`,
+          );
+        }
+
+        const min = Math.min(...embedding);
+        const max = Math.max(...embedding);
+        const avg = embedding.reduce((a, b) => a + b, 0) / embedding.length;
 
         results.push({
           name: sample.name,
@@ -139,11 +152,51 @@ const testEmbedding = async () => {
       logger.info(`  (Values close to 1 indicate similar semantic meaning)`);
     }
 
+    // Batched generation must match one-at-a-time generation, in input order
+    logger.info("\nTesting batched embedding generation...");
+    // Start cold so the batch goes through the model instead of the cache
+    clearEmbeddingCache();
+    const batchStart = Date.now();
+    const batched = await generateEmbeddings(
+      testSamples.map((sample) => sample.text),
+      2,
+    );
+    const batchDuration = Date.now() - batchStart;
+    if (batched.length !== results.length) {
+      throw new Error(
+        `Batch returned ${batched.length} vectors for ${results.length} texts`,
+      );
+    }
+    results.forEach((result, idx) => {
+      const vector = batched[idx]!;
+      const maxDiff = Math.max(
+        ...vector.map((val, i) => Math.abs(val - (result.embedding[i] ?? 0))),
+      );
+      if (maxDiff > 1e-4) {
+        throw new Error(
+          `Batched embedding for "${result.name}" differs from single embedding (max diff ${maxDiff})`,
+        );
+      }
+    });
+    logger.info(
+      `  ✓ ${batched.length} batched embeddings match single embeddings (${batchDuration}ms)`,
+    );
+
+    // Repeated texts must be served from the cache
+    logger.info("\nTesting embedding cache...");
+    const hitsBefore = getEmbeddingCacheStats().hits;
+    await generateEmbedding(`  ${testSamples[0]!.text}  `);
+    const hitsAfter = getEmbeddingCacheStats().hits;
+    if (hitsAfter !== hitsBefore + 1) {
+      throw new Error("Repeated text was not served from the embedding cache");
+    }
+    logger.info(`  ✓ Cache hit for repeated text`, getEmbeddingCacheStats());
+
     // Summary
     logger.info("\n✅ Embedding model test completed successfully!");
     logger.info("\nSummary:");
-    logger.info(`  Model: ${env.EMBEDDING_MODEL}`);
-    logger.info(`  Provider: ${env.EMBEDDING_PROVIDER ?? "local"}`);
+    logger.info(`  Model: ${getEmbeddingProvider().model}`);
+    logger.info(`  Provider: ${getEmbeddingProvider().name}`);
     logger.info(`  Expected dimension: ${env.VECTOR_DIMENSION}`);
     logger.info(`  Actual dimension: ${results[0]?.dimension || "N/A"}`);
     logger.info(`  Samples tested: ${results.length}`);
@@ -0,0 +1,113 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { LocalEmbeddingProvider } from "../services/embeddingProviders/localEmbeddingProvider";
+import { logger } from "../utils/logger";
+
+const FIXTURE_PATH = path.join(__dirname, "fixtures", "goldenEmbeddings.json");
+
+interface GoldenFixture {
+  model: string;
+  dimension: number;
+  // Reference library, e.g. "sentence-transformers 3.0.1"
+  generatedWith: string;
+  tolerance: { minCosine: number; maxAbsDiff: number };
+  samples: Array<{ text: string; vector: number[] }>;
+}
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+const maxAbsDiff = (a: number[], b: number[]): number =>
+  Math.max(...a.map((val, i) => Math.abs(val - (b[i] ?? 0))));
+
+/**
+ * Compare local (transformers.js) embeddings against reference vectors
+ * computed with sentence-transformers for the same model
+ */
+const testGoldenEmbeddings = async () => {
+  if (!existsSync(FIXTURE_PATH)) {
+    throw new Error(
+      `Golden fixture not found at ${FIXTURE_PATH}. ` +
+        "Generate it once with: pip install sentence-transformers && " +
+        "python src/scripts/fixtures/generateGoldenEmbeddings.py, then commit it",
+    );
+  }
+
+  const fixture = JSON.parse(
+    readFileSync(FIXTURE_PATH, "utf8"),
+  ) as GoldenFixture;
+  const { minCosine, maxAbsDiff: allowedDiff } = fixture.tolerance;
+
+  logger.info(`Golden model: ${fixture.model} (${fixture.dimension} dims)`);
+  logger.info(`Reference: ${fixture.generatedWith}`);
+  logger.info(
+    `Tolerance: cosine >= ${minCosine}, max abs diff <= ${allowedDiff}\n`,
+  );
+
+  const provider = new LocalEmbeddingProvider({
+    model: fixture.model,
+    dimension: fixture.dimension,
+  });
+  const texts = fixture.samples.map((sample) => sample.text);
+
+  // One text per call, so no padding is involved
+  const single: number[][] = [];
+  for (const text of texts) {
+    single.push((await provider.embed([text], 1))[0]!);
+  }
+  // All texts in one batch: shorter texts are padded and must not change
+  const batched = await provider.embed(texts, texts.length);
+
+  const failures: string[] = [];
+  fixture.samples.forEach((sample, idx) => {
+    const label = `"${sample.text.substring(0, 50)}"`;
+    const vector = single[idx]!;
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    const similarity = cosine(vector, sample.vector);
+    const diff = maxAbsDiff(vector, sample.vector);
+    const batchDiff = maxAbsDiff(batched[idx]!, vector);
+
+    logger.info(
+      `${label}: cosine ${similarity.toFixed(5)}, max diff ${diff.toFixed(5)}, ` +
+        `norm ${magnitude.toFixed(5)}, batch diff ${batchDiff.toExponential(2)}`,
+    );
+
+    if (vector.length !== fixture.dimension) {
+      failures.push(`${label}: ${vector.length} dimensions`);
+    }
+    if (Math.abs(magnitude - 1) > 1e-3) {
+      failures.push(`${label}: not L2-normalised (norm ${magnitude})`);
+    }
+    if (similarity < minCosine || diff > allowedDiff) {
+      failures.push(`${label}: differs from the reference vector`);
+    }
+    if (batchDiff > 1e-4) {
+      failures.push(`${label}: padding in a batch changed the vector`);
+    }
+  });
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => logger.error(`  ❌ ${failure}`));
+    throw new Error(`${failures.length} golden embedding check(s) failed`);
+  }
+
+  logger.info(
+    `\n✅ ${fixture.samples.length} embeddings match ${fixture.generatedWith}`,
+  );
+};
+
+testGoldenEmbeddings()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error("❌ Golden embedding test failed:", error);
+    process.exit(1);
+  });
@@ -1,34 +1,9 @@
 import { initializeVectorDB } from "../config/initVectorDB";
 import { upsertMovieEmbeddings } from "../services/vectorSearchService";
 import { semanticSearch } from "../services/vectorSearchService";
-import { getVectorClient } from "../config/vectorClient";
+import { getVectorStore } from "../config/vectorClient";
 import { env } from "../config/env";
 import { logger } from "../utils/logger";
-import { QdrantClient } from "@qdrant/js-client-rest";
-import { Pinecone } from "@pinecone-database/pinecone";
-import type { ChromaClient } from "../config/vectorClient";
-import axios from "axios";
-
-// Helper functions to check client type
-const isQdrant = (client: unknown): client is QdrantClient => {
-  return (
-    client instanceof QdrantClient ||
-    (client as { search?: unknown }).search !== undefined
-  );
-};
-
-const isPinecone = (client: unknown): client is Pinecone => {
-  return (
-    client instanceof Pinecone ||
-    (client as { index?: unknown }).index !== undefined
-  );
-};
-
-const isChroma = (client: unknown): client is ChromaClient => {
-  return (
-    (client as { baseUrl?: string; collection?: string }).baseUrl !== undefined
-  );
-};
 
 /**
  * Generate a dummy vector of specified dimension
@@ -51,52 +26,13 @@ const checkCollectionStats = async (): Promise<{
   count: number;
   provider: string;
 }> => {
-  const client = getVectorClient();
-
-  if (isQdrant(client)) {
-    try {
-      const collectionInfo = await client.getCollection(env.VECTOR_COLLECTION);
-      return {
-        count: collectionInfo.points_count ?? 0,
-        provider: "Qdrant",
-      };
-    } catch (error) {
-      logger.error("Failed to get Qdrant collection info", error);
-      throw error;
-    }
-  }
-
-  if (isPinecone(client)) {
-    try {
-      const index = client.index(env.PINECONE_INDEX || env.VECTOR_COLLECTION);
-      const stats = await index.describeIndexStats();
-      return {
-        count: stats.totalRecordCount ?? 0,
-        provider: "Pinecone",
-      };
-    } catch (error) {
-      logger.error("Failed to get Pinecone index stats", error);
-      throw error;
-    }
-  }
-
-  if (isChroma(client)) {
-    try {
-      const response = await axios.get(
-        `${client.baseUrl}/collections/${client.collection}`
-      );
-      const count = response.data?.count || 0;
-      return {
-        count,
-        provider: "Chroma",
-      };
-    } catch (error) {
-      logger.error("Failed to get Chroma collection info", error);
-      throw error;
-    }
+  const store = getVectorStore();
+  try {
+    return { count: await store.count(), provider: store.provider };
+  } catch (error) {
+    logger.error(`Failed to get ${store.provider} collection stats`, error);
+    throw error;
   }
-
-  throw new Error("Unsupported vector database provider");
 };
 
 /**
@@ -107,7 +43,7 @@ const testVectorInsert = async () => {
     logger.info("Starting vector database connection test...");
     logger.info(`Vector DB Provider: ${env.VECTOR_DB_PROVIDER}`);
     logger.info(`Vector Dimension: ${env.VECTOR_DIMENSION}`);
-    logger.info(`Collection Name: ${env.VECTOR_COLLECTION}`);
+    logger.info(`Collection Name: ${getVectorStore().collection}`);
 
     // Step 1: Initialize vector database
     logger.info("\nStep 1: Initializing vector database...");
@@ -137,7 +73,10 @@ const testVectorInsert = async () => {
 
     // Step 4: Insert dummy vectors
     logger.info("\nStep 4: Inserting dummy vectors...");
-    const insertedIds = await upsertMovieEmbeddings(testMovieId, dummyVectors);
+    const insertedIds = await upsertMovieEmbeddings(
+      testMovieId,
+      Object.entries(dummyVectors).map(([source, vector]) => ({ source, vector }))
+    );
     logger.info("✓ Dummy vectors inserted successfully");
     logger.info(`  Inserted IDs: ${JSON.stringify(insertedIds, null, 2)}`);
 
@@ -177,7 +116,7 @@ const testVectorInsert = async () => {
     logger.info("\n✅ Vector database connection test completed successfully!");
     logger.info("\nSummary:");
     logger.info(`  - Provider: ${finalStats.provider}`);
-    logger.info(`  - Collection: ${env.VECTOR_COLLECTION}`);
+    logger.info(`  - Collection: ${getVectorStore().collection}`);
     logger.info(`  - Total vectors: ${finalStats.count}`);
     logger.info(
       `  - Test vectors inserted: ${Object.keys(dummyVectors).length}`
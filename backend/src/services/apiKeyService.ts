@@ -0,0 +1,91 @@
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { ApiKeyModel, type ApiKeyDocument, type ApiKeyScope } from '../models/ApiKey';
+
+const KEY_PREFIX = 'smk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+// lastUsedAt is written at most this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Identity carried by a verified API key
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// Keys are 192 random bits, so a fast hash is enough (no brute-force risk
+// that bcrypt would guard against) and lookups stay a single indexed query
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * API key fields safe to return to clients
+ */
+export const toPublicApiKey = (apiKey: ApiKeyDocument) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  createdBy: apiKey.createdBy?.toString(),
+  createdAt: apiKey.createdAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  revokedAt: apiKey.revokedAt,
+});
+
+/**
+ * Create a key. The plaintext key is returned here only; just its hash is stored.
+ */
+export const createApiKey = async ({
+  name,
+  scopes,
+  createdBy,
+}: {
+  name: string;
+  scopes: ApiKeyScope[];
+  createdBy?: string;
+}): Promise<{ apiKey: ApiKeyDocument; key: string }> => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const apiKey = await ApiKeyModel.create({
+    name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes: [...new Set(scopes)],
+    createdBy,
+  });
+  return { apiKey, key };
+};
+
+export const listApiKeys = async (): Promise<ApiKeyDocument[]> =>
+  ApiKeyModel.find().sort({ createdAt: -1 });
+
+/**
+ * Revoke a key; it stops working immediately. Returns null if the key does not exist.
+ */
+export const revokeApiKey = async (id: string): Promise<ApiKeyDocument | null> => {
+  if (!Types.ObjectId.isValid(id)) return null;
+  const apiKey = await ApiKeyModel.findById(id);
+  if (!apiKey) return null;
+  if (!apiKey.revokedAt) {
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+  }
+  return apiKey;
+};
+
+/**
+ * Look up an unrevoked key and record that it was used. Returns null for
+ * unknown or revoked keys.
+ */
+export const verifyApiKey = async (key: string): Promise<ApiKeyIdentity | null> => {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const apiKey = await ApiKeyModel.findOne({ keyHash: hashKey(key), revokedAt: null });
+  if (!apiKey) return null;
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await ApiKeyModel.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now } });
+  }
+  return { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+};
@@ -0,0 +1,270 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { type SignOptions } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { UserModel, type UserDocument, type UserRole } from '../models/User';
+import { logger } from '../utils/logger';
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+/**
+ * Identity carried by a verified access token
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Access token lifetime, e.g. "15m"
+  expiresIn: string;
+}
+
+export class EmailInUseError extends Error {
+  constructor() {
+    super('An account with this email already exists');
+    this.name = 'EmailInUseError';
+  }
+}
+
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super('Invalid email or password');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Missing, malformed, expired or revoked token
+ */
+export class InvalidTokenError extends Error {
+  constructor(message = 'Invalid or expired token') {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+let devSecret: string | undefined;
+
+// Without JWT_SECRET (allowed outside production) tokens are signed with a
+// random per-process key, so they stop working after a restart
+const getSecret = (): string => {
+  if (env.JWT_SECRET) return env.JWT_SECRET;
+  if (!devSecret) {
+    logger.warn('JWT_SECRET is not set; using a random key, sessions end when the server restarts');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+};
+
+interface AccessClaims {
+  type: 'access';
+  email: string;
+  role: UserRole;
+}
+
+interface RefreshClaims {
+  type: 'refresh';
+  ver: number;
+}
+
+const issueTokens = (user: UserDocument): AuthTokens => {
+  const secret = getSecret();
+  const accessClaims: AccessClaims = { type: 'access', email: user.email, role: user.role };
+  const refreshClaims: RefreshClaims = { type: 'refresh', ver: user.tokenVersion };
+  return {
+    accessToken: jwt.sign(accessClaims, secret, {
+      subject: user.id,
+      expiresIn: env.JWT_ACCESS_TTL as SignOptions['expiresIn'],
+    }),
+    refreshToken: jwt.sign(refreshClaims, secret, {
+      subject: user.id,
+      expiresIn: env.JWT_REFRESH_TTL as SignOptions['expiresIn'],
+    }),
+    expiresIn: env.JWT_ACCESS_TTL,
+  };
+};
+
+const verify = <T extends { type: string }>(token: string, type: T['type']): T & { sub: string } => {
+  let claims: jwt.JwtPayload | string;
+  try {
+    claims = jwt.verify(token, getSecret());
+  } catch {
+    throw new InvalidTokenError();
+  }
+  if (typeof claims === 'string' || claims.type !== type || !claims.sub) {
+    throw new InvalidTokenError();
+  }
+  return claims as T & { sub: string };
+};
+
+/**
+ * User fields safe to return to clients
+ */
+export const toPublicUser = (user: UserDocument) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  createdAt: user.createdAt,
+  lastLoginAt: user.lastLoginAt,
+});
+
+const isDuplicateKey = (error: unknown, field: string): boolean => {
+  const { code, keyPattern } = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return code === 11000 && field in (keyPattern ?? {});
+};
+
+/**
+ * Create a viewer account and sign it in. Admins come from ADMIN_EMAIL (see
+ * ensureAdminAccount) or are promoted by another admin.
+ */
+export const signup = async ({
+  email,
+  password,
+  name,
+}: {
+  email: string;
+  password: string;
+  name?: string;
+}): Promise<{ user: UserDocument; tokens: AuthTokens }> => {
+  if (await UserModel.exists({ email: email.toLowerCase() })) {
+    throw new EmailInUseError();
+  }
+
+  try {
+    const user = await UserModel.create({
+      email,
+      name,
+      passwordHash: await bcrypt.hash(password, PASSWORD_HASH_ROUNDS),
+      role: 'viewer',
+      lastLoginAt: new Date(),
+    });
+    return { user, tokens: issueTokens(user) };
+  } catch (error) {
+    // Another sign-up with this email won the race past the check above
+    if (isDuplicateKey(error, 'email')) {
+      throw new EmailInUseError();
+    }
+    throw error;
+  }
+};
+
+export const login = async (
+  email: string,
+  password: string,
+): Promise<{ user: UserDocument; tokens: AuthTokens }> => {
+  const user = await UserModel.findOne({ email: email.toLowerCase() });
+  if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+    throw new InvalidCredentialsError();
+  }
+  user.lastLoginAt = new Date();
+  await user.save();
+  return { user, tokens: issueTokens(user) };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Tokens issued before the
+ * user's last logout or role change are rejected.
+ */
+export const refreshSession = async (
+  refreshToken: string,
+): Promise<{ user: UserDocument; tokens: AuthTokens }> => {
+  const claims = verify<RefreshClaims>(refreshToken, 'refresh');
+  const user = Types.ObjectId.isValid(claims.sub) ? await UserModel.findById(claims.sub) : null;
+  if (!user || user.tokenVersion !== claims.ver) {
+    throw new InvalidTokenError('Session has ended; log in again');
+  }
+  return { user, tokens: issueTokens(user) };
+};
+
+/**
+ * Revoke every refresh token of the user. Access tokens stay valid until
+ * they expire (JWT_ACCESS_TTL).
+ */
+export const logout = async (userId: string): Promise<void> => {
+  await UserModel.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+};
+
+export const verifyAccessToken = (token: string): AuthUser => {
+  const claims = verify<AccessClaims>(token, 'access');
+  return { id: claims.sub, email: claims.email, role: claims.role };
+};
+
+/**
+ * The user's role as stored now, which may differ from the one in an access
+ * token issued before a role change. Null if the account no longer exists.
+ */
+export const getCurrentRole = async (userId: string): Promise<UserRole | null> => {
+  if (!Types.ObjectId.isValid(userId)) return null;
+  const user = await UserModel.findById(userId).select('role').lean();
+  return user?.role ?? null;
+};
+
+/**
+ * Change a user's role and end their sessions. Role checks read the stored
+ * role, so the change applies at once. Returns null if the user does not exist.
+ */
+export const updateUserRole = async (
+  userId: string,
+  role: UserRole,
+): Promise<UserDocument | null> => {
+  if (!Types.ObjectId.isValid(userId)) return null;
+  return UserModel.findByIdAndUpdate(
+    userId,
+    { role, $inc: { tokenVersion: 1 } },
+    { new: true },
+  );
+};
+
+/**
+ * Startup: make sure ADMIN_EMAIL is an admin. The account is created with
+ * ADMIN_PASSWORD if it does not exist; an existing account is only promoted
+ * when ADMIN_PASSWORD is its password, so signing up with the address first
+ * does not hand the account to whoever did.
+ */
+export const ensureAdminAccount = async (): Promise<void> => {
+  const { ADMIN_EMAIL: email, ADMIN_PASSWORD: password } = env;
+  if (!email) {
+    if (!(await UserModel.exists({ role: 'admin' }))) {
+      logger.warn('No admin account exists; set ADMIN_EMAIL and ADMIN_PASSWORD to create one');
+    }
+    return;
+  }
+
+  const user = await UserModel.findOne({ email: email.toLowerCase() });
+  if (user?.role === 'admin') return;
+  if (!password) {
+    logger.warn(`ADMIN_EMAIL ${email} is not an admin; set ADMIN_PASSWORD to create or promote it`);
+    return;
+  }
+
+  if (!user) {
+    try {
+      await UserModel.create({
+        email,
+        passwordHash: await bcrypt.hash(password, PASSWORD_HASH_ROUNDS),
+        role: 'admin',
+      });
+      logger.info(`Created admin account ${email}`);
+    } catch (error) {
+      // Another API process created it first
+      if (!isDuplicateKey(error, 'email')) throw error;
+    }
+    return;
+  }
+
+  if (!(await bcrypt.compare(password, user.passwordHash))) {
+    logger.warn(`Not promoting ${email} to admin: ADMIN_PASSWORD does not match its password`);
+    return;
+  }
+  await updateUserRole(user.id, 'admin');
+  logger.info(`Promoted ${email} to admin`);
+};
+
+export const listUsers = async (): Promise<UserDocument[]> =>
+  UserModel.find().sort({ createdAt: 1 });
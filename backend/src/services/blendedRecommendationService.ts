@@ -0,0 +1,163 @@
+import { MovieModel, type MovieDocument } from '../models/Movie';
+import {
+  blendScores,
+  DEFAULT_BLEND_WEIGHTS,
+  type BlendScores,
+  type BlendWeights,
+} from '../utils/blendWeights';
+import { normalizeDirector } from '../utils/filterBuilder';
+import { logger } from '../utils/logger';
+import { findSimilarToMovie, MissingEmbeddingsError } from './similarMoviesService';
+import { diversifyMovies, getStoredMovieVectors } from './vectorSearchService';
+
+// Candidates gathered from each source (vector neighbours, metadata matches) per result
+const CANDIDATE_FACTOR = 5;
+const MAX_CANDIDATES = 100;
+// Release years this far apart get no era score
+const ERA_SPAN_YEARS = 20;
+
+export interface BlendedRecommendation {
+  movie: MovieDocument;
+  score: number;
+  // Per-feature scores (0-1) before weighting
+  breakdown: BlendScores;
+}
+
+export interface BlendedRecommendationOptions {
+  limit?: number;
+  weights?: BlendWeights;
+  diversity?: number;
+}
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+const jaccard = (a: string[], b: string[]): number => {
+  const setA = new Set(a.map((value) => value.toLowerCase()));
+  const setB = new Set(b.map((value) => value.toLowerCase()));
+  const shared = [...setA].filter((value) => setB.has(value)).length;
+  const union = setA.size + setB.size - shared;
+  return union > 0 ? shared / union : 0;
+};
+
+const castOverlap = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const castA = new Set(a.map((name) => name.toLowerCase()));
+  const shared = b.filter((name) => castA.has(name.toLowerCase())).length;
+  return shared / Math.min(a.length, b.length);
+};
+
+/**
+ * Feature scores of one candidate against the base movie. `semantic` is 0
+ * when either movie has no stored vectors.
+ */
+const scoreCandidate = (
+  base: MovieDocument,
+  candidate: MovieDocument,
+  baseVector?: number[],
+  candidateVector?: number[],
+): BlendScores => ({
+  semantic: baseVector && candidateVector ? Math.max(0, cosine(baseVector, candidateVector)) : 0,
+  genres: jaccard(base.genres, candidate.genres),
+  cast: castOverlap(base.cast, candidate.cast),
+  director:
+    base.director && candidate.director &&
+    normalizeDirector(base.director) === normalizeDirector(candidate.director)
+      ? 1
+      : 0,
+  era:
+    base.releaseYear && candidate.releaseYear
+      ? Math.max(0, 1 - Math.abs(base.releaseYear - candidate.releaseYear) / ERA_SPAN_YEARS)
+      : 0,
+  rating: typeof candidate.rating === 'number' ? candidate.rating / 10 : 0,
+});
+
+/**
+ * Movies sharing genres, cast or director with the base movie, best rated first
+ */
+const findMetadataCandidates = (movie: MovieDocument, limit: number): Promise<MovieDocument[]> => {
+  const or: Record<string, unknown>[] = [];
+  if (movie.genres.length) or.push({ genres: { $in: movie.genres } });
+  if (movie.cast.length) or.push({ cast: { $in: movie.cast } });
+  if (movie.director) or.push({ director: movie.director });
+  if (or.length === 0) return Promise.resolve([]);
+
+  return MovieModel.find({ _id: { $ne: movie._id }, $or: or })
+    .sort({ rating: -1 })
+    .limit(limit)
+    .exec();
+};
+
+/**
+ * Recommendations that blend vector similarity with metadata signals (genre
+ * overlap, shared cast and director, era, rating) into one weighted score.
+ * Candidates are the movie's nearest vector neighbours plus its metadata
+ * matches, so movies that only one signal finds can still rank.
+ */
+export const recommendBlended = async (
+  movie: MovieDocument,
+  { limit = 10, weights = DEFAULT_BLEND_WEIGHTS, diversity = 0 }: BlendedRecommendationOptions = {},
+): Promise<BlendedRecommendation[]> => {
+  const poolSize = Math.min(limit * CANDIDATE_FACTOR, MAX_CANDIDATES);
+
+  const [neighbours, metadataMatches] = await Promise.all([
+    weights.semantic > 0
+      ? findSimilarToMovie(movie, poolSize)
+          .then(({ results }) => results.map((result) => result.movie))
+          .catch((error) => {
+            if (!(error instanceof MissingEmbeddingsError)) {
+              logger.warn(
+                `Vector candidates unavailable for ${movie.id}: ${
+                  error instanceof Error ? error.message : 'Unknown error'
+                }`,
+              );
+            }
+            return [] as MovieDocument[];
+          })
+      : Promise.resolve([] as MovieDocument[]),
+    findMetadataCandidates(movie, poolSize),
+  ]);
+
+  const candidates = new Map<string, MovieDocument>();
+  [...neighbours, ...metadataMatches].forEach((candidate) => {
+    if (candidate.id !== movie.id) candidates.set(candidate.id, candidate);
+  });
+  if (candidates.size === 0) return [];
+
+  let vectors = new Map<string, number[]>();
+  if (weights.semantic > 0) {
+    try {
+      vectors = await getStoredMovieVectors(
+        [movie, ...candidates.values()].map(({ id, embeddingKeys }) => ({ id, embeddingKeys })),
+      );
+    } catch (error) {
+      logger.warn(
+        `Could not load vectors for blended recommendations: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  const baseVector = vectors.get(movie.id);
+  const ranked = [...candidates.values()]
+    .map((candidate) => {
+      const breakdown = scoreCandidate(movie, candidate, baseVector, vectors.get(candidate.id));
+      return { movie: candidate, score: blendScores(breakdown, weights), breakdown };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return diversifyMovies(ranked, limit, diversity, {
+    movie: ({ movie: candidate }) => ({ id: candidate.id, embeddingKeys: candidate.embeddingKeys }),
+    relevance: ({ score }) => score,
+  });
+};
@@ -0,0 +1,41 @@
+import { env } from '../../config/env';
+import { LocalEmbeddingProvider } from './localEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from './openaiEmbeddingProvider';
+import type { EmbeddingProvider, EmbeddingProviderName, EmbeddingSpec } from './types';
+
+export * from './types';
+
+const factories: Record<EmbeddingProviderName, (spec: EmbeddingSpec) => EmbeddingProvider> = {
+  local: (spec) => new LocalEmbeddingProvider(spec),
+  openai: (spec) => new OpenAIEmbeddingProvider(spec),
+};
+
+/**
+ * Model setting for a provider (EMBEDDING_MODEL or OPENAI_EMBEDDING_MODEL)
+ */
+export const getConfiguredModel = (provider: EmbeddingProviderName): string =>
+  provider === 'openai' ? env.OPENAI_EMBEDDING_MODEL : env.EMBEDDING_MODEL;
+
+/**
+ * The spec requested by the environment (EMBEDDING_PROVIDER, its model setting
+ * and VECTOR_DIMENSION). The active index may still use an older spec until a
+ * re-index switches over (see vectorIndexService).
+ */
+export const getConfiguredEmbeddingSpec = (): EmbeddingSpec => ({
+  provider: env.EMBEDDING_PROVIDER,
+  model: getConfiguredModel(env.EMBEDDING_PROVIDER),
+  dimension: env.VECTOR_DIMENSION,
+});
+
+/**
+ * Create the provider for a spec (defaults to the configured one)
+ */
+export const createEmbeddingProvider = (
+  spec: EmbeddingSpec = getConfiguredEmbeddingSpec(),
+): EmbeddingProvider => {
+  const factory = factories[spec.provider];
+  if (!factory) {
+    throw new Error(`Unsupported embedding provider: ${spec.provider}`);
+  }
+  return factory(spec);
+};
@@ -0,0 +1,138 @@
+import type { FeatureExtractionPipeline, Tensor } from "@xenova/transformers";
+import { logger } from "../../utils/logger";
+import type { EmbeddingProvider, EmbeddingProviderOptions } from "./types";
+
+type TransformersModule = typeof import("@xenova/transformers");
+
+// Loaded pipelines per model, so a re-index with a new model does not evict
+// the one serving queries
+const localPipelines = new Map<string, FeatureExtractionPipeline>();
+// Cache the pipeline import to avoid re-importing the module
+let pipelineModule: TransformersModule | null = null;
+
+/**
+ * Initialize the local embedding pipeline using transformers.js
+ * This runs the model locally in Node.js without any API calls
+ * Uses dynamic import() because @xenova/transformers is an ES module
+ */
+const initializeLocalPipeline = async (
+  modelName: string
+): Promise<FeatureExtractionPipeline> => {
+  // If pipeline already initialized with the same model, reuse it
+  const existing = localPipelines.get(modelName);
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    logger.info(
+      `Initializing local embedding pipeline with model: ${modelName}`
+    );
+    logger.info(
+      "Note: First run will download the model (may take a few minutes)"
+    );
+
+    // Dynamic import of @xenova/transformers (required because it's an ES module)
+    if (!pipelineModule) {
+      pipelineModule = await import("@xenova/transformers");
+    }
+
+    const { pipeline } = pipelineModule;
+
+    // Initialize the feature-extraction pipeline
+    // This downloads and loads the model on first use
+    // Try quantized first, fallback to non-quantized if not available
+    let localPipeline: FeatureExtractionPipeline;
+    try {
+      localPipeline = await pipeline("feature-extraction", modelName, {
+        quantized: true, // Use quantized model for faster loading and smaller size
+      });
+    } catch (quantizedError) {
+      logger.info(
+        `Quantized model not available, trying non-quantized version...`
+      );
+      localPipeline = await pipeline("feature-extraction", modelName, {
+        quantized: false, // Fallback to non-quantized
+      });
+    }
+
+    localPipelines.set(modelName, localPipeline);
+    logger.info(`✓ Local embedding pipeline initialized successfully`);
+    return localPipeline;
+  } catch (error) {
+    logger.error(`Failed to initialize local embedding pipeline:`, error);
+    throw new Error(
+      `Failed to initialize local embedding model: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+};
+
+/**
+ * Split a batched pipeline output ([batch, dims] tensor) into one vector per input
+ */
+const splitBatchOutput = (output: Tensor, expected: number): number[][] => {
+  if (typeof output.tolist === "function") {
+    const rows = output.tolist() as number[][];
+    if (rows.length === expected) {
+      return rows;
+    }
+  }
+
+  if (output.data && Array.isArray(output.dims)) {
+    const data = Array.from(output.data as ArrayLike<number>);
+    const dim = data.length / expected;
+    if (Number.isInteger(dim)) {
+      return Array.from({ length: expected }, (_, i) =>
+        data.slice(i * dim, (i + 1) * dim)
+      );
+    }
+  }
+
+  throw new Error(
+    `Unexpected batch output from embedding pipeline (expected ${expected} vectors)`
+  );
+};
+
+/**
+ * Embeddings computed in-process with transformers.js (no API calls)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor({ model, dimension }: EmbeddingProviderOptions) {
+    this.model = model;
+    this.dimension = dimension;
+  }
+
+  async embed(texts: string[], batchSize: number): Promise<number[][]> {
+    const extractor = await initializeLocalPipeline(this.model);
+    const vectors: number[][] = [];
+
+    try {
+      for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize);
+        // Same pooling as sentence-transformers: mean over real tokens only
+        // (the attention mask excludes padding), then L2-normalise so cosine
+        // scores are comparable across queries
+        const output = await extractor(batch, {
+          pooling: "mean",
+          normalize: true,
+        });
+        vectors.push(...splitBatchOutput(output, batch.length));
+      }
+    } catch (error) {
+      logger.error("Failed to generate local embedding:", error);
+      throw new Error(
+        `Local embedding generation failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,63 @@
+import OpenAI from 'openai';
+import { env } from '../../config/env';
+import type { EmbeddingProvider, EmbeddingProviderOptions } from './types';
+
+// text-embedding-3-* models accept a `dimensions` parameter; older ones do not
+const supportsDimensions = (model: string): boolean => model.startsWith('text-embedding-3');
+
+/**
+ * Embeddings from the OpenAI API, or any server speaking the same
+ * `POST /embeddings` protocol (set OPENAI_BASE_URL)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimension: number;
+  private client: OpenAI | null = null;
+
+  constructor({ model, dimension }: EmbeddingProviderOptions) {
+    this.model = model;
+    this.dimension = dimension;
+  }
+
+  private getClient(): OpenAI {
+    if (!env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_BASE_URL,
+      });
+    }
+
+    return this.client;
+  }
+
+  async embed(texts: string[], batchSize: number): Promise<number[][]> {
+    const client = this.getClient();
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += batchSize) {
+      const batch = texts.slice(start, start + batchSize);
+      const response = await client.embeddings.create({
+        model: this.model,
+        input: batch,
+        ...(supportsDimensions(this.model) ? { dimensions: this.dimension } : {}),
+      });
+
+      if (response.data.length !== batch.length) {
+        throw new Error(
+          `OpenAI returned ${response.data.length} embeddings for ${batch.length} inputs`,
+        );
+      }
+
+      // Results carry their input index; do not rely on response order
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map((item) => item.embedding));
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,49 @@
+export type EmbeddingProviderName = 'local' | 'openai';
+
+export interface EmbeddingProviderOptions {
+  model: string;
+  // Vector size the model must produce (requested from models that support it)
+  dimension: number;
+}
+
+/**
+ * Everything that determines which vectors a text maps to. Vectors from
+ * different specs are not comparable and must live in separate collections.
+ */
+export interface EmbeddingSpec extends EmbeddingProviderOptions {
+  provider: EmbeddingProviderName;
+}
+
+/**
+ * Common contract implemented by every embedding backend.
+ * embeddingService only talks to this interface; pick an implementation with
+ * EMBEDDING_PROVIDER (see config/embeddingClient.ts).
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  // Model identifier, also used as part of the embedding cache key
+  readonly model: string;
+  readonly dimension: number;
+  /**
+   * Embed texts, sending at most `batchSize` per request/forward pass.
+   * Vectors are returned in input order.
+   */
+  embed(texts: string[], batchSize: number): Promise<number[][]>;
+}
+
+/**
+ * The provider produces vectors of a different size than it was configured
+ * for, so they could not be stored in (or compared against) the collection
+ */
+export class EmbeddingDimensionMismatchError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly expected: number,
+    public readonly actual: number,
+  ) {
+    super(
+      `Embedding provider "${provider}" returned ${actual}-dimensional vectors but ${expected} were expected`,
+    );
+    this.name = 'EmbeddingDimensionMismatchError';
+  }
+}
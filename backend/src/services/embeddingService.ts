@@ -1,232 +1,235 @@
+import { createHash } from "crypto";
 import { env } from "../config/env";
+import { getEmbeddingProvider } from "../config/embeddingClient";
+import { EmbeddingCacheModel } from "../models/EmbeddingCache";
+import {
+  EmbeddingDimensionMismatchError,
+  type EmbeddingProvider,
+} from "./embeddingProviders";
+import { LruCache } from "../utils/lruCache";
 import { logger } from "../utils/logger";
 
-let localPipeline: any = null;
-let pipelineModel: string | null = null;
-// Cache the pipeline import to avoid re-importing the module
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let pipelineModule: any = null;
+// Cache statistics since process start, exposed on /admin/health
+const cacheStats = { hits: 0, persistentHits: 0, misses: 0 };
+const memoryCache = new LruCache<string, number[]>(env.EMBEDDING_CACHE_SIZE);
 
 /**
- * Initialize the local embedding pipeline using transformers.js
- * This runs the model locally in Node.js without any API calls
- * Uses dynamic import() because @xenova/transformers is an ES module
+ * Whitespace differences do not change the meaning of a text, so they should
+ * not produce different cache keys either
  */
-const initializeLocalPipeline = async (): Promise<any> => {
-  const modelName = env.EMBEDDING_MODEL;
+const normalizeText = (text: string): string =>
+  text.normalize("NFC").trim().replace(/\s+/g, " ");
 
-  // If pipeline already initialized with the same model, reuse it
-  if (localPipeline && pipelineModel === modelName) {
-    return localPipeline;
-  }
+const hashText = (normalizedText: string): string =>
+  createHash("sha256").update(normalizedText).digest("hex");
 
-  try {
-    logger.info(
-      `Initializing local embedding pipeline with model: ${modelName}`
-    );
-    logger.info(
-      "Note: First run will download the model (may take a few minutes)"
-    );
+// Bump when provider output changes for the same model (v2: local vectors
+// are L2-normalised) so persisted entries from older versions are ignored
+const CACHE_VERSION = 2;
 
-    // Dynamic import of @xenova/transformers (required because it's an ES module)
-    if (!pipelineModule) {
-      pipelineModule = await import("@xenova/transformers");
-    }
+// Model and dimension are part of the key so switching models never serves
+// stale vectors
+const cacheModel = (provider: EmbeddingProvider): string =>
+  `${provider.model}@${provider.dimension}#v${CACHE_VERSION}`;
 
-    const { pipeline } = pipelineModule;
-
-    // Initialize the feature-extraction pipeline
-    // This downloads and loads the model on first use
-    // Try quantized first, fallback to non-quantized if not available
-    try {
-      localPipeline = await pipeline("feature-extraction", modelName, {
-        quantized: true, // Use quantized model for faster loading and smaller size
-      });
-    } catch (quantizedError) {
-      logger.info(
-        `Quantized model not available, trying non-quantized version...`
-      );
-      localPipeline = await pipeline("feature-extraction", modelName, {
-        quantized: false, // Fallback to non-quantized
-      });
-    }
-
-    pipelineModel = modelName;
-    logger.info(`✓ Local embedding pipeline initialized successfully`);
-    return localPipeline;
-  } catch (error) {
-    logger.error(`Failed to initialize local embedding pipeline:`, error);
-    throw new Error(
-      `Failed to initialize local embedding model: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
-};
+const memoryKey = (provider: EmbeddingProvider, textHash: string): string =>
+  `${cacheModel(provider)}:${textHash}`;
 
 /**
- * Apply mean pooling to token embeddings to get sentence-level embedding
- * Token embeddings are [num_tokens, embedding_dim], we want [embedding_dim]
+ * Look up cached vectors by text hash: in-memory LRU first, then MongoDB
+ * when EMBEDDING_CACHE_PERSIST is enabled. Persistent hits warm the LRU.
  */
-const applyMeanPooling = (tokenEmbeddings: number[][]): number[] => {
-  if (tokenEmbeddings.length === 0 || !tokenEmbeddings[0]) {
-    throw new Error("Cannot pool empty token embeddings");
+const readCachedEmbeddings = async (
+  provider: EmbeddingProvider,
+  textHashes: string[]
+): Promise<Map<string, number[]>> => {
+  const found = new Map<string, number[]>();
+  const missing: string[] = [];
+
+  for (const textHash of textHashes) {
+    const vector = memoryCache.get(memoryKey(provider, textHash));
+    if (vector) {
+      found.set(textHash, vector);
+      cacheStats.hits++;
+    } else {
+      missing.push(textHash);
+    }
   }
 
-  const embeddingDim = tokenEmbeddings[0]!.length;
-  const pooled = new Array(embeddingDim).fill(0);
-
-  // Sum all token embeddings
-  for (const tokenEmbedding of tokenEmbeddings) {
-    for (let i = 0; i < embeddingDim; i++) {
-      pooled[i] += tokenEmbedding[i];
+  if (env.EMBEDDING_CACHE_PERSIST && missing.length > 0) {
+    try {
+      const docs = await EmbeddingCacheModel.find(
+        { embeddingModel: cacheModel(provider), textHash: { $in: missing } },
+        { textHash: 1, vector: 1 }
+      ).lean();
+      for (const doc of docs) {
+        found.set(doc.textHash, doc.vector);
+        memoryCache.set(memoryKey(provider, doc.textHash), doc.vector);
+        cacheStats.persistentHits++;
+      }
+    } catch (error) {
+      logger.warn("Failed to read persisted embedding cache", error);
     }
   }
 
-  // Average
-  for (let i = 0; i < embeddingDim; i++) {
-    pooled[i] /= tokenEmbeddings.length;
+  cacheStats.misses += textHashes.length - found.size;
+  return found;
+};
+
+const writeCachedEmbeddings = async (
+  provider: EmbeddingProvider,
+  entries: Array<{ textHash: string; vector: number[] }>
+): Promise<void> => {
+  entries.forEach(({ textHash, vector }) =>
+    memoryCache.set(memoryKey(provider, textHash), vector)
+  );
+
+  if (!env.EMBEDDING_CACHE_PERSIST || entries.length === 0) {
+    return;
   }
 
-  return pooled;
+  try {
+    await EmbeddingCacheModel.bulkWrite(
+      entries.map(({ textHash, vector }) => ({
+        updateOne: {
+          filter: { embeddingModel: cacheModel(provider), textHash },
+          update: { $set: { vector } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    logger.warn("Failed to persist embedding cache entries", error);
+  }
 };
 
 /**
- * Generate embeddings using local transformers.js model
- * Runs entirely in Node.js, no API calls needed
- *
- * Based on @xenova/transformers API:
- *   const extractor = await pipeline("feature-extraction", model);
- *   const result = await extractor("text");
- *   console.log(result[0]); // embedding vector
+ * Hit/miss counters for the embedding cache
  */
-const generateLocalEmbedding = async (text: string): Promise<number[]> => {
-  try {
-    const extractor = await initializeLocalPipeline();
-
-    // Generate embedding - result[0] contains the embedding(s)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result: any = await extractor(text);
-
-    // Extract embedding from result
-    // Transformers.js returns token-level embeddings that need pooling
-    let tokenEmbeddings: number[][];
-
-    if (Array.isArray(result)) {
-      if (result.length === 0) {
-        throw new Error("Empty result array from embedding pipeline");
-      }
-
-      // result[0] contains the embeddings - could be 2D [tokens, dims] or 1D [dims]
-      const firstResult = result[0];
-
-      if (Array.isArray(firstResult)) {
-        // Check if it's 2D array [tokens, dims] or 1D array [dims]
-        if (firstResult.length > 0 && Array.isArray(firstResult[0])) {
-          // 2D: [[dim1, dim2, ...], [dim1, dim2, ...], ...] - token embeddings
-          tokenEmbeddings = firstResult as number[][];
-        } else {
-          // 1D: [dim1, dim2, ...] - might already be pooled, or single token
-          // If dimension matches expected (384), assume it's already sentence-level
-          const embeddingDim = (firstResult as number[]).length;
-          if (embeddingDim === env.VECTOR_DIMENSION) {
-            return firstResult as number[];
-          }
-          // Otherwise, treat as single token embedding (unlikely but handle it)
-          tokenEmbeddings = [firstResult as number[]];
-        }
-      } else {
-        throw new Error(
-          "Unexpected result structure - first element is not an array"
-        );
-      }
-    } else if (result && typeof result === "object") {
-      // Handle tensor-like object - try common properties
-      if ("data" in result) {
-        const data = (
-          result as {
-            data: number[] | Float32Array | number[][];
-          }
-        ).data;
-        if (Array.isArray(data)) {
-          if (Array.isArray(data[0])) {
-            tokenEmbeddings = data as number[][];
-          } else {
-            const embeddingDim = (data as number[]).length;
-            if (embeddingDim === env.VECTOR_DIMENSION) {
-              return data as number[];
-            }
-            tokenEmbeddings = [data as number[]];
-          }
-        } else {
-          // Single Float32Array - convert to 2D if needed
-          const arr = Array.from(data as Float32Array);
-          const embeddingDim = env.VECTOR_DIMENSION;
-          if (arr.length === embeddingDim) {
-            return arr;
-          }
-          // Reshape: assume it's [tokens * dims], reshape to [tokens, dims]
-          const numTokens = Math.floor(arr.length / embeddingDim);
-          tokenEmbeddings = [];
-          for (let i = 0; i < numTokens; i++) {
-            tokenEmbeddings.push(
-              arr.slice(i * embeddingDim, (i + 1) * embeddingDim)
-            );
-          }
-        }
-      } else if ("tolist" in result && typeof result.tolist === "function") {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const listResult = (result as any).tolist();
-        if (Array.isArray(listResult)) {
-          if (Array.isArray(listResult[0])) {
-            tokenEmbeddings = listResult as number[][];
-          } else {
-            const embeddingDim = (listResult as number[]).length;
-            if (embeddingDim === env.VECTOR_DIMENSION) {
-              return listResult as number[];
-            }
-            tokenEmbeddings = [listResult as number[]];
-          }
-        } else {
-          throw new Error("tolist() did not return an array");
-        }
-      } else {
-        throw new Error(`Unexpected result format: ${typeof result}`);
-      }
-    } else {
-      throw new Error(`Unexpected result type: ${typeof result}`);
-    }
-
-    // Apply mean pooling to get sentence-level embedding
-    const embedding = applyMeanPooling(tokenEmbeddings);
+export const getEmbeddingCacheStats = () => {
+  const lookups = cacheStats.hits + cacheStats.persistentHits + cacheStats.misses;
+  return {
+    model: cacheModel(getEmbeddingProvider()),
+    size: memoryCache.size,
+    capacity: memoryCache.capacity,
+    persistent: env.EMBEDDING_CACHE_PERSIST,
+    hits: cacheStats.hits,
+    persistentHits: cacheStats.persistentHits,
+    misses: cacheStats.misses,
+    hitRate:
+      lookups === 0
+        ? 0
+        : (cacheStats.hits + cacheStats.persistentHits) / lookups,
+  };
+};
 
-    if (!embedding || embedding.length === 0) {
-      throw new Error("Invalid embedding result from local model");
-    }
+/**
+ * Drop in-memory cache entries (persisted entries are kept)
+ */
+export const clearEmbeddingCache = (): void => {
+  memoryCache.clear();
+};
 
-    return embedding;
-  } catch (error) {
-    logger.error("Failed to generate local embedding:", error);
-    throw new Error(
-      `Local embedding generation failed: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
+/**
+ * Embed texts with a provider, rejecting vectors whose size does not match
+ * its dimension before they reach the cache or the vector store
+ */
+const embedWithProvider = async (
+  provider: EmbeddingProvider,
+  texts: string[],
+  batchSize: number
+): Promise<number[][]> => {
+  const vectors = await provider.embed(texts, batchSize);
+  const mismatch = vectors.find(
+    (vector) => vector.length !== provider.dimension
+  );
+  if (mismatch) {
+    throw new EmbeddingDimensionMismatchError(
+      provider.name,
+      provider.dimension,
+      mismatch.length
     );
   }
+  return vectors;
 };
 
 /**
- * Generate embeddings for text using local transformers.js
+ * Generate embeddings for text using the active embedding provider
  */
 export const generateEmbedding = async (text: string): Promise<number[]> => {
   if (!text || !text.trim()) {
     throw new Error("Cannot generate embedding for empty text");
   }
 
+  const provider = getEmbeddingProvider();
+  const normalized = normalizeText(text);
+  const textHash = hashText(normalized);
+  const cached = (await readCachedEmbeddings(provider, [textHash])).get(
+    textHash
+  );
+  if (cached) {
+    return cached;
+  }
+
   try {
-    return await generateLocalEmbedding(text);
+    const [embedding] = await embedWithProvider(provider, [normalized], 1);
+    await writeCachedEmbeddings(provider, [{ textHash, vector: embedding! }]);
+    return embedding!;
   } catch (error) {
     logger.error("Failed to generate embedding", error);
     throw error;
   }
 };
+
+/**
+ * Generate embeddings for many texts, sending the provider `batchSize` texts
+ * at a time. Cached texts (and duplicates within the call) are only embedded
+ * once. Vectors are returned in input order. `provider` defaults to the active
+ * one; re-indexing passes the provider of the collection being built.
+ */
+export const generateEmbeddings = async (
+  texts: string[],
+  batchSize = env.EMBEDDING_BATCH_SIZE,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[][]> => {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const emptyIndex = texts.findIndex((text) => !text || !text.trim());
+  if (emptyIndex !== -1) {
+    throw new Error(
+      `Cannot generate embedding for empty text (index ${emptyIndex})`
+    );
+  }
+
+  const normalized = texts.map(normalizeText);
+  const hashes = normalized.map(hashText);
+  const uniqueHashes = [...new Set(hashes)];
+  const vectorsByHash = await readCachedEmbeddings(provider, uniqueHashes);
+
+  const toEmbed = uniqueHashes
+    .filter((textHash) => !vectorsByHash.has(textHash))
+    .map((textHash) => normalized[hashes.indexOf(textHash)]!);
+
+  if (toEmbed.length > 0) {
+    try {
+      const vectors = await embedWithProvider(provider, toEmbed, batchSize);
+      const computed = toEmbed.map((text, i) => ({
+        textHash: hashText(text),
+        vector: vectors[i]!,
+      }));
+
+      computed.forEach(({ textHash, vector }) =>
+        vectorsByHash.set(textHash, vector)
+      );
+      await writeCachedEmbeddings(provider, computed);
+    } catch (error) {
+      logger.error(`Failed to generate ${toEmbed.length} embeddings`, error);
+      throw error;
+    }
+  }
+
+  return hashes.map((textHash) => vectorsByHash.get(textHash)!);
+};
@@ -1,251 +1,389 @@
 import { Types } from 'mongoose';
-import { IngestionJobModel } from '../models/IngestionJob';
+import {
+  IngestionJobModel,
+  type IngestionJobDocument,
+  type IngestionJobStatus,
+  type IngestionJobType,
+} from '../models/IngestionJob';
+import { MovieModel, type MovieDocument } from '../models/Movie';
+import { env } from '../config/env';
 import {
   createMovie,
   createMovieWithImage,
   type CreateMovieDTO,
   updateMovieEmbeddingKeys,
-  getMovieById,
 } from './movieService';
-import { generateEmbedding } from './embeddingService';
-import { upsertMovieEmbeddings } from './vectorSearchService';
+import { generateEmbeddings } from './embeddingService';
+import type { EmbeddingProvider } from './embeddingProviders';
+import type { VectorStore } from './vectorStores';
+import {
+  deleteMovieEmbeddingKeys,
+  upsertMovieEmbeddings,
+  type MovieEmbedding,
+  type MovieVectorMetadata,
+} from './vectorSearchService';
+import { chunkText } from '../utils/textChunker';
 import { logger } from '../utils/logger';
 
 /**
- * Generate embeddings for movie content fields
- * This is a shared function used by both ingestion and update operations
+ * Pick the filterable fields that are stored as vector payload
  */
-export const generateMovieEmbeddings = async (
+export const toVectorMetadata = (
+  payload: Partial<CreateMovieDTO>,
+): MovieVectorMetadata => ({
+  genres: payload.genres,
+  releaseYear: payload.releaseYear,
+  rating: payload.rating,
+  director: payload.director,
+});
+
+type EmbeddingText = Omit<MovieEmbedding, 'vector'> & { text: string };
+
+/**
+ * Texts to embed for a movie, one per embedding source (title, plot, genre).
+ * The plot is split into overlapping chunks so long synopses are not
+ * truncated by the model.
+ */
+const buildEmbeddingTexts = (
   payload: Partial<CreateMovieDTO> & { title?: string },
-): Promise<Record<string, number[]>> => {
-  const embeddings: Record<string, number[]> = {};
+): EmbeddingText[] => {
+  const texts: EmbeddingText[] = [];
 
-  // Generate embeddings for all available text content
   // Title is important for searchability
   if (payload.title && payload.title.trim()) {
-    try {
-      embeddings.title = await generateEmbedding(payload.title);
-      logger.info(`Generated title embedding`);
-    } catch (error) {
-      logger.warn(
-        `Failed to generate title embedding: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
-    }
+    texts.push({ source: 'title', text: payload.title });
   }
 
-  // Plot/description embedding
+  // Plot/description embeddings, one per chunk
   if (payload.plot && payload.plot.trim()) {
-    try {
-      embeddings.plot = await generateEmbedding(payload.plot);
-      logger.info(`Generated plot embedding`);
-    } catch (error) {
-      logger.warn(
-        `Failed to generate plot embedding: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
-    }
+    chunkText(payload.plot, env.PLOT_CHUNK_SIZE, env.PLOT_CHUNK_OVERLAP).forEach(
+      ({ text, ...chunk }) => {
+        texts.push({ source: 'plot', text, chunk });
+      },
+    );
   }
 
   // Genre embedding (combine all genres into one string)
   if (payload.genres && payload.genres.length > 0) {
-    try {
-      const genreText = payload.genres.join(', ');
-      embeddings.genre = await generateEmbedding(genreText);
-      logger.info(`Generated genre embedding`);
-    } catch (error) {
-      logger.warn(
-        `Failed to generate genre embedding: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
-    }
+    texts.push({ source: 'genre', text: payload.genres.join(', ') });
   }
 
-  return embeddings;
+  return texts;
 };
 
 /**
- * Ingest a new movie WITHOUT image (JSON only)
+ * Queue a background job that (re)generates embeddings for a movie.
+ * The ingestion worker picks it up; see ingestionWorker.ts
  */
-export const ingestMovie = async (payload: CreateMovieDTO): Promise<void> => {
-  const movie = await createMovie(payload);
+export const enqueueEmbeddingJob = async (
+  movieId: Types.ObjectId | string,
+  type: IngestionJobType = 'ingest',
+): Promise<IngestionJobDocument> => {
   const job = await IngestionJobModel.create({
-    movieId: movie._id,
-    status: 'processing',
+    movieId,
+    type,
+    status: 'pending',
+    maxAttempts: env.INGESTION_MAX_ATTEMPTS,
+    nextRunAt: new Date(),
   });
+  logger.info(`Queued ${type} job ${job._id} for movie ${movieId}`);
+  return job;
+};
 
-  try {
-    const embeddings = await generateMovieEmbeddings(payload);
-
-    if (Object.keys(embeddings).length > 0) {
-      try {
-        const embeddingKeys = await upsertMovieEmbeddings(
-          String(movie._id),
-          embeddings
-        );
-        await updateMovieEmbeddingKeys(
-          movie._id as Types.ObjectId,
-          embeddingKeys
-        );
-        logger.info(
-          `Upserted ${Object.keys(embeddings).length} embeddings for movie ${movie._id}`
-        );
-      } catch (error) {
-        logger.error(
-          `Failed to upsert embeddings to vector DB: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`
-        );
-      }
-    } else {
-      logger.warn(
-        `Movie ${movie._id} ingested without embeddings (no text content provided)`
-      );
-    }
-
-    job.status = 'completed';
-    await job.save();
-    logger.info(`Movie ${movie._id} ingested successfully`);
-  } catch (error) {
-    job.status = 'failed';
-    job.errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    await job.save();
-    logger.error('Failed to ingest movie', {
-      movieId: movie._id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    throw error;
-  }
+/**
+ * Ingest a new movie WITHOUT image (JSON only)
+ * The movie is saved immediately; embeddings are generated by the worker
+ */
+export const ingestMovie = async (
+  payload: CreateMovieDTO,
+): Promise<{ movie: MovieDocument; job: IngestionJobDocument }> => {
+  const movie = await createMovie(payload);
+  const job = await enqueueEmbeddingJob(movie._id as Types.ObjectId);
+  logger.info(`Movie ${movie._id} saved, embeddings queued`);
+  return { movie, job };
 };
 
 /**
- * Ingest a new movie with embeddings and optional poster image
+ * Ingest a new movie with optional poster image
+ * The movie is saved immediately; embeddings are generated by the worker
  */
 export const ingestMovieWithImage = async (
   payload: CreateMovieDTO,
   imageBuffer?: Buffer,
   imageContentType?: string,
   imageFilename?: string
-): Promise<void> => {
+): Promise<{ movie: MovieDocument; job: IngestionJobDocument }> => {
   const movie = await createMovieWithImage(
     payload,
     imageBuffer,
     imageContentType,
     imageFilename
   );
-  const job = await IngestionJobModel.create({
-    movieId: movie._id,
-    status: 'processing',
-  });
-
-  try {
-    const embeddings = await generateMovieEmbeddings(payload);
-
-    // If we have embeddings, upsert them to vector DB
-    if (Object.keys(embeddings).length > 0) {
-      try {
-        const embeddingKeys = await upsertMovieEmbeddings(
-          String(movie._id),
-          embeddings
-        );
-        await updateMovieEmbeddingKeys(
-          movie._id as Types.ObjectId,
-          embeddingKeys
-        );
-        logger.info(
-          `Upserted ${Object.keys(embeddings).length} embeddings for movie ${movie._id}`
-        );
-      } catch (error) {
-        logger.error(
-          `Failed to upsert embeddings to vector DB: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`
-        );
-        // Don't throw - movie is still saved, just without vector search capability
-      }
-    } else {
-      logger.warn(
-        `Movie ${movie._id} ingested without embeddings (no text content provided). It won't be searchable via semantic search.`
-      );
-    }
+  const job = await enqueueEmbeddingJob(movie._id as Types.ObjectId);
+  logger.info(`Movie ${movie._id} saved with image, embeddings queued`);
+  return { movie, job };
+};
 
-    job.status = 'completed';
-    await job.save();
-    logger.info(`Movie ${movie._id} ingested successfully with image`);
-  } catch (error) {
-    job.status = 'failed';
-    job.errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    await job.save();
-    logger.error('Failed to ingest movie with image', {
-      movieId: movie._id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    throw error;
+export class MovieNotFoundError extends Error {
+  constructor(movieId: string) {
+    super(`Movie ${movieId} not found`);
+    this.name = 'MovieNotFoundError';
   }
-};
+}
 
 /**
- * Regenerate embeddings for a movie when its attributes are updated
- * Regenerates all embeddings based on the final updated movie state
+ * Where embedMovies writes: a provider and the collection built with it.
+ * Defaults to the active index; re-indexing targets the collection being built.
  */
-export const regenerateMovieEmbeddings = async (
-  movieId: string,
-  updatedMovieData: Partial<CreateMovieDTO> & { title?: string },
-): Promise<void> => {
-  try {
-    // Verify movie exists
-    const movie = await getMovieById(movieId);
+export interface EmbeddingTarget {
+  provider: EmbeddingProvider;
+  store: VectorStore;
+}
+
+/**
+ * Generate and upsert embeddings for several movies, embedding all of their
+ * texts in shared batches. Returns the number of embeddings stored per movie,
+ * or the error that movie failed with so each job can be retried on its own.
+ */
+export const embedMovies = async (
+  movieIds: string[],
+  target?: EmbeddingTarget,
+): Promise<Map<string, number | Error>> => {
+  const results = new Map<string, number | Error>();
+  const uniqueIds = [...new Set(movieIds)];
+  const movies = await MovieModel.find({
+    _id: { $in: uniqueIds.filter((id) => Types.ObjectId.isValid(id)) },
+  });
+  const moviesById = new Map(movies.map((movie) => [String(movie._id), movie]));
+
+  const pending: Array<{ movie: MovieDocument; texts: ReturnType<typeof buildEmbeddingTexts> }> = [];
+  for (const movieId of uniqueIds) {
+    const movie = moviesById.get(movieId);
     if (!movie) {
-      throw new Error(`Movie ${movieId} not found`);
+      results.set(movieId, new MovieNotFoundError(movieId));
+      continue;
     }
 
-    // Check if any embedding-relevant fields are present
-    const hasEmbeddingFields =
-      (updatedMovieData.title && updatedMovieData.title.trim()) ||
-      (updatedMovieData.plot && updatedMovieData.plot.trim()) ||
-      (updatedMovieData.genres && updatedMovieData.genres.length > 0);
-
-    if (!hasEmbeddingFields) {
-      logger.info(
-        `No embedding-relevant fields in update for movie ${movieId}, skipping regeneration`
+    const texts = buildEmbeddingTexts(movie);
+    if (texts.length === 0) {
+      logger.warn(
+        `Movie ${movieId} has no text content. It won't be searchable via semantic search.`
       );
-      return;
+      results.set(movieId, 0);
+      continue;
     }
+    pending.push({ movie, texts });
+  }
 
-    logger.info(
-      `Regenerating embeddings for movie ${movieId} based on updated fields`
+  if (pending.length === 0) {
+    return results;
+  }
+
+  let vectors: number[][];
+  try {
+    vectors = await generateEmbeddings(
+      pending.flatMap(({ texts }) => texts.map(({ text }) => text)),
+      env.EMBEDDING_BATCH_SIZE,
+      target?.provider,
     );
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error('Embedding generation failed');
+    pending.forEach(({ movie }) => results.set(String(movie._id), failure));
+    return results;
+  }
 
-    // Generate embeddings for all available text content in the updated movie
-    const embeddings = await generateMovieEmbeddings(updatedMovieData);
+  let offset = 0;
+  for (const { movie, texts } of pending) {
+    const movieId = String(movie._id);
+    const embeddings = texts.map(({ source, chunk }, index) => ({
+      source,
+      chunk,
+      vector: vectors[offset + index]!,
+    }));
+    offset += texts.length;
 
-    if (Object.keys(embeddings).length > 0) {
-      // Upsert all embeddings (will overwrite existing ones with same IDs)
-      const embeddingKeys = await upsertMovieEmbeddings(movieId, embeddings);
-      await updateMovieEmbeddingKeys(
-        movie._id as Types.ObjectId,
-        embeddingKeys
+    try {
+      const embeddingKeys = await upsertMovieEmbeddings(
+        movieId,
+        embeddings,
+        toVectorMetadata(movie),
+        target?.store,
       );
-      logger.info(
-        `Regenerated and upserted ${Object.keys(embeddings).length} embeddings for movie ${movieId}`
-      );
-    } else {
-      logger.warn(
-        `No embeddings could be generated for movie ${movieId} after update`
+      // Drop vectors that are no longer produced (legacy single `plot` vector,
+      // or trailing chunks after the plot got shorter)
+      const staleKeys = Object.keys(movie.embeddingKeys ?? {}).filter(
+        (key) => !(key in embeddingKeys),
       );
+      await deleteMovieEmbeddingKeys(movieId, staleKeys, target?.store);
+      await updateMovieEmbeddingKeys(movie._id as Types.ObjectId, embeddingKeys);
+      logger.info(`Upserted ${texts.length} embeddings for movie ${movieId}`);
+      results.set(movieId, texts.length);
+    } catch (error) {
+      results.set(movieId, error instanceof Error ? error : new Error('Vector upsert failed'));
     }
-  } catch (error) {
-    logger.error(
-      `Failed to regenerate embeddings for movie ${movieId}: ${
-        error instanceof Error ? error.message : 'Unknown error'
-      }`
-    );
-    // Don't throw - movie update succeeded, embedding regeneration failed but shouldn't block the update
-    // This allows graceful degradation
   }
+
+  return results;
+};
+
+export interface IngestionJobQuery {
+  status?: IngestionJobStatus;
+  movieId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Job counts per status, e.g. { pending: 2, processing: 1, completed: 40, failed: 0 }
+ */
+export const getIngestionJobCounts = async (): Promise<Record<IngestionJobStatus, number>> => {
+  const counts: Record<IngestionJobStatus, number> = {
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+  };
+  const grouped = await IngestionJobModel.aggregate<{ _id: IngestionJobStatus; count: number }>([
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+  grouped.forEach(({ _id, count }) => {
+    counts[_id] = count;
+  });
+  return counts;
+};
+
+type JobMovie = { _id: Types.ObjectId; title: string };
+
+// A lean job; movieId is populated with { _id, title }, or null if the movie was deleted
+type JobRecord = Pick<
+  IngestionJobDocument,
+  | 'type'
+  | 'status'
+  | 'attempts'
+  | 'maxAttempts'
+  | 'nextRunAt'
+  | 'lockedBy'
+  | 'lockedUntil'
+  | 'lastAttemptAt'
+  | 'completedAt'
+  | 'errorMessage'
+  | 'createdAt'
+  | 'updatedAt'
+> & { _id: Types.ObjectId; movieId: Types.ObjectId | JobMovie | null };
+
+/**
+ * A job as returned by the admin jobs API
+ */
+export interface JobSummary {
+  id: string;
+  // Null once the movie has been deleted
+  movieId: string | null;
+  movieTitle: string | null;
+  type: IngestionJobType;
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastAttemptAt?: Date;
+  completedAt?: Date;
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Paginated job listing, newest first, with the movie title attached
+ */
+export const listIngestionJobs = async ({
+  status,
+  movieId,
+  from,
+  to,
+  page,
+  limit,
+}: IngestionJobQuery) => {
+  const query: Record<string, any> = {};
+  if (status) query.status = status;
+  if (movieId) query.movieId = movieId;
+  if (from || to) {
+    query.createdAt = {};
+    if (from) query.createdAt.$gte = from;
+    if (to) query.createdAt.$lte = to;
+  }
+
+  const [jobs, total] = await Promise.all([
+    IngestionJobModel.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate<{ movieId: JobMovie | null }>('movieId', 'title')
+      .lean(),
+    IngestionJobModel.countDocuments(query),
+  ]);
+
+  return {
+    jobs: jobs.map(toJobSummary),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const getIngestionJob = async (id: string): Promise<JobSummary | null> => {
+  if (!Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  const job = await IngestionJobModel.findById(id)
+    .populate<{ movieId: JobMovie | null }>('movieId', 'title')
+    .lean();
+  return job ? toJobSummary(job) : null;
+};
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts.
+ * Returns null when the job does not exist, false when it is not failed.
+ */
+export const retryIngestionJob = async (id: string) => {
+  if (!Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  const job = await IngestionJobModel.findById(id);
+  if (!job) {
+    return null;
+  }
+  if (job.status !== 'failed') {
+    return false;
+  }
+
+  job.status = 'pending';
+  job.attempts = 0;
+  job.nextRunAt = new Date();
+  await job.save();
+  logger.info(`Ingestion job ${id} re-queued manually`);
+  return getIngestionJob(id);
+};
+
+const toJobSummary = (job: JobRecord): JobSummary => {
+  const movie = job.movieId && 'title' in job.movieId ? job.movieId : null;
+  return {
+    id: String(job._id),
+    movieId: movie ? String(movie._id) : job.movieId ? String(job.movieId) : null,
+    movieTitle: movie?.title ?? null,
+    type: job.type ?? 'ingest',
+    status: job.status,
+    attempts: job.attempts ?? 0,
+    maxAttempts: job.maxAttempts,
+    nextRunAt: job.nextRunAt,
+    lockedBy: job.lockedBy,
+    lockedUntil: job.lockedUntil,
+    lastAttemptAt: job.lastAttemptAt,
+    completedAt: job.completedAt,
+    errorMessage: job.errorMessage,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
 };
@@ -0,0 +1,229 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { IngestionJobModel, type IngestionJobDocument } from '../models/IngestionJob';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { embedMovies, MovieNotFoundError } from './ingestionService';
+
+// Unique per process so a restarted worker never mistakes old leases for its own
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let running = false;
+let stopping = false;
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped at one hour
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(env.INGESTION_BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), 60 * 60 * 1000);
+
+/**
+ * Fail jobs whose lease expired on their last attempt. A job that crashes its
+ * worker every time never reaches failJob, so it would otherwise be reclaimed
+ * forever.
+ */
+const failAbandonedJobs = async (): Promise<void> => {
+  const result = await IngestionJobModel.updateMany(
+    {
+      status: 'processing',
+      lockedUntil: { $lt: new Date() },
+      $expr: { $gte: ['$attempts', '$maxAttempts'] },
+    },
+    {
+      $set: { status: 'failed', errorMessage: 'Worker stopped during the last attempt (lease expired)' },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    },
+  );
+  if (result.modifiedCount > 0) {
+    logger.error(`${result.modifiedCount} ingestion job(s) failed after their lease expired on the last attempt`);
+  }
+};
+
+/**
+ * Atomically claim the next runnable job: a pending job whose backoff has
+ * elapsed, or a processing job whose lease expired (its worker crashed) and
+ * that has attempts left
+ */
+const claimNextJob = async (): Promise<IngestionJobDocument | null> => {
+  const now = new Date();
+  return IngestionJobModel.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextRunAt: { $lte: now } },
+        {
+          status: 'processing',
+          lockedUntil: { $lt: now },
+          $expr: { $lt: ['$attempts', '$maxAttempts'] },
+        },
+      ],
+    },
+    {
+      $set: {
+        status: 'processing',
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + env.INGESTION_LEASE_MS),
+        lastAttemptAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextRunAt: 1 }, new: true },
+  );
+};
+
+/**
+ * Claim up to `limit` runnable jobs for one batched embedding round
+ */
+const claimJobs = async (limit: number): Promise<IngestionJobDocument[]> => {
+  await failAbandonedJobs();
+  const jobs: IngestionJobDocument[] = [];
+  while (jobs.length < limit) {
+    const job = await claimNextJob();
+    if (!job) break;
+    jobs.push(job);
+  }
+  return jobs;
+};
+
+/**
+ * Extend the lease while jobs are running so long embeddings are not reclaimed
+ */
+const startHeartbeat = (jobIds: unknown[]): NodeJS.Timeout =>
+  setInterval(() => {
+    IngestionJobModel.updateMany(
+      { _id: { $in: jobIds }, lockedBy: workerId, status: 'processing' },
+      { $set: { lockedUntil: new Date(Date.now() + env.INGESTION_LEASE_MS) } },
+    ).catch((error) => logger.warn(`Failed to extend lease for jobs ${jobIds.join(', ')}`, error));
+  }, Math.max(env.INGESTION_LEASE_MS / 3, 500));
+
+const completeJob = async (job: IngestionJobDocument): Promise<void> => {
+  await IngestionJobModel.updateOne(
+    { _id: job._id, lockedBy: workerId },
+    {
+      $set: { status: 'completed', completedAt: new Date() },
+      $unset: { lockedBy: 1, lockedUntil: 1, errorMessage: 1 },
+    },
+  );
+  logger.info(`Ingestion job ${job._id} completed (movie ${job.movieId})`);
+};
+
+const failJob = async (job: IngestionJobDocument, error: unknown): Promise<void> => {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const retryable = !(error instanceof MovieNotFoundError);
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  if (retryable && !exhausted) {
+    const delay = getRetryDelayMs(job.attempts);
+    await IngestionJobModel.updateOne(
+      { _id: job._id, lockedBy: workerId },
+      {
+        $set: { status: 'pending', errorMessage, nextRunAt: new Date(Date.now() + delay) },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    logger.warn(
+      `Ingestion job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${errorMessage}`,
+    );
+  } else {
+    await IngestionJobModel.updateOne(
+      { _id: job._id, lockedBy: workerId },
+      {
+        $set: { status: 'failed', errorMessage },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    logger.error(`Ingestion job ${job._id} failed permanently: ${errorMessage}`);
+  }
+};
+
+/**
+ * Embed the movies of several jobs together, then settle each job on its own
+ */
+const runJobs = async (jobs: IngestionJobDocument[]): Promise<void> => {
+  const heartbeat = startHeartbeat(jobs.map((job) => job._id));
+  try {
+    let results: Map<string, number | Error>;
+    try {
+      results = await embedMovies(jobs.map((job) => String(job.movieId)));
+    } catch (error) {
+      await Promise.all(jobs.map((job) => failJob(job, error)));
+      return;
+    }
+
+    for (const job of jobs) {
+      const result = results.get(String(job.movieId));
+      if (result instanceof Error) {
+        await failJob(job, result);
+      } else {
+        await completeJob(job);
+      }
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * Claim and run jobs until none are runnable. Returns the number processed.
+ */
+export const processPendingJobs = async (): Promise<number> => {
+  let processed = 0;
+  while (!stopping) {
+    const jobs = await claimJobs(env.INGESTION_BATCH_SIZE);
+    if (jobs.length === 0) break;
+    await runJobs(jobs);
+    processed += jobs.length;
+  }
+  return processed;
+};
+
+/**
+ * Process jobs until the queue has nothing left that could still succeed,
+ * waiting out retry backoff (used by import scripts that run without the server)
+ */
+export const drainIngestionQueue = async (): Promise<void> => {
+  for (;;) {
+    await processPendingJobs();
+    const next = await IngestionJobModel.findOne({ status: { $in: ['pending', 'processing'] } })
+      .sort({ nextRunAt: 1 })
+      .lean();
+    if (!next || stopping) return;
+
+    const wakeAt = next.status === 'pending' ? next.nextRunAt : next.lockedUntil;
+    const wait = Math.max((wakeAt ? new Date(wakeAt).getTime() : Date.now()) - Date.now(), 100);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+};
+
+const tick = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  try {
+    await processPendingJobs();
+  } catch (error) {
+    logger.error('Ingestion worker poll failed', error);
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Start polling for ingestion jobs. Jobs left in `processing` by a crashed
+ * process are picked up again once their lease expires.
+ */
+export const startIngestionWorker = (): void => {
+  if (pollTimer) return;
+  stopping = false;
+  pollTimer = setInterval(tick, env.INGESTION_POLL_INTERVAL_MS);
+  void tick();
+  logger.info(`Ingestion worker ${workerId} started (poll every ${env.INGESTION_POLL_INTERVAL_MS}ms)`);
+};
+
+export const stopIngestionWorker = (): void => {
+  stopping = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  logger.info(`Ingestion worker ${workerId} stopped`);
+};
@@ -1,9 +1,30 @@
 import axios from 'axios';
-import { Types } from 'mongoose';
-import { MovieModel, type MovieDocument } from '../models/Movie';
-import { semanticSearch } from './vectorSearchService';
+import { Types, type Document } from 'mongoose';
+import { MOVIE_TEXT_INDEX, MovieModel, type MovieDocument } from '../models/Movie';
+import {
+  semanticSearch,
+  recommendByVectorIds,
+  diversifyMovies,
+  deleteMovieEmbeddings,
+  collectMoviesWithoutFilterPayload,
+  collectVectorMovieIds,
+  type VectorMatch,
+} from './vectorSearchService';
 import { logger } from '../utils/logger';
+import type { SearchFilters } from '../utils/filterBuilder';
+import { reciprocalRankFusion } from '../utils/rankFusion';
+import { highlightTerms, type HighlightRange } from '../utils/highlight';
+import {
+  aggregateFieldScores,
+  type EmbeddingField,
+  type FieldScores,
+  type FieldWeights,
+} from '../utils/fieldWeights';
+import { generateEmbedding } from './embeddingService';
 import { uploadImageToGridFS, deleteImageFromGridFS } from './gridfsService';
+import { deleteViewsForMovies, moveViewsToMovie } from './personalRecommendationService';
+import { deleteReviewsForMovies, moveReviewsToMovie } from './reviewService';
+import { moveWatchlistItemsToMovie, removeMoviesFromWatchlists } from './watchlistService';
 
 // Lightweight view model returned to clients
 interface MovieSummary {
@@ -12,17 +33,21 @@ interface MovieSummary {
   genres: string[];
   cast: string[];
   rating?: number;
+  communityRating?: number;
+  ratingCount?: number;
   posterUrl?: string;
   posterGridFSId?: string;
   releaseYear?: number;
 }
 
-const toMovieSummary = (movie: MovieDocument | any): MovieSummary => ({
+export const toMovieSummary = (movie: MovieDocument | any): MovieSummary => ({
   id: movie.id || movie._id?.toString(),
   title: movie.title,
   genres: movie.genres ?? [],
   cast: movie.cast ?? [],
   rating: movie.rating,
+  communityRating: movie.communityRating,
+  ratingCount: movie.ratingCount,
   posterUrl: movie.posterUrl,
   posterGridFSId: movie.posterGridFSId ? movie.posterGridFSId.toString() : undefined,
   releaseYear: movie.releaseYear,
@@ -86,7 +111,8 @@ export const updateMovieEmbeddingKeys = async (
   return MovieModel.findByIdAndUpdate(
     movieId,
     { $set: { embeddingKeys } },
-    { new: true },
+    // Bookkeeping, not an edit: re-index catch-up finds edits by updatedAt
+    { new: true, timestamps: false },
   );
 };
 
@@ -107,12 +133,93 @@ export const getMoviesByIds = async (ids: string[]): Promise<MovieDocument[]> =>
   return ids.map((id) => movieMap.get(id)).filter(Boolean) as MovieDocument[];
 };
 
-export const searchMoviesByEmbedding = async (
-  embedding: number[],
-  limit = 10,
-): Promise<{ movie: MovieDocument; score: number }[]> => {
-  const matches = await semanticSearch(embedding, limit * 2); // Get more matches to account for duplicates
-  
+export interface SemanticSearchOptions {
+  filters?: SearchFilters;
+  // When set, the movie score is the weighted average of its per-field scores
+  // instead of the best single field score
+  fieldWeights?: FieldWeights;
+  // Query text; words from it are highlighted in the returned plot passage
+  query?: string;
+  // 0-1; above 0 the results are re-ranked with maximal marginal relevance so
+  // near-duplicates (e.g. sequels) give way to other relevant movies
+  diversity?: number;
+  // Relevance-ranked movies the diversity re-ranking picks from (default:
+  // MMR_CANDIDATE_FACTOR per result). Paged searches keep it fixed, since a
+  // different pool changes the earlier picks.
+  candidates?: number;
+}
+
+// Relevance-ranked candidates per result that diversity re-ranking picks from
+const MMR_CANDIDATE_FACTOR = 3;
+
+/**
+ * Apply SemanticSearchOptions.diversity to results ranked by relevance
+ */
+const diversifyResults = (
+  ranked: SemanticSearchResult[],
+  limit: number,
+  diversity = 0,
+): Promise<SemanticSearchResult[]> =>
+  diversifyMovies(ranked, limit, diversity, {
+    movie: ({ movie }) => ({ id: movie.id, embeddingKeys: movie.embeddingKeys }),
+    relevance: ({ score }) => score,
+  });
+
+/**
+ * The plot chunk that best matched the query, with highlight ranges
+ * relative to `text`
+ */
+export interface PlotPassage {
+  chunkIndex: number;
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+  highlights: HighlightRange[];
+}
+
+export interface SemanticSearchResult {
+  movie: MovieDocument;
+  score: number;
+  // Best score per embedding source (title/plot/genre) for this movie
+  breakdown: FieldScores;
+  passage?: PlotPassage;
+}
+
+/**
+ * Cut the best-matching chunk out of the plot using the offsets stored with
+ * its vector. Returns undefined for vectors stored before plots were chunked.
+ */
+const toPlotPassage = (
+  movie: MovieDocument,
+  match: VectorMatch,
+  query?: string,
+): PlotPassage | undefined => {
+  const { chunkIndex, chunkStart, chunkEnd } = match.payload;
+  if (typeof chunkStart !== 'number' || typeof chunkEnd !== 'number' || !movie.plot) {
+    return undefined;
+  }
+  const text = movie.plot.slice(chunkStart, chunkEnd);
+  return {
+    chunkIndex: Number(chunkIndex ?? 0),
+    start: chunkStart,
+    end: chunkEnd,
+    text,
+    score: match.score,
+    highlights: query ? highlightTerms(text, query) : [],
+  };
+};
+
+/**
+ * Group vector matches by movie: a movie keeps its best score per source and
+ * is ranked by its best source (or weighted fields). Plot matches become the
+ * returned passage.
+ */
+const rankMatchesByMovie = async (
+  matches: VectorMatch[],
+  limit: number,
+  { fieldWeights, query }: Pick<SemanticSearchOptions, 'fieldWeights' | 'query'> = {},
+): Promise<SemanticSearchResult[]> => {
   if (matches.length === 0) {
     return [];
   }
@@ -134,9 +241,10 @@ export const searchMoviesByEmbedding = async (
     }
   });
 
-  // Map matches to movies and deduplicate by movie ID
-  // If a movie appears multiple times (different embeddings), keep the highest score
-  const movieScoreMap = new Map<string, { movie: MovieDocument; score: number }>();
+  // Map matches to movies and group the per-source scores by movie ID
+  const movieScoreMap = new Map<string, SemanticSearchResult>();
+  // Best plot chunk per movie, turned into a passage for the final results
+  const bestPlotMatch = new Map<string, VectorMatch>();
   
   matches.forEach((match) => {
     const movieId = String(match.payload.movieId);
@@ -146,17 +254,180 @@ export const searchMoviesByEmbedding = async (
       return;
     }
     
-    const existing = movieScoreMap.get(movieId);
-    // Keep the match with the highest score if movie appears multiple times
-    if (!existing || match.score > existing.score) {
-      movieScoreMap.set(movieId, { movie, score: match.score });
+    const entry = movieScoreMap.get(movieId) ?? { movie, score: 0, breakdown: {} };
+    const source = String(match.payload.source) as EmbeddingField;
+    // Keep the highest score per source; plot chunks all count as `plot`,
+    // so a movie scores by its best-matching passage
+    entry.breakdown[source] = Math.max(entry.breakdown[source] ?? -Infinity, match.score);
+    movieScoreMap.set(movieId, entry);
+
+    if (source === 'plot' && match.score > (bestPlotMatch.get(movieId)?.score ?? -Infinity)) {
+      bestPlotMatch.set(movieId, match);
     }
   });
 
+  movieScoreMap.forEach((entry) => {
+    entry.score = fieldWeights
+      ? aggregateFieldScores(entry.breakdown, fieldWeights)
+      : Math.max(...(Object.values(entry.breakdown) as number[]));
+  });
+
   // Convert map to array, sort by score (descending), and limit
-  return Array.from(movieScoreMap.values())
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+  return Array.from(movieScoreMap.entries())
+    .sort(([, a], [, b]) => b.score - a.score)
+    .slice(0, limit)
+    .map(([movieId, entry]) => {
+      const plotMatch = bestPlotMatch.get(movieId);
+      const passage = plotMatch && toPlotPassage(entry.movie, plotMatch, query);
+      return passage ? { ...entry, passage } : entry;
+    });
+};
+
+export const searchMoviesByEmbedding = async (
+  embedding: number[],
+  limit = 10,
+  options: SemanticSearchOptions = {},
+): Promise<SemanticSearchResult[]> => {
+  const { filters, fieldWeights, query, diversity } = options;
+  const candidates = diversity
+    ? Math.max(options.candidates ?? limit * MMR_CANDIDATE_FACTOR, limit)
+    : limit;
+  // Get more matches to account for duplicates: besides title and genre, a
+  // movie has one vector per plot chunk. Weighted scoring needs every field
+  // of a movie, so widen the pool further.
+  const poolSize = fieldWeights ? candidates * 6 : candidates * 4;
+  const matches = await semanticSearch(embedding, poolSize, filters);
+  const ranked = await rankMatchesByMovie(matches, candidates, { fieldWeights, query });
+  return diversifyResults(ranked, limit, diversity);
+};
+
+/**
+ * Movies nearest to stored vectors (see recommendByVectorIds), ranked like
+ * searchMoviesByEmbedding. Movies in `excludeMovieIds` are left out, e.g. the
+ * movie the vectors belong to.
+ */
+export const searchMoviesByVectorIds = async (
+  vectorIds: string[],
+  limit = 10,
+  {
+    filters,
+    excludeMovieIds = [],
+    diversity,
+  }: Pick<SemanticSearchOptions, 'filters' | 'diversity'> & { excludeMovieIds?: string[] } = {},
+): Promise<SemanticSearchResult[]> => {
+  const excluded = new Set(excludeMovieIds);
+  const candidates = diversity ? limit * MMR_CANDIDATE_FACTOR : limit;
+  const matches = await recommendByVectorIds(vectorIds, candidates * 4, filters);
+  const ranked = await rankMatchesByMovie(
+    matches.filter((match) => !excluded.has(String(match.payload.movieId))),
+    candidates,
+  );
+  return diversifyResults(ranked, limit, diversity);
+};
+
+// A movie as a plain object, as returned by .lean() queries
+type LeanMovie = Omit<MovieDocument, keyof Document> & { _id: Types.ObjectId };
+
+/**
+ * Lexical search using the Mongo text index (title, cast, director, plot)
+ * Results are ordered by Mongo's textScore
+ */
+export const searchMoviesByText = async (
+  query: string,
+  limit = 10,
+): Promise<{ movie: MovieDocument; score: number }[]> => {
+  const docs = await MovieModel.find(
+    { $text: { $search: query } },
+    { score: { $meta: 'textScore' } },
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .lean<(LeanMovie & { score?: number })[]>();
+
+  return docs.map((doc) => ({
+    movie: MovieModel.hydrate(doc),
+    score: doc.score ?? 0,
+  }));
+};
+
+export type SearchChannel = 'lexical' | 'semantic';
+
+export interface HybridSearchOptions {
+  fieldWeights?: FieldWeights;
+  lexicalWeight?: number;
+  semanticWeight?: number;
+  rrfK?: number;
+}
+
+export interface HybridSearchResult {
+  movie: MovieDocument;
+  score: number;
+  matchedBy: SearchChannel[];
+  ranks: Partial<Record<SearchChannel, number>>;
+  breakdown?: FieldScores;
+  passage?: PlotPassage;
+}
+
+/**
+ * Hybrid search: runs the Mongo $text query and the vector search in parallel
+ * and fuses both rankings with reciprocal rank fusion. A failing channel is
+ * logged and treated as empty so the other one can still answer.
+ */
+export const searchMoviesHybrid = async (
+  query: string,
+  limit = 10,
+  options: HybridSearchOptions = {},
+): Promise<HybridSearchResult[]> => {
+  const { fieldWeights, lexicalWeight = 1, semanticWeight = 1, rrfK = 60 } = options;
+  const poolSize = limit * 2;
+
+  const [lexical, semantic] = await Promise.all([
+    searchMoviesByText(query, poolSize).catch((error) => {
+      logger.warn(
+        `Lexical search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return [];
+    }),
+    generateEmbedding(query)
+      .then((embedding) =>
+        searchMoviesByEmbedding(embedding, poolSize, { fieldWeights, query }),
+      )
+      .catch((error) => {
+        logger.warn(
+          `Semantic search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        return [];
+      }),
+  ]);
+
+  logger.info(
+    `Hybrid search: ${lexical.length} lexical hits, ${semantic.length} semantic hits`
+  );
+
+  const semanticById = new Map(
+    semantic.map((result) => [result.movie.id || result.movie._id?.toString(), result]),
+  );
+
+  const fused = reciprocalRankFusion<{ movie: MovieDocument; score: number }>(
+    [
+      { channel: 'lexical', items: lexical, weight: lexicalWeight },
+      { channel: 'semantic', items: semantic, weight: semanticWeight },
+    ],
+    ({ movie }) => movie.id || movie._id?.toString(),
+    rrfK,
+  );
+
+  return fused.slice(0, limit).map(({ item, score, ranks }) => {
+    const semanticMatch = semanticById.get(item.movie.id || item.movie._id?.toString());
+    return {
+      movie: item.movie,
+      score,
+      matchedBy: Object.keys(ranks) as SearchChannel[],
+      ranks,
+      breakdown: semanticMatch?.breakdown,
+      passage: semanticMatch?.passage,
+    };
+  });
 };
 
 export const getAllMovies = async (
@@ -194,30 +465,44 @@ export const updateMovie = async (
     { new: true }
   );
   
-  // Import here to avoid circular dependency
-  if (updatedMovie) {
-    const { regenerateMovieEmbeddings } = await import('./ingestionService');
-    // Regenerate embeddings based on the final updated movie state
-    // Pass the full updated movie payload to regenerate all relevant embeddings
-    const embeddingPayload = {
-      title: updatedMovie.title,
-      plot: updatedMovie.plot,
-      genres: updatedMovie.genres,
-      metadata: updatedMovie.metadata,
-      ...payload, // Override with any explicitly updated fields
-    };
-    // Regenerate embeddings asynchronously (don't await to avoid blocking the update response)
-    regenerateMovieEmbeddings(id, embeddingPayload).catch((error) => {
-      logger.error(
-        `Background embedding regeneration failed for movie ${id}:`,
-        error
-      );
-    });
+  // Fields that feed either the embeddings or the filterable vector payload
+  const vectorFields: (keyof CreateMovieDTO)[] = [
+    'title',
+    'plot',
+    'genres',
+    'director',
+    'releaseYear',
+    'rating',
+  ];
+  const affectsVectors = vectorFields.some((field) => payload[field] !== undefined);
+
+  if (updatedMovie && affectsVectors) {
+    // Import here to avoid circular dependency
+    const { enqueueEmbeddingJob } = await import('./ingestionService');
+    // Queued as a durable job: the worker re-reads the movie, so it always
+    // embeds the latest state and survives restarts
+    await enqueueEmbeddingJob(updatedMovie._id as Types.ObjectId, 'update');
   }
   
   return updatedMovie;
 };
 
+/**
+ * Remove vectors for deleted movies without failing the delete itself;
+ * anything left behind is picked up by sweepOrphanVectors
+ */
+const removeMovieEmbeddings = async (movieIds: string[]): Promise<void> => {
+  try {
+    await deleteMovieEmbeddings(movieIds);
+  } catch (error) {
+    logger.error(
+      `Failed to delete embeddings for movies ${movieIds.join(', ')}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
+
 export const deleteMovie = async (id: string): Promise<boolean> => {
   if (!Types.ObjectId.isValid(id)) {
     return false;
@@ -236,9 +521,30 @@ export const deleteMovie = async (id: string): Promise<boolean> => {
   }
   
   const result = await MovieModel.findByIdAndDelete(id);
+  if (result) {
+    await removeMovieEmbeddings([id]);
+    await deleteReviewsForMovies([id]);
+    await removeMoviesFromWatchlists([id]);
+    await deleteViewsForMovies([id]);
+  }
   return result !== null;
 };
 
+/**
+ * Delete several movies and their vectors (admin bulk delete)
+ */
+export const deleteMovies = async (ids: string[]): Promise<number> => {
+  const objectIds = ids.filter((id) => Types.ObjectId.isValid(id));
+  const result = await MovieModel.deleteMany({ _id: { $in: objectIds } });
+  if (result.deletedCount > 0) {
+    await removeMovieEmbeddings(objectIds);
+    await deleteReviewsForMovies(objectIds);
+    await removeMoviesFromWatchlists(objectIds);
+    await deleteViewsForMovies(objectIds);
+  }
+  return result.deletedCount;
+};
+
 export const updateMoviePosterImage = async (
   id: string,
   imageBuffer: Buffer,
@@ -413,6 +719,7 @@ export const dedupeMovies = async (): Promise<{ totalGroups: number; removed: nu
 
   let removed = 0;
   let kept = 0;
+  const removedIds: string[] = [];
 
   for (const [, group] of groups) {
     if (group.length <= 1) {
@@ -434,6 +741,7 @@ export const dedupeMovies = async (): Promise<{ totalGroups: number; removed: nu
     })[0];
 
     const survivorId = survivor._id;
+    const duplicateIds: string[] = [];
 
     for (const dup of group) {
       if (String(dup._id) === String(survivorId)) continue;
@@ -447,12 +755,129 @@ export const dedupeMovies = async (): Promise<{ totalGroups: number; removed: nu
       }
 
       await MovieModel.findByIdAndDelete(dup._id);
+      duplicateIds.push(String(dup._id));
       removed++;
     }
 
+    // What users added to the duplicates now belongs to the survivor
+    await moveReviewsToMovie(duplicateIds, String(survivorId));
+    await moveWatchlistItemsToMovie(duplicateIds, String(survivorId));
+    await moveViewsToMovie(duplicateIds, String(survivorId));
+    removedIds.push(...duplicateIds);
     kept++;
   }
 
+  if (removedIds.length > 0) {
+    await removeMovieEmbeddings(removedIds);
+  }
+
   return { totalGroups: groups.size, removed, kept };
 };
 
+
+/**
+ * Remove vectors whose movieId no longer exists in Mongo (orphans left by
+ * deletes that happened before vectors were cleaned up, or failed cleanups)
+ */
+export const sweepOrphanVectors = async (
+  dryRun = false,
+): Promise<{ scanned: number; movieIds: number; orphanMovieIds: string[] }> => {
+  const { scanned, movieIds } = await collectVectorMovieIds();
+
+  const validIds = Array.from(movieIds).filter((id) => Types.ObjectId.isValid(id));
+  const existing = new Set<string>();
+  // Check existence in batches to keep the $in list bounded
+  for (let i = 0; i < validIds.length; i += 500) {
+    const batch = validIds.slice(i, i + 500);
+    const docs = await MovieModel.find({ _id: { $in: batch } }).select('_id').lean();
+    docs.forEach((doc) => existing.add(String(doc._id)));
+  }
+
+  const orphanMovieIds = Array.from(movieIds).filter((id) => !existing.has(id));
+  logger.info(
+    `Orphan sweep scanned ${scanned} vectors for ${movieIds.size} movies, found ${orphanMovieIds.length} orphaned movie IDs`
+  );
+
+  if (!dryRun && orphanMovieIds.length > 0) {
+    await deleteMovieEmbeddings(orphanMovieIds);
+  }
+
+  return { scanned, movieIds: movieIds.size, orphanMovieIds };
+};
+
+/**
+ * Queue re-embedding for movies whose vectors were stored before they carried
+ * the filter payload (genres, year, rating, director); filtered semantic
+ * search cannot find them until then. Unchanged texts come from the
+ * embedding cache, so only the vectors' payload really changes.
+ */
+export const backfillVectorPayloads = async (
+  dryRun = false,
+): Promise<{ scanned: number; movieIds: string[] }> => {
+  const { scanned, movieIds: missing } = await collectMoviesWithoutFilterPayload();
+
+  const validIds = Array.from(missing).filter((id) => Types.ObjectId.isValid(id));
+  const movieIds: string[] = [];
+  for (let i = 0; i < validIds.length; i += 500) {
+    const movies = await MovieModel.find({ _id: { $in: validIds.slice(i, i + 500) } })
+      .select('genres releaseYear rating director')
+      .lean();
+    // Movies without any filterable field have nothing to backfill
+    movies
+      .filter(
+        (movie) =>
+          movie.genres?.length ||
+          typeof movie.releaseYear === 'number' ||
+          typeof movie.rating === 'number' ||
+          movie.director,
+      )
+      .forEach((movie) => movieIds.push(String(movie._id)));
+  }
+  logger.info(
+    `Payload backfill scanned ${scanned} vectors, found ${movieIds.length} movie(s) without filter payload`
+  );
+
+  if (!dryRun && movieIds.length > 0) {
+    // Import here to avoid circular dependency
+    const { enqueueEmbeddingJob } = await import('./ingestionService');
+    for (const movieId of movieIds) {
+      await enqueueEmbeddingJob(movieId, 'update');
+    }
+  }
+
+  return { scanned, movieIds };
+};
+
+const sameWeights = (a: Record<string, unknown> = {}, b: Record<string, unknown> = {}): boolean =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([key, val]) => b[key] === val);
+
+/**
+ * Replace a text index on movies that differs from the schema's (the original
+ * unweighted `{ title, plot }` index, or older weights). MongoDB allows only
+ * one text index per collection, so Mongoose cannot build the new one while
+ * the old one exists.
+ */
+export const syncMovieTextIndex = async (): Promise<void> => {
+  let existing: Awaited<ReturnType<typeof MovieModel.collection.indexes>>;
+  try {
+    existing = await MovieModel.collection.indexes();
+  } catch (error) {
+    // No movies collection yet; Mongoose builds the index with it
+    if ((error as { code?: number }).code === 26) return;
+    throw error;
+  }
+
+  const wanted = MovieModel.schema.indexes().find(([, options]) => options.name === MOVIE_TEXT_INDEX);
+  const stale = existing.filter(
+    ({ key, name, weights }) =>
+      key._fts === 'text' && (name !== MOVIE_TEXT_INDEX || !sameWeights(weights, wanted?.[1].weights)),
+  );
+  if (stale.length === 0) return;
+
+  for (const { name } of stale) {
+    logger.info(`Dropping outdated movie text index ${name}`);
+    await MovieModel.collection.dropIndex(name!);
+  }
+  await MovieModel.createIndexes();
+  logger.info(`✓ Rebuilt movie text index ${MOVIE_TEXT_INDEX}`);
+};
@@ -0,0 +1,200 @@
+import { Types } from 'mongoose';
+import { MovieModel } from '../models/Movie';
+import { MovieViewModel } from '../models/MovieView';
+import { MAX_STARS, ReviewModel } from '../models/Review';
+import { WatchlistModel } from '../models/Watchlist';
+import { searchMoviesByEmbedding, type SemanticSearchResult } from './movieService';
+import { diversifyMovies, getStoredMovieVectors } from './vectorSearchService';
+
+// Ratings are centred on this many stars: higher ratings pull the profile
+// towards a movie, lower ones push it away (5 stars = +1, 1 star = -1)
+const NEUTRAL_STARS = 3;
+// Implicit signals count for less than a 5-star rating
+const WATCHLIST_WEIGHT = 0.5;
+const VIEW_WEIGHT = 0.2;
+// Repeat visits add weight up to this many views
+const MAX_COUNTED_VIEWS = 3;
+// A signal loses half its weight every this many days
+const HALF_LIFE_DAYS = 90;
+// Most recent signals of each kind that make up the profile
+const MAX_SIGNALS_PER_KIND = 100;
+// Extra candidates searched per result when diversifying
+const DIVERSITY_CANDIDATE_FACTOR = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TasteSignalKind = 'rating' | 'watchlist' | 'view';
+
+interface TasteSignal {
+  movieId: string;
+  kind: TasteSignalKind;
+  // Before time decay; negative for disliked movies
+  weight: number;
+  at: Date;
+}
+
+export interface TasteProfile {
+  vector: number[];
+  // Movies the profile was built from (with stored vectors), per signal kind
+  basedOn: Record<TasteSignalKind, number>;
+  // Every movie the user has rated, saved or viewed; never recommended
+  seenMovieIds: string[];
+}
+
+export interface PersonalRecommendations {
+  // Null when the user has no positive signals with stored vectors yet
+  basedOn: Record<TasteSignalKind, number> | null;
+  results: SemanticSearchResult[];
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return norm === 0 ? vector : vector.map((val) => val / norm);
+};
+
+const decay = (at: Date, now: number): number =>
+  Math.pow(0.5, Math.max(0, now - at.getTime()) / DAY_MS / HALF_LIFE_DAYS);
+
+/**
+ * Record that a user opened a movie's page
+ */
+export const recordMovieView = async (userId: string, movieId: string): Promise<void> => {
+  await MovieViewModel.updateOne(
+    { user: userId, movie: movieId },
+    { $inc: { viewCount: 1 }, $set: { lastViewedAt: new Date() } },
+    { upsert: true },
+  );
+};
+
+const collectSignals = async (userId: string): Promise<TasteSignal[]> => {
+  const [reviews, watchlists, views] = await Promise.all([
+    ReviewModel.find({ user: userId }).sort({ updatedAt: -1 }).limit(MAX_SIGNALS_PER_KIND),
+    WatchlistModel.find({ user: userId }).select('items'),
+    MovieViewModel.find({ user: userId }).sort({ lastViewedAt: -1 }).limit(MAX_SIGNALS_PER_KIND),
+  ]);
+
+  const saved = watchlists
+    .flatMap(({ items }) => items)
+    .sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime())
+    .slice(0, MAX_SIGNALS_PER_KIND);
+
+  return [
+    ...reviews.map(({ movie, stars, updatedAt }) => ({
+      movieId: movie.toString(),
+      kind: 'rating' as const,
+      weight: (stars - NEUTRAL_STARS) / (MAX_STARS - NEUTRAL_STARS),
+      at: updatedAt,
+    })),
+    ...saved.map(({ movie, addedAt }) => ({
+      movieId: movie.toString(),
+      kind: 'watchlist' as const,
+      weight: WATCHLIST_WEIGHT,
+      at: addedAt,
+    })),
+    ...views.map(({ movie, viewCount, lastViewedAt }) => ({
+      movieId: movie.toString(),
+      kind: 'view' as const,
+      weight: VIEW_WEIGHT * Math.min(viewCount, MAX_COUNTED_VIEWS),
+      at: lastViewedAt,
+    })),
+  ];
+};
+
+/**
+ * A user's taste as a single vector: the sum of the stored vectors of movies
+ * they rated, saved to a watchlist or viewed, each weighted by its signal and
+ * halved every HALF_LIFE_DAYS. A rating is explicit, so it replaces the
+ * implicit signals for that movie. Returns null when nothing positive is left
+ * to build from.
+ */
+export const buildTasteProfile = async (userId: string): Promise<TasteProfile | null> => {
+  const signals = await collectSignals(userId);
+  const seenMovieIds = [...new Set(signals.map(({ movieId }) => movieId))];
+  if (seenMovieIds.length === 0) return null;
+
+  const now = Date.now();
+  const byMovie = new Map<string, { weight: number; kinds: Set<TasteSignalKind> }>();
+  signals.forEach(({ movieId, kind, weight, at }) => {
+    const decayed = weight * decay(at, now);
+    const entry = byMovie.get(movieId);
+    if (!entry || kind === 'rating') {
+      byMovie.set(movieId, { weight: decayed, kinds: new Set([kind]) });
+    } else if (!entry.kinds.has('rating')) {
+      entry.weight += decayed;
+      entry.kinds.add(kind);
+    }
+  });
+
+  const movies = await MovieModel.find({ _id: { $in: seenMovieIds } }).select('embeddingKeys');
+  const vectors = await getStoredMovieVectors(
+    movies.map((movie) => ({ id: movie.id as string, embeddingKeys: movie.embeddingKeys })),
+  );
+
+  let profile: number[] | null = null;
+  let positiveWeight = 0;
+  const basedOn: Record<TasteSignalKind, number> = { rating: 0, watchlist: 0, view: 0 };
+  for (const [movieId, { weight, kinds }] of byMovie) {
+    const vector = vectors.get(movieId);
+    if (!vector || weight === 0) continue;
+    const sum = (profile ??= new Array<number>(vector.length).fill(0));
+    vector.forEach((val, i) => (sum[i]! += weight * val));
+    if (weight > 0) positiveWeight += weight;
+    kinds.forEach((kind) => basedOn[kind]++);
+  }
+
+  // Dislikes alone say what to avoid, not what to recommend
+  if (!profile || positiveWeight === 0) return null;
+  return { vector: normalize(profile), basedOn, seenMovieIds };
+};
+
+export interface PersonalRecommendationOptions {
+  limit?: number;
+  diversity?: number;
+}
+
+/**
+ * "For you": unseen movies nearest to the user's taste profile (see
+ * buildTasteProfile). Movies the user rated, saved or viewed are left out.
+ */
+export const recommendForUser = async (
+  userId: string,
+  { limit = 10, diversity = 0 }: PersonalRecommendationOptions = {},
+): Promise<PersonalRecommendations> => {
+  if (!Types.ObjectId.isValid(userId)) return { basedOn: null, results: [] };
+  const profile = await buildTasteProfile(userId);
+  if (!profile) return { basedOn: null, results: [] };
+
+  const seen = new Set(profile.seenMovieIds);
+  const candidates = diversity > 0 ? limit * DIVERSITY_CANDIDATE_FACTOR : limit;
+  const unseen = (await searchMoviesByEmbedding(profile.vector, candidates + seen.size)).filter(
+    ({ movie }) => !seen.has(movie.id as string),
+  );
+
+  const results = await diversifyMovies(unseen, limit, diversity, {
+    movie: ({ movie }) => ({ id: movie.id as string, embeddingKeys: movie.embeddingKeys }),
+    relevance: ({ score }) => score,
+  });
+  return { basedOn: profile.basedOn, results };
+};
+
+/**
+ * Forget views of deleted movies
+ */
+export const deleteViewsForMovies = async (movieIds: string[]): Promise<void> => {
+  await MovieViewModel.deleteMany({ movie: { $in: movieIds } });
+};
+
+/**
+ * Add the views of duplicate movies to the movie they were merged into
+ */
+export const moveViewsToMovie = async (fromMovieIds: string[], toMovieId: string): Promise<void> => {
+  const views = await MovieViewModel.find({ movie: { $in: fromMovieIds } });
+  for (const { user, viewCount, lastViewedAt } of views) {
+    await MovieViewModel.updateOne(
+      { user, movie: toMovieId },
+      { $inc: { viewCount }, $max: { lastViewedAt } },
+      { upsert: true },
+    );
+  }
+  await deleteViewsForMovies(fromMovieIds);
+};
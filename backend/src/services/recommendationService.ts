@@ -1,7 +1,12 @@
+import { Types } from 'mongoose';
 import { MovieModel, type MovieDocument } from '../models/Movie';
 import { asyncHandler } from '../utils/asyncHandler';
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { diversifyMovies } from './vectorSearchService';
+import { recommendBlended } from './blendedRecommendationService';
+import { recommendForUser } from './personalRecommendationService';
+import { blendWeightsParam, DEFAULT_BLEND_WEIGHTS } from '../utils/blendWeights';
 import { z } from 'zod';
 
 /**
@@ -99,10 +104,12 @@ export const getTopRatedByGenre = asyncHandler(async (req: Request, res: Respons
  */
 export const getEnhancedRecommendations = asyncHandler(
   async (req: Request, res: Response) => {
-    const { movieId, limit } = z
+    const { movieId, limit, diversity } = z
       .object({
         movieId: z.string().min(1),
         limit: z.coerce.number().min(1).max(20).default(10),
+        // 0-1: re-rank with MMR over the stored vectors to avoid near-duplicates
+        diversity: z.coerce.number().min(0).max(1).default(0),
       })
       .parse(req.query);
 
@@ -117,7 +124,9 @@ export const getEnhancedRecommendations = asyncHandler(
       // 1. Shared genres
       // 2. Similar release year
       // 3. Similar rating range
-      const recommendations = await MovieModel.aggregate([
+      // Diversity re-ranking picks from a wider candidate list
+      const candidates = diversity > 0 ? limit * 3 : limit;
+      const ranked = await MovieModel.aggregate([
         {
           $match: {
             _id: { $ne: movie._id },
@@ -176,7 +185,7 @@ export const getEnhancedRecommendations = asyncHandler(
           },
         },
         { $sort: { score: -1 } },
-        { $limit: limit },
+        { $limit: candidates },
         {
           $project: {
             id: '$_id',
@@ -189,10 +198,20 @@ export const getEnhancedRecommendations = asyncHandler(
             director: 1,
             plot: 1,
             score: 1,
+            embeddingKeys: 1,
           },
         },
       ]);
 
+      // Points-based scores are scaled to 0-1 to be comparable with cosine similarity
+      const topScore = Math.max(...ranked.map((rec) => rec.score), 1);
+      const recommendations = (
+        await diversifyMovies(ranked, limit, diversity, {
+          movie: (rec) => ({ id: String(rec._id), embeddingKeys: rec.embeddingKeys }),
+          relevance: (rec) => rec.score / topScore,
+        })
+      ).map(({ embeddingKeys: _embeddingKeys, ...rec }) => rec);
+
       res.json({
         baseMovie: {
           id: movie.id,
@@ -209,6 +228,104 @@ export const getEnhancedRecommendations = asyncHandler(
   }
 );
 
+/**
+ * Recommendations blending vector similarity with genre, cast, director,
+ * era and rating signals; every result carries its per-feature breakdown
+ */
+export const getBlendedRecommendations = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { limit, weights, diversity } = z
+    .object({
+      limit: z.coerce.number().min(1).max(20).default(10),
+      // e.g. weights=semantic:0.6,genres:0.2; unlisted features keep their defaults
+      weights: blendWeightsParam.optional(),
+      diversity: z.coerce.number().min(0).max(1).default(0),
+    })
+    .parse(req.query);
+
+  if (!Types.ObjectId.isValid(id)) {
+    return res.status(404).json({ message: 'Movie not found' });
+  }
+
+  try {
+    const movie = await MovieModel.findById(id);
+    if (!movie) {
+      return res.status(404).json({ message: 'Movie not found' });
+    }
+
+    const appliedWeights = weights ?? DEFAULT_BLEND_WEIGHTS;
+    const recommendations = await recommendBlended(movie, {
+      limit,
+      weights: appliedWeights,
+      diversity,
+    });
+
+    res.json({
+      baseMovie: {
+        id: movie.id,
+        title: movie.title,
+        genres: movie.genres,
+      },
+      weights: appliedWeights,
+      count: recommendations.length,
+      results: recommendations.map(({ movie: rec, score, breakdown }) => ({
+        id: rec.id,
+        title: rec.title,
+        rating: rec.rating,
+        genres: rec.genres,
+        releaseYear: rec.releaseYear,
+        director: rec.director,
+        posterUrl: rec.posterUrl,
+        posterGridFSId: rec.posterGridFSId?.toString(),
+        score,
+        breakdown,
+      })),
+    });
+  } catch (error) {
+    logger.error(`Failed to get blended recommendations for movie ${id}`, error);
+    throw error;
+  }
+});
+
+/**
+ * "For you" recommendations for the signed-in user, from a taste profile
+ * built from their ratings, watchlists and viewed movies
+ */
+export const getPersonalRecommendations = asyncHandler(async (req: Request, res: Response) => {
+  const { limit, diversity } = z
+    .object({
+      limit: z.coerce.number().min(1).max(50).default(10),
+      diversity: z.coerce.number().min(0).max(1).default(0),
+    })
+    .parse(req.query);
+
+  try {
+    const { basedOn, results } = await recommendForUser(req.user!.id, { limit, diversity });
+
+    res.json({
+      // Null until the user has rated, saved or viewed a movie with embeddings
+      basedOn,
+      count: results.length,
+      results: results.map(({ movie, score }) => ({
+        id: movie.id,
+        title: movie.title,
+        rating: movie.rating,
+        communityRating: movie.communityRating,
+        ratingCount: movie.ratingCount,
+        genres: movie.genres,
+        cast: movie.cast,
+        releaseYear: movie.releaseYear,
+        posterUrl: movie.posterUrl,
+        posterGridFSId: movie.posterGridFSId?.toString(),
+        score,
+      })),
+    });
+  } catch (error) {
+    logger.error(`Failed to get personal recommendations for user ${req.user!.id}`, error);
+    throw error;
+  }
+});
+
 /**
  * Get popular movies (most recently rated/viewed)
  */
@@ -0,0 +1,229 @@
+import { Types } from 'mongoose';
+import { MovieModel } from '../models/Movie';
+import { ReviewModel, type ReviewDocument } from '../models/Review';
+import type { UserDocument } from '../models/User';
+import type { AuthUser } from './authService';
+
+export class AlreadyReviewedError extends Error {
+  constructor() {
+    super('You have already reviewed this movie; edit your review instead');
+    this.name = 'AlreadyReviewedError';
+  }
+}
+
+/**
+ * Only the author (or an admin, for deletion) may change a review
+ */
+export class ReviewForbiddenError extends Error {
+  constructor(message = 'You can only change your own reviews') {
+    super(message);
+    this.name = 'ReviewForbiddenError';
+  }
+}
+
+export interface ReviewInput {
+  stars: number;
+  text?: string;
+}
+
+export interface PublicReview {
+  id: string;
+  movieId: string;
+  author: { id: string; name: string };
+  stars: number;
+  text?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MovieRatingSummary {
+  // Mean stars, rounded to one decimal; absent until the first review
+  communityRating?: number;
+  ratingCount: number;
+}
+
+// Populated author; null once the account is gone
+type ReviewAuthor = { user: Pick<UserDocument, 'id' | 'name' | 'email'> | null };
+const AUTHOR_FIELDS = 'name email';
+
+// Reviews are public, so authors are shown by name and never by email address
+const toPublicReview = (review: Omit<ReviewDocument, 'user'> & ReviewAuthor): PublicReview => ({
+  id: review.id,
+  movieId: review.movie.toString(),
+  author: {
+    id: review.user?.id ?? '',
+    name: review.user?.name || review.user?.email.split('@')[0] || 'Former user',
+  },
+  stars: review.stars,
+  text: review.text,
+  createdAt: review.createdAt,
+  updatedAt: review.updatedAt,
+});
+
+const findPublicReview = async (reviewId: Types.ObjectId): Promise<PublicReview> => {
+  const review = await ReviewModel.findById(reviewId).populate<ReviewAuthor>('user', AUTHOR_FIELDS);
+  return toPublicReview(review!);
+};
+
+/**
+ * Recompute a movie's community rating and vote count from its reviews.
+ * Recomputing (rather than adjusting by each change) keeps the numbers right
+ * under concurrent edits.
+ */
+export const refreshMovieRating = async (movieId: Types.ObjectId | string): Promise<MovieRatingSummary> => {
+  const [stats] = await ReviewModel.aggregate<{ average: number; count: number }>([
+    { $match: { movie: new Types.ObjectId(movieId.toString()) } },
+    { $group: { _id: null, average: { $avg: '$stars' }, count: { $sum: 1 } } },
+  ]);
+
+  const summary: MovieRatingSummary = stats
+    ? { communityRating: Math.round(stats.average * 10) / 10, ratingCount: stats.count }
+    : { ratingCount: 0 };
+  await MovieModel.updateOne(
+    { _id: movieId },
+    stats
+      ? { $set: summary }
+      : { $set: { ratingCount: 0 }, $unset: { communityRating: 1 } },
+  );
+  return summary;
+};
+
+/**
+ * A movie's reviews, newest first. Returns null if the movie does not exist.
+ */
+export const listMovieReviews = async (
+  movieId: string,
+  { page = 1, limit = 10 }: { page?: number; limit?: number } = {},
+): Promise<
+  | ({ reviews: PublicReview[]; total: number; page: number; totalPages: number } & MovieRatingSummary)
+  | null
+> => {
+  if (!Types.ObjectId.isValid(movieId)) return null;
+  const movie = await MovieModel.findById(movieId, { communityRating: 1, ratingCount: 1 });
+  if (!movie) return null;
+
+  const [reviews, total] = await Promise.all([
+    ReviewModel.find({ movie: movieId })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate<ReviewAuthor>('user', AUTHOR_FIELDS),
+    ReviewModel.countDocuments({ movie: movieId }),
+  ]);
+
+  return {
+    reviews: reviews.map(toPublicReview),
+    total,
+    page,
+    totalPages: Math.max(1, Math.ceil(total / limit)),
+    communityRating: movie.communityRating,
+    ratingCount: movie.ratingCount ?? 0,
+  };
+};
+
+/**
+ * The signed-in user's review of a movie, if any
+ */
+export const getUserReview = async (movieId: string, userId: string): Promise<PublicReview | null> => {
+  if (!Types.ObjectId.isValid(movieId)) return null;
+  const review = await ReviewModel.findOne({ movie: movieId, user: userId }).populate<ReviewAuthor>(
+    'user',
+    AUTHOR_FIELDS,
+  );
+  return review ? toPublicReview(review) : null;
+};
+
+/**
+ * Add the user's review of a movie. Returns null if the movie does not exist.
+ */
+export const createReview = async (
+  movieId: string,
+  user: AuthUser,
+  input: ReviewInput,
+): Promise<{ review: PublicReview; rating: MovieRatingSummary } | null> => {
+  if (!Types.ObjectId.isValid(movieId) || !(await MovieModel.exists({ _id: movieId }))) {
+    return null;
+  }
+
+  let review: ReviewDocument;
+  try {
+    review = await ReviewModel.create({ movie: movieId, user: user.id, ...input });
+  } catch (error) {
+    // Duplicate key on the (movie, user) index
+    if ((error as { code?: number }).code === 11000) {
+      throw new AlreadyReviewedError();
+    }
+    throw error;
+  }
+
+  const rating = await refreshMovieRating(movieId);
+  return { review: await findPublicReview(review._id as Types.ObjectId), rating };
+};
+
+/**
+ * Edit a review; only its author may. Returns null if the review does not exist.
+ */
+export const updateReview = async (
+  reviewId: string,
+  user: AuthUser,
+  input: Partial<ReviewInput>,
+): Promise<{ review: PublicReview; rating: MovieRatingSummary } | null> => {
+  if (!Types.ObjectId.isValid(reviewId)) return null;
+  const review = await ReviewModel.findById(reviewId);
+  if (!review) return null;
+  if (review.user.toString() !== user.id) {
+    throw new ReviewForbiddenError();
+  }
+
+  if (input.stars !== undefined) review.stars = input.stars;
+  if (input.text !== undefined) review.text = input.text;
+  await review.save();
+
+  const rating = await refreshMovieRating(review.movie);
+  return { review: await findPublicReview(review._id as Types.ObjectId), rating };
+};
+
+/**
+ * Delete a review; its author or an admin may. Returns null if the review
+ * does not exist.
+ */
+export const deleteReview = async (
+  reviewId: string,
+  user: AuthUser,
+): Promise<{ rating: MovieRatingSummary } | null> => {
+  if (!Types.ObjectId.isValid(reviewId)) return null;
+  const review = await ReviewModel.findById(reviewId);
+  if (!review) return null;
+  if (review.user.toString() !== user.id && user.role !== 'admin') {
+    throw new ReviewForbiddenError('You can only delete your own reviews');
+  }
+
+  await review.deleteOne();
+  return { rating: await refreshMovieRating(review.movie) };
+};
+
+/**
+ * Remove the reviews of deleted movies
+ */
+export const deleteReviewsForMovies = async (movieIds: string[]): Promise<void> => {
+  await ReviewModel.deleteMany({ movie: { $in: movieIds } });
+};
+
+/**
+ * Move the reviews of duplicate movies to the movie they were merged into and
+ * recompute its rating. A user who reviewed both keeps the review already on
+ * the surviving movie.
+ */
+export const moveReviewsToMovie = async (fromMovieIds: string[], toMovieId: string): Promise<void> => {
+  const reviews = await ReviewModel.find({ movie: { $in: fromMovieIds } });
+  for (const review of reviews) {
+    try {
+      await ReviewModel.updateOne({ _id: review._id }, { $set: { movie: toMovieId } }, { timestamps: false });
+    } catch (error) {
+      // Duplicate key on the (movie, user) index: the user already reviewed it
+      if ((error as { code?: number }).code !== 11000) throw error;
+      await review.deleteOne();
+    }
+  }
+  await refreshMovieRating(toMovieId);
+};
@@ -0,0 +1,163 @@
+import type { MovieDocument } from '../models/Movie';
+import { generateEmbedding, generateEmbeddings } from './embeddingService';
+import type { PlotPassage } from './movieService';
+import type { SearchFilters } from '../utils/filterBuilder';
+import type { EmbeddingField, FieldScores } from '../utils/fieldWeights';
+import { findTerms, highlightTerms, queryTerms, type HighlightRange } from '../utils/highlight';
+import { splitSentences } from '../utils/textChunker';
+import { logger } from '../utils/logger';
+
+// Plot sentences compared with the query per movie
+const MAX_SENTENCES = 12;
+
+export interface KeywordMatch {
+  term: string;
+  // Movie fields containing the term: title, genres, cast, director, plot
+  fields: string[];
+}
+
+export interface BestSentence {
+  text: string;
+  // Character offsets into the movie's plot
+  start: number;
+  end: number;
+  score: number;
+  highlights: HighlightRange[];
+}
+
+/**
+ * Why a search result matched: the embedding source that scored best, the
+ * plot sentence closest to the query, shared keywords and the applied filters
+ */
+export interface SearchExplanation {
+  matchedSource?: EmbeddingField;
+  sourceScores: FieldScores;
+  bestSentence?: BestSentence;
+  keywords: KeywordMatch[];
+  filters: string[];
+}
+
+export interface ExplainableResult {
+  movie: MovieDocument;
+  breakdown?: FieldScores;
+  passage?: PlotPassage;
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+/**
+ * Human-readable list of the filters a search applied, e.g. ["genres: Drama", "rating ≥ 7"]
+ */
+export const describeFilters = (filters: SearchFilters = {}): string[] => {
+  const applied: string[] = [];
+  if (filters.genres?.length) applied.push(`genres: ${filters.genres.join(', ')}`);
+  if (filters.minRating !== undefined) applied.push(`rating ≥ ${filters.minRating}`);
+  if (filters.maxRating !== undefined) applied.push(`rating ≤ ${filters.maxRating}`);
+  if (filters.minYear !== undefined) applied.push(`year ≥ ${filters.minYear}`);
+  if (filters.maxYear !== undefined) applied.push(`year ≤ ${filters.maxYear}`);
+  if (filters.director) applied.push(`director: ${filters.director}`);
+  return applied;
+};
+
+const bestSource = (scores: FieldScores): EmbeddingField | undefined => {
+  let best: EmbeddingField | undefined;
+  for (const [field, score] of Object.entries(scores) as [EmbeddingField, number][]) {
+    if (best === undefined || score > (scores[best] ?? -Infinity)) best = field;
+  }
+  return best;
+};
+
+/**
+ * Sentences to compare with the query: those of the best-matching plot
+ * passage when there is one, otherwise the start of the plot
+ */
+const candidateSentences = ({ movie, passage }: ExplainableResult) => {
+  if (!movie.plot) return [];
+  const base = passage?.start ?? 0;
+  return splitSentences(passage?.text ?? movie.plot)
+    .slice(0, MAX_SENTENCES)
+    .map((sentence) => ({
+      text: sentence.text,
+      start: base + sentence.start,
+      end: base + sentence.end,
+    }));
+};
+
+/**
+ * Build one explanation per result, in order. Sentences of all results are
+ * embedded in one batch; if embedding fails the explanations are returned
+ * without `bestSentence`.
+ */
+export const explainSearchResults = async (
+  query: string,
+  results: ExplainableResult[],
+  filters?: SearchFilters,
+): Promise<SearchExplanation[]> => {
+  const terms = queryTerms(query);
+  const appliedFilters = describeFilters(filters);
+  const candidates = results.map(candidateSentences);
+
+  let queryVector: number[] | undefined;
+  let sentenceVectors: number[][] = [];
+  try {
+    [queryVector, sentenceVectors] = await Promise.all([
+      generateEmbedding(query),
+      generateEmbeddings(candidates.flat().map(({ text }) => text)),
+    ]);
+  } catch (error) {
+    logger.warn(
+      `Could not score plot sentences for explanations: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+
+  let offset = 0;
+  return results.map(({ movie, breakdown = {} }, idx) => {
+    const sentences = candidates[idx]!;
+    let bestSentence: BestSentence | undefined;
+    if (queryVector) {
+      sentences.forEach((sentence, i) => {
+        const score = cosineSimilarity(queryVector!, sentenceVectors[offset + i] ?? []);
+        if (!bestSentence || score > bestSentence.score) {
+          bestSentence = { ...sentence, score, highlights: highlightTerms(sentence.text, query) };
+        }
+      });
+    }
+    offset += sentences.length;
+
+    const fieldTexts: Record<string, string> = {
+      title: movie.title,
+      genres: movie.genres.join(' '),
+      cast: movie.cast.join(' '),
+      director: movie.director ?? '',
+      plot: movie.plot ?? '',
+    };
+    const keywords = terms
+      .map((term) => ({
+        term,
+        fields: Object.keys(fieldTexts).filter(
+          (field) => findTerms(fieldTexts[field]!, [term]).length > 0,
+        ),
+      }))
+      .filter(({ fields }) => fields.length > 0);
+
+    return {
+      matchedSource: bestSource(breakdown),
+      sourceScores: breakdown,
+      ...(bestSentence && { bestSentence }),
+      keywords,
+      filters: appliedFilters,
+    };
+  });
+};
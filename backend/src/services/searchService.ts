@@ -6,6 +6,16 @@ import { logger } from '../utils/logger';
 import { buildFilterQuery, getAvailableGenres, getYearRange, getDirectors } from '../utils/filterBuilder';
 import { generateEmbedding } from './embeddingService';
 import { searchMoviesByEmbedding } from './movieService';
+import { fieldsParam, weightsParam, resolveFieldWeights } from '../utils/fieldWeights';
+import { explainSearchResults } from './searchExplanationService';
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchRankedPage,
+  InvalidCursorError,
+  searchFingerprint,
+  type SearchCursor,
+} from '../utils/searchCursor';
 
 const filterSchema = z.object({
   q: z.string().min(1).optional(),
@@ -18,6 +28,13 @@ const filterSchema = z.object({
   limit: z.coerce.number().min(1).max(50).optional(),
   sortBy: z.enum(['rating', 'releaseYear', 'createdAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
+  fields: fieldsParam.optional(), // e.g. plot,genre
+  weights: weightsParam.optional(), // e.g. plot:0.6,genre:0.3,title:0.1
+  cursor: z.string().min(1).optional(), // nextCursor from the previous page
+  explain: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'), // Attach match explanations (with q only)
 });
 
 /**
@@ -38,53 +55,74 @@ export const advancedSearch = asyncHandler(async (req: Request, res: Response) =
   const limit = params.limit || 20;
   const sortBy = params.sortBy || 'createdAt';
   const sortOrder = params.sortOrder === 'asc' ? 1 : -1;
+  const query = params.q?.trim() ? params.q : undefined;
+  const fieldWeights = resolveFieldWeights(params.fields, params.weights);
+
+  // Sorting only matters without a query; a cursor only works for the same values
+  const fingerprint = searchFingerprint({
+    q: query,
+    filters,
+    fieldWeights,
+    ...(!query && { sortBy, sortOrder }),
+  });
+  let position: SearchCursor = { offset: 0 };
+  if (params.cursor) {
+    try {
+      position = decodeCursor(params.cursor, fingerprint);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+  }
 
   try {
     let results: any[] = [];
-
-    // If semantic search query provided, use vector search first then filter
-    if (params.q && params.q.trim()) {
-      logger.info(`Advanced search with query: "${params.q}"`, { filters });
-
-      const embedding = await generateEmbedding(params.q);
-      const vectorResults = await searchMoviesByEmbedding(embedding, limit * 2);
-
-      // Apply filters to vector results
-      const filterQuery = buildFilterQuery(filters);
-      results = await Promise.all(
-        vectorResults.map(async ({ movie, score }) => {
-          // Check if movie matches all filters
-          const matchesFilters = await MovieModel.findOne({
-            _id: movie._id,
-            ...filterQuery,
-          });
-
-          if (matchesFilters) {
-            return { movie: matchesFilters, score };
-          }
-          return null;
-        })
-      );
-
-      results = results.filter(Boolean).slice(0, limit);
+    let next: SearchCursor | undefined;
+    let explanations: Awaited<ReturnType<typeof explainSearchResults>> | undefined;
+
+    // If semantic search query provided, push filters down into the vector search
+    if (query) {
+      logger.info(`Advanced search with query: "${query}"`, { filters });
+
+      const embedding = await generateEmbedding(query);
+      ({ page: results, next } = await fetchRankedPage(
+        (depth) => searchMoviesByEmbedding(embedding, depth, { filters, fieldWeights, query }),
+        position,
+        limit,
+        ({ movie }) => movie.id || movie._id?.toString(),
+        ({ score }) => score,
+      ));
+      if (params.explain) {
+        explanations = await explainSearchResults(query, results, filters);
+      }
     } else {
       // No semantic search, just use filters and sorting
       logger.info('Advanced search with filters only', { filters });
 
       const filterQuery = buildFilterQuery(filters);
-      const sort: Record<string, 1 | -1> = { [sortBy]: sortOrder };
+      // _id breaks ties so pages never overlap
+      const sort: Record<string, 1 | -1> = { [sortBy]: sortOrder, _id: sortOrder };
 
       const movies = await MovieModel.find(filterQuery)
         .sort(sort)
-        .limit(limit)
+        .skip(position.offset)
+        .limit(limit + 1)
         .lean();
+      if (movies.length > limit) {
+        next = { offset: position.offset + limit };
+      }
 
-      results = movies.map((movie) => ({ movie, score: null }));
+      results = movies
+        .slice(0, limit)
+        .map((movie) => ({ movie, score: null, breakdown: null, passage: null }));
     }
 
     res.json({
       count: results.length,
-      results: results.map(({ movie, score }) => ({
+      nextCursor: next ? encodeCursor(fingerprint, next) : null,
+      results: results.map(({ movie, score, breakdown, passage }, idx) => ({
         id: movie.id || movie._id?.toString(),
         title: movie.title,
         genres: movie.genres,
@@ -94,7 +132,9 @@ export const advancedSearch = asyncHandler(async (req: Request, res: Response) =
         director: movie.director,
         posterUrl: movie.posterUrl,
         posterGridFSId: movie.posterGridFSId?.toString(),
-        ...(score !== null && { score }),
+        ...(score !== null && { score, breakdown }),
+        ...(passage && { passage }),
+        ...(explanations && { explanation: explanations[idx] }),
       })),
     });
   } catch (error) {
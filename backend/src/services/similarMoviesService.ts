@@ -0,0 +1,113 @@
+import { getVectorStore } from '../config/vectorClient';
+import type { MovieDocument } from '../models/Movie';
+import {
+  searchMoviesByEmbedding,
+  searchMoviesByVectorIds,
+  type SemanticSearchResult,
+} from './movieService';
+import {
+  getStoredMovieVectors,
+  movieVectorIds,
+  MOVIE_VECTOR_SOURCES,
+  type MovieVectorSource,
+  type StoredMovieRef,
+} from './vectorSearchService';
+import type { VectorStore } from './vectorStores';
+
+/**
+ * The movies to search from have no stored embedding yet
+ */
+export class MissingEmbeddingsError extends Error {
+  constructor(message = 'Seed movies have no stored embeddings yet; wait for ingestion or re-embed them') {
+    super(message);
+    this.name = 'MissingEmbeddingsError';
+  }
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return norm === 0 ? vector : vector.map((val) => val / norm);
+};
+
+const mean = (vectors: number[][]): number[] => {
+  const sum = new Array<number>(vectors[0]!.length).fill(0);
+  vectors.forEach((vector) => vector.forEach((val, i) => (sum[i]! += val)));
+  return sum.map((val) => val / vectors.length);
+};
+
+const movieKey = (movie: MovieDocument): string => movie.id;
+
+const toStoredRef = (movie: MovieDocument): StoredMovieRef => ({
+  id: movieKey(movie),
+  embeddingKeys: movie.embeddingKeys,
+});
+
+const sourceOf = (vectorId: string): string => vectorId.split(':')[1] ?? '';
+
+export interface MoviesLikeTheseOptions {
+  limit?: number;
+  // How strongly negative examples push the query away (0 ignores them)
+  negativeWeight?: number;
+}
+
+/**
+ * "More like these": search from the centroid of the seeds' stored vectors,
+ * moved away from the centroid of the negative examples (Rocchio-style:
+ * q = mean(seeds) - negativeWeight * mean(negatives)). Seeds and negatives
+ * are excluded from the results.
+ */
+export const searchMoviesLikeThese = async (
+  seeds: MovieDocument[],
+  negatives: MovieDocument[] = [],
+  { limit = 10, negativeWeight = 0.5 }: MoviesLikeTheseOptions = {},
+): Promise<SemanticSearchResult[]> => {
+  const vectors = await getStoredMovieVectors([...seeds, ...negatives].map(toStoredRef));
+  const vectorsOf = (movies: MovieDocument[]) =>
+    movies.map((movie) => vectors.get(movieKey(movie))).filter((v): v is number[] => !!v);
+  const seedVectors = vectorsOf(seeds);
+  const negativeVectors = vectorsOf(negatives);
+  if (seedVectors.length === 0) {
+    throw new MissingEmbeddingsError();
+  }
+
+  let query = mean(seedVectors);
+  if (negativeVectors.length > 0 && negativeWeight > 0) {
+    const negative = mean(negativeVectors);
+    query = query.map((val, i) => val - negativeWeight * negative[i]!);
+  }
+
+  const excluded = new Set([...seeds, ...negatives].map(movieKey));
+  const results = await searchMoviesByEmbedding(normalize(query), limit + excluded.size);
+  return results.filter(({ movie }) => !excluded.has(movieKey(movie))).slice(0, limit);
+};
+
+/**
+ * Movies similar to one movie, searched from its stored vectors instead of
+ * re-embedding its text: all plot chunks when it has a plot embedding,
+ * otherwise its genre vector, otherwise its title vector.
+ */
+export const findSimilarToMovie = async (
+  movie: MovieDocument,
+  limit = 5,
+  { diversity }: { diversity?: number } = {},
+  store: VectorStore = getVectorStore(),
+): Promise<{ basedOn: MovieVectorSource; results: SemanticSearchResult[] }> => {
+  let vectorIds = movieVectorIds(toStoredRef(movie));
+  if (Object.keys(movie.embeddingKeys ?? {}).length === 0) {
+    // Only the backend knows which legacy vectors exist
+    vectorIds = (await store.retrieve(vectorIds)).map(({ id }) => id);
+  }
+
+  for (const source of MOVIE_VECTOR_SOURCES) {
+    const ids = vectorIds.filter((id) => sourceOf(id) === source);
+    if (ids.length > 0) {
+      const results = await searchMoviesByVectorIds(ids, limit, {
+        excludeMovieIds: [movieKey(movie)],
+        diversity,
+      });
+      return { basedOn: source, results };
+    }
+  }
+
+  throw new MissingEmbeddingsError('Movie has no stored embeddings yet; wait for ingestion or re-embed it');
+};
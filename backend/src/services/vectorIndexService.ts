@@ -0,0 +1,409 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { getEmbeddingProvider, setEmbeddingProvider } from '../config/embeddingClient';
+import { getVectorStore, openVectorStore, setVectorStore } from '../config/vectorClient';
+import { MovieModel } from '../models/Movie';
+import { VectorAliasModel } from '../models/VectorAlias';
+import { VectorIndexModel, type VectorIndexDocument } from '../models/VectorIndex';
+import {
+  createEmbeddingProvider,
+  EmbeddingDimensionMismatchError,
+  getConfiguredEmbeddingSpec,
+  getConfiguredModel,
+  type EmbeddingProvider,
+  type EmbeddingSpec,
+} from './embeddingProviders';
+import { embedMovies, enqueueEmbeddingJob, MovieNotFoundError } from './ingestionService';
+import { collectVectorMovieIds } from './vectorSearchService';
+import type { VectorStore } from './vectorStores';
+import { logger } from '../utils/logger';
+
+// Movies embedded per re-index round (their texts are batched together)
+const REINDEX_PAGE_SIZE = 100;
+// Chroma rejects collection names longer than 63 characters
+const MAX_COLLECTION_NAME_LENGTH = 63;
+
+let reindexRunning = false;
+
+/**
+ * A re-index cannot start (one is running, or the target is already active)
+ * or an index cannot be dropped because it is in use
+ */
+export class VectorIndexConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VectorIndexConflictError';
+  }
+}
+
+const aliasName = (): string => `${env.VECTOR_DB_PROVIDER}:${env.VECTOR_COLLECTION}`;
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Collection name for an embedding spec: `<VECTOR_COLLECTION>__<model>__<dim>`.
+ * Over-long names keep a readable prefix plus a hash of the full name.
+ */
+export const versionedCollectionName = (spec: EmbeddingSpec): string => {
+  const name = `${env.VECTOR_COLLECTION}__${slugify(spec.model)}__${spec.dimension}`;
+  if (name.length <= MAX_COLLECTION_NAME_LENGTH) {
+    return name;
+  }
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  const suffix = `-${hash}__${spec.dimension}`;
+  return `${name.slice(0, MAX_COLLECTION_NAME_LENGTH - suffix.length).replace(/-+$/, '')}${suffix}`;
+};
+
+const specOf = (index: VectorIndexDocument): EmbeddingSpec => ({
+  provider: index.embeddingProvider,
+  model: index.embeddingModel,
+  dimension: index.dimension,
+});
+
+const describeSpec = (spec: EmbeddingSpec): string =>
+  `${spec.provider}/${spec.model} (${spec.dimension} dims)`;
+
+const sameSpec = (a: EmbeddingSpec, b: EmbeddingSpec): boolean =>
+  a.provider === b.provider && a.model === b.model && a.dimension === b.dimension;
+
+/**
+ * Use the provider and collection of an index for all queries and ingestion
+ */
+const useIndex = (store: VectorStore, provider: EmbeddingProvider): void => {
+  setVectorStore(store);
+  setEmbeddingProvider(provider);
+};
+
+/**
+ * Point the alias at `name` and record the status change on both indexes.
+ * The alias update is the switch; everything after it is bookkeeping.
+ */
+const switchAlias = async (name: string): Promise<void> => {
+  const now = new Date();
+  const previous = await VectorAliasModel.findOneAndUpdate(
+    { name: aliasName() },
+    { $set: { target: name, switchedAt: now } },
+    { upsert: true, new: false },
+  );
+
+  await VectorIndexModel.updateOne(
+    { vectorProvider: env.VECTOR_DB_PROVIDER, name },
+    { $set: { status: 'active', activatedAt: now }, $unset: { retiredAt: 1 } },
+  );
+  if (previous && previous.target !== name) {
+    await VectorIndexModel.updateOne(
+      { vectorProvider: env.VECTOR_DB_PROVIDER, name: previous.target },
+      { $set: { status: 'retired', retiredAt: now } },
+    );
+  }
+};
+
+/**
+ * Boot check: load the active index recorded in MongoDB and serve queries
+ * from its collection with the embedding spec it was built with.
+ *
+ * On first boot an existing deployment (movies already in MongoDB) keeps its
+ * unversioned VECTOR_COLLECTION; a fresh one starts on a versioned collection.
+ * When the configured spec differs from the active one, the active index keeps
+ * serving until a re-index has built and switched to the new spec.
+ */
+export const loadActiveVectorIndex = async (): Promise<VectorIndexDocument> => {
+  // Replaces the unique index on `name` alone from before indexes were
+  // unique per vector provider
+  await VectorIndexModel.syncIndexes();
+
+  const interrupted = await VectorIndexModel.updateMany(
+    { vectorProvider: env.VECTOR_DB_PROVIDER, status: 'building' },
+    {
+      $set: {
+        status: 'failed',
+        errorMessage: 'Interrupted by a server restart',
+        completedAt: new Date(),
+      },
+    },
+  );
+  if (interrupted.modifiedCount > 0) {
+    logger.warn(`Marked ${interrupted.modifiedCount} interrupted re-index(es) as failed`);
+  }
+
+  const configured = getConfiguredEmbeddingSpec();
+  const alias = await VectorAliasModel.findOne({ name: aliasName() });
+  let index = alias
+    ? await VectorIndexModel.findOne({ vectorProvider: env.VECTOR_DB_PROVIDER, name: alias.target })
+    : null;
+
+  if (!index) {
+    const hasMovies = (await MovieModel.estimatedDocumentCount()) > 0;
+    const name = hasMovies ? env.VECTOR_COLLECTION : versionedCollectionName(configured);
+    index = (await VectorIndexModel.findOneAndUpdate(
+      { vectorProvider: env.VECTOR_DB_PROVIDER, name },
+      {
+        $set: {
+          vectorProvider: env.VECTOR_DB_PROVIDER,
+          embeddingProvider: configured.provider,
+          embeddingModel: configured.model,
+          dimension: configured.dimension,
+          status: 'active',
+          activatedAt: new Date(),
+        },
+      },
+      { upsert: true, new: true },
+    ))!;
+    await switchAlias(name);
+    logger.info(`Recorded '${name}' as the active vector index (${describeSpec(configured)})`);
+  }
+
+  const active = specOf(index);
+  const matchesConfig = sameSpec(active, configured);
+  if (!matchesConfig) {
+    logger.warn(
+      `Active vector index '${index.name}' was built with ${describeSpec(active)}, ` +
+        `but the configuration requests ${describeSpec(configured)}.`,
+    );
+    logger.warn(
+      'Search keeps using the active index. Run POST /api/admin/vector-indexes/reindex to build and switch to the configured model.',
+    );
+  }
+
+  useIndex(
+    openVectorStore({ collection: index.name, dimension: index.dimension }),
+    matchesConfig ? getEmbeddingProvider() : createEmbeddingProvider(active),
+  );
+  logger.info(`Using vector index '${index.name}'`);
+  return index;
+};
+
+/**
+ * Remove vectors of movies that no longer exist from `store`. Deletes made
+ * while a re-index runs only reach the collection active at the time.
+ * Returns the number of movies removed.
+ */
+const purgeDeletedMovies = async (store: VectorStore): Promise<number> => {
+  const { movieIds } = await collectVectorMovieIds(REINDEX_PAGE_SIZE, store);
+  const ids = Array.from(movieIds);
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += REINDEX_PAGE_SIZE) {
+    const batch = ids.slice(i, i + REINDEX_PAGE_SIZE).filter((id) => Types.ObjectId.isValid(id));
+    const docs = await MovieModel.find({ _id: { $in: batch } }).select('_id').lean();
+    docs.forEach((doc) => existing.add(String(doc._id)));
+  }
+
+  const deleted = ids.filter((id) => !existing.has(id));
+  if (deleted.length > 0) {
+    await store.deleteByMovieIds(deleted);
+  }
+  return deleted.length;
+};
+
+/**
+ * Embed movies into the new collection page by page, catch up with movies
+ * edited or deleted meanwhile, then switch the alias to it
+ */
+const runReindex = async (
+  index: VectorIndexDocument,
+  store: VectorStore,
+  provider: EmbeddingProvider,
+): Promise<void> => {
+  const target = { store, provider };
+  const startedAt = index.startedAt ?? new Date();
+  const retryIds = new Set<string>();
+
+  const embedPage = async (movieIds: string[]): Promise<number> => {
+    const results = await embedMovies(movieIds, target);
+    let failed = 0;
+    results.forEach((result, movieId) => {
+      if (result instanceof Error) {
+        failed++;
+        if (!(result instanceof MovieNotFoundError)) retryIds.add(movieId);
+      } else {
+        retryIds.delete(movieId);
+      }
+    });
+    return failed;
+  };
+
+  try {
+    let lastId: Types.ObjectId | undefined;
+    for (;;) {
+      const page = await MovieModel.find(lastId ? { _id: { $gt: lastId } } : {})
+        .sort({ _id: 1 })
+        .limit(REINDEX_PAGE_SIZE)
+        .select('_id')
+        .lean();
+      if (page.length === 0) break;
+      lastId = page[page.length - 1]!._id as Types.ObjectId;
+
+      const failed = await embedPage(page.map((movie) => String(movie._id)));
+      await VectorIndexModel.updateOne(
+        { _id: index._id },
+        { $inc: { processedMovies: page.length, failedMovies: failed } },
+      );
+    }
+
+    // Edits during the bulk pass went to the old collection; re-embed them here
+    const changed = await MovieModel.find({ updatedAt: { $gte: startedAt } })
+      .select('_id')
+      .lean();
+    if (changed.length > 0) {
+      logger.info(`Re-index '${index.name}': catching up ${changed.length} edited movie(s)`);
+      for (let i = 0; i < changed.length; i += REINDEX_PAGE_SIZE) {
+        await embedPage(changed.slice(i, i + REINDEX_PAGE_SIZE).map((movie) => String(movie._id)));
+      }
+    }
+
+    // Deletes during the build went to the old collection only; apply them here
+    const deleted = await purgeDeletedMovies(store);
+    if (deleted > 0) {
+      logger.info(`Re-index '${index.name}': removed ${deleted} movie(s) deleted meanwhile`);
+    }
+
+    await VectorIndexModel.updateOne(
+      { _id: index._id },
+      { $set: { status: 'ready', completedAt: new Date() } },
+    );
+    await switchAlias(index.name);
+    useIndex(store, provider);
+    logger.info(`✓ Switched vector index to '${index.name}' (${describeSpec(specOf(index))})`);
+
+    // Movies that failed are retried by the ingestion worker, now against the new index
+    for (const movieId of retryIds) {
+      await enqueueEmbeddingJob(movieId, 'update');
+    }
+    if (retryIds.size > 0) {
+      logger.warn(`Re-index '${index.name}': queued ${retryIds.size} failed movie(s) for retry`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await VectorIndexModel.updateOne(
+      { _id: index._id },
+      { $set: { status: 'failed', errorMessage, completedAt: new Date() } },
+    );
+    logger.error(`Re-index '${index.name}' failed: ${errorMessage}`);
+  }
+};
+
+/**
+ * Start building a new collection for `overrides` (defaults to the configured
+ * spec) in the background. Search keeps using the active index until the
+ * build completes and the alias is switched.
+ */
+export const startReindex = async (
+  overrides: Partial<EmbeddingSpec> = {},
+): Promise<VectorIndexDocument> => {
+  const provider = overrides.provider ?? env.EMBEDDING_PROVIDER;
+  const spec: EmbeddingSpec = {
+    provider,
+    model: overrides.model ?? getConfiguredModel(provider),
+    dimension: overrides.dimension ?? env.VECTOR_DIMENSION,
+  };
+
+  const building = await VectorIndexModel.exists({
+    vectorProvider: env.VECTOR_DB_PROVIDER,
+    status: 'building',
+  });
+  if (reindexRunning || building) {
+    throw new VectorIndexConflictError('A re-index is already running');
+  }
+
+  // Pinecone index versions are namespaces of one Pinecone index, whose
+  // dimension is fixed when it is created
+  const activeDimension = getVectorStore().dimension;
+  if (env.VECTOR_DB_PROVIDER === 'pinecone' && spec.dimension !== activeDimension) {
+    throw new VectorIndexConflictError(
+      `Pinecone cannot change the vector dimension within an index (${activeDimension} dims); ` +
+        `create a Pinecone index with ${spec.dimension} dimensions and point PINECONE_INDEX at it`,
+    );
+  }
+
+  const name = versionedCollectionName(spec);
+  if (name === getVectorStore().collection) {
+    throw new VectorIndexConflictError(`Vector index '${name}' is already active`);
+  }
+
+  reindexRunning = true;
+  try {
+    const embeddingProvider = createEmbeddingProvider(spec);
+    const [probe] = await embeddingProvider.embed(['embedding dimension check'], 1);
+    if (probe?.length !== spec.dimension) {
+      throw new EmbeddingDimensionMismatchError(spec.provider, spec.dimension, probe?.length ?? 0);
+    }
+
+    // Start from an empty collection in case a previous attempt left one behind
+    const store = openVectorStore({ collection: name, dimension: spec.dimension });
+    await store.drop().catch(() => undefined);
+    await store.init();
+
+    const index = (await VectorIndexModel.findOneAndUpdate(
+      { vectorProvider: env.VECTOR_DB_PROVIDER, name },
+      {
+        $set: {
+          vectorProvider: env.VECTOR_DB_PROVIDER,
+          embeddingProvider: spec.provider,
+          embeddingModel: spec.model,
+          dimension: spec.dimension,
+          status: 'building',
+          totalMovies: await MovieModel.countDocuments(),
+          processedMovies: 0,
+          failedMovies: 0,
+          startedAt: new Date(),
+        },
+        $unset: { errorMessage: 1, completedAt: 1, activatedAt: 1, retiredAt: 1 },
+      },
+      { upsert: true, new: true },
+    ))!;
+
+    logger.info(`Re-index started: building '${name}' with ${describeSpec(spec)}`);
+    runReindex(index, store, embeddingProvider).finally(() => {
+      reindexRunning = false;
+    });
+    return index;
+  } catch (error) {
+    reindexRunning = false;
+    throw error;
+  }
+};
+
+/**
+ * All recorded index versions for this vector provider, newest first
+ */
+export const listVectorIndexes = async () => {
+  const [alias, indexes] = await Promise.all([
+    VectorAliasModel.findOne({ name: aliasName() }).lean(),
+    VectorIndexModel.find({ vectorProvider: env.VECTOR_DB_PROVIDER })
+      .sort({ createdAt: -1 })
+      .lean(),
+  ]);
+
+  return {
+    alias: alias ? { name: alias.name, target: alias.target, switchedAt: alias.switchedAt } : null,
+    configured: {
+      ...getConfiguredEmbeddingSpec(),
+      collection: versionedCollectionName(getConfiguredEmbeddingSpec()),
+    },
+    indexes,
+  };
+};
+
+/**
+ * Delete a retired or failed index version and its collection.
+ * Returns null when no such index is recorded.
+ */
+export const dropVectorIndex = async (name: string) => {
+  const index = await VectorIndexModel.findOne({ name, vectorProvider: env.VECTOR_DB_PROVIDER });
+  if (!index) {
+    return null;
+  }
+  if (index.status === 'active' || index.status === 'building') {
+    throw new VectorIndexConflictError(`Cannot drop ${index.status} vector index '${name}'`);
+  }
+
+  await openVectorStore({ collection: index.name, dimension: index.dimension }).drop();
+  await index.deleteOne();
+  logger.info(`Dropped vector index '${name}'`);
+  return index;
+};
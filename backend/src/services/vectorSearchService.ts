@@ -1,215 +1,309 @@
-import { getVectorClient, type ChromaClient } from '../config/vectorClient';
-import { env } from '../config/env';
+import { getVectorStore } from '../config/vectorClient';
+import { MovieModel } from '../models/Movie';
 import { logger } from '../utils/logger';
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { Pinecone } from '@pinecone-database/pinecone';
-import axios from 'axios';
-import { createHash } from 'crypto';
+import { type SearchFilters, directorMatch, normalizeDirector } from '../utils/filterBuilder';
+import { mmrRerank } from '../utils/mmr';
+import type { VectorMatch, VectorPoint, VectorStore } from './vectorStores';
 
-export type EmbeddingRecord = Record<string, number[]>;
+export type { VectorMatch } from './vectorStores';
 
-export interface VectorMatch {
-  id: string;
-  score: number;
-  payload: Record<string, unknown>;
+/**
+ * One vector to store for a movie. Long plots produce several `plot`
+ * embeddings, one per chunk, each with its character offsets into `plot`.
+ */
+export interface MovieEmbedding {
+  source: string;
+  vector: number[];
+  chunk?: { index: number; start: number; end: number };
 }
 
-// Helper to check client type
-const isQdrant = (client: unknown): client is QdrantClient => {
-  return client instanceof QdrantClient || (client as { search?: unknown }).search !== undefined;
-};
-
-const isPinecone = (client: unknown): client is Pinecone => {
-  return client instanceof Pinecone || (client as { index?: unknown }).index !== undefined;
-};
+/**
+ * Key of an embedding within its movie: `title`, `genre` or `plot:<n>`.
+ * The vector ID is `${movieId}:${key}`.
+ */
+export const embeddingKey = ({ source, chunk }: Pick<MovieEmbedding, 'source' | 'chunk'>): string =>
+  chunk ? `${source}:${chunk.index}` : source;
 
-const isChroma = (client: unknown): client is ChromaClient => {
-  return (client as { baseUrl?: string; collection?: string }).baseUrl !== undefined;
-};
+/**
+ * Filterable movie fields stored alongside every vector so that
+ * SearchFilters can be evaluated by the vector DB itself
+ */
+export interface MovieVectorMetadata {
+  genres?: string[];
+  releaseYear?: number;
+  rating?: number;
+  director?: string;
+}
 
 /**
- * Convert a string ID to a numeric ID for Qdrant
- * Uses a hash function to deterministically convert strings to numbers
+ * Build the filterable payload stored with each vector.
+ * Undefined values are dropped because Pinecone rejects null metadata.
  */
-const stringToNumericId = (str: string): number => {
-  const hash = createHash('sha256').update(str).digest();
-  // Take first 8 bytes and convert to unsigned integer
-  // Use BigInt to handle large numbers, then convert to Number
-  // We use the absolute value and take modulo to ensure it fits in safe integer range
-  const bigInt = hash.readBigUInt64BE(0);
-  // Convert to number, taking modulo to fit in JavaScript's safe integer range
-  // Qdrant accepts u64, but JavaScript Number can safely handle up to 2^53-1
-  const numericId = Number(bigInt % BigInt(Number.MAX_SAFE_INTEGER));
-  return numericId;
+const buildFilterPayload = (metadata: MovieVectorMetadata): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  if (metadata.genres && metadata.genres.length > 0) payload.genres = metadata.genres;
+  if (typeof metadata.releaseYear === 'number') payload.releaseYear = metadata.releaseYear;
+  if (typeof metadata.rating === 'number') payload.rating = metadata.rating;
+  if (metadata.director) {
+    payload.director = metadata.director;
+    payload.directorNormalized = normalizeDirector(metadata.director);
+  }
+  return payload;
 };
 
+/**
+ * Store a movie's embeddings. Returns the backend ID per embedding key.
+ */
 export const upsertMovieEmbeddings = async (
   movieId: string,
-  embeddings: EmbeddingRecord,
+  embeddings: MovieEmbedding[],
+  metadata: MovieVectorMetadata = {},
+  store: VectorStore = getVectorStore(),
 ): Promise<Record<string, string>> => {
-  const client = getVectorClient();
-
-  if (!Object.keys(embeddings).length) {
+  if (!embeddings.length) {
     throw new Error('No embeddings provided for upsert');
   }
 
-  if (isQdrant(client)) {
-    const points = Object.entries(embeddings).map(([source, vector]) => {
-      const stringId = `${movieId}:${source}`;
-      const numericId = stringToNumericId(stringId);
-      return {
-        id: numericId,
-        vector,
-        payload: {
-          movieId,
-          source,
-          originalId: stringId, // Store original ID in payload for reference
-        },
-      };
-    });
+  const filterPayload = buildFilterPayload(metadata);
+  const keys = embeddings.map(embeddingKey);
+  const points: VectorPoint[] = embeddings.map(({ source, vector, chunk }, idx) => ({
+    id: `${movieId}:${keys[idx]}`,
+    vector,
+    payload: {
+      ...filterPayload,
+      movieId,
+      source,
+      ...(chunk && { chunkIndex: chunk.index, chunkStart: chunk.start, chunkEnd: chunk.end }),
+    },
+  }));
 
-    await client.upsert(env.VECTOR_COLLECTION, {
-      wait: true,
-      points,
-    });
-
-    logger.info(`Upserted ${points.length} embeddings for movie ${movieId} to Qdrant`);
-    return points.reduce<Record<string, string>>((acc, point) => {
-      const source = point.payload.source as string;
-      acc[source] = String(point.id); // Return numeric ID as string for consistency
-      return acc;
-    }, {});
-  }
-
-  if (isPinecone(client)) {
-    const index = client.index(env.PINECONE_INDEX || env.VECTOR_COLLECTION);
-    const vectors = Object.entries(embeddings).map(([source, vector]) => ({
-      id: `${movieId}:${source}`,
-      values: vector,
-      metadata: { movieId, source },
-    }));
-
-    await index.upsert(vectors);
-    logger.info(`Upserted ${vectors.length} embeddings for movie ${movieId} to Pinecone`);
-    return vectors.reduce<Record<string, string>>((acc, vec) => {
-      acc[vec.metadata.source] = vec.id;
-      return acc;
-    }, {});
-  }
+  const storedIds = await store.upsert(points);
+  logger.info(
+    `Upserted ${points.length} embeddings for movie ${movieId} to ${store.provider} (${store.collection})`,
+  );
 
-  if (isChroma(client)) {
-    // Chroma upsert via REST API
-    const vectors = Object.entries(embeddings).map(([source, vector]) => ({
-      id: `${movieId}:${source}`,
-      embedding: vector,
-      metadata: { movieId, source },
-    }));
-
-    await axios.post(`${client.baseUrl}/collections/${client.collection}/add`, {
-      ids: vectors.map((v) => v.id),
-      embeddings: vectors.map((v) => v.embedding),
-      metadatas: vectors.map((v) => v.metadata),
-    });
+  return keys.reduce<Record<string, string>>((acc, key, idx) => {
+    acc[key] = storedIds[idx] ?? points[idx]!.id;
+    return acc;
+  }, {});
+};
 
-    logger.info(`Upserted ${vectors.length} embeddings for movie ${movieId} to Chroma`);
-    return vectors.reduce<Record<string, string>>((acc, vec) => {
-      acc[vec.metadata.source] = vec.id;
-      return acc;
-    }, {});
-  }
+/**
+ * Remove a movie's vectors by embedding key, e.g. plot chunks beyond the new
+ * chunk count after the plot got shorter
+ */
+export const deleteMovieEmbeddingKeys = async (
+  movieId: string,
+  keys: string[],
+  store: VectorStore = getVectorStore(),
+): Promise<void> => {
+  if (keys.length === 0) return;
+  await store.delete(keys.map((key) => `${movieId}:${key}`));
+};
 
-  throw new Error('Unsupported vector database provider');
+/**
+ * Vector DBs can only compare the director exactly, so find the full names the
+ * director filter matches in MongoDB (a case-insensitive partial match, as in
+ * the Mongo-only search) and filter on those
+ */
+const resolveDirectorFilter = async (filters?: SearchFilters): Promise<SearchFilters | undefined> => {
+  if (!filters?.director || filters.directorNames) return filters;
+  // Lookup errors propagate: a failed query is not the same as no such director
+  const directors: (string | undefined)[] = await MovieModel.distinct('director', {
+    director: directorMatch(filters.director),
+  });
+  return { ...filters, directorNames: directors.filter((name): name is string => Boolean(name)) };
 };
 
+/**
+ * Nearest-neighbour search, optionally restricted by SearchFilters.
+ * Filters are translated into the provider's native filter syntax so the
+ * vector DB returns a full page of matching results in a single query.
+ */
 export const semanticSearch = async (
   embedding: number[],
   limit = 10,
+  filters?: SearchFilters,
 ): Promise<VectorMatch[]> => {
-  const client = getVectorClient();
-
-  if (isQdrant(client)) {
-    try {
-      // Check if collection exists first
-      try {
-        const collectionInfo = await client.getCollection(env.VECTOR_COLLECTION);
-        // Check if collection has any points
-        if (collectionInfo.points_count === 0) {
-          logger.info(`Vector collection '${env.VECTOR_COLLECTION}' is empty. Returning empty results.`);
-          return [];
-        }
-      } catch (error) {
-        logger.warn(`Vector collection '${env.VECTOR_COLLECTION}' does not exist. Returning empty results.`);
-        return [];
-      }
+  const resolved = await resolveDirectorFilter(filters);
+  if (resolved?.directorNames?.length === 0) return [];
+  return getVectorStore().query({ vector: embedding, limit, filters: resolved });
+};
 
-      const response = await client.search(env.VECTOR_COLLECTION, {
-        vector: embedding,
-        limit,
-        with_payload: true,
-      });
+/**
+ * Nearest neighbours of stored vectors, looked up by their IDs
+ * (`${movieId}:${key}`) so the movie text is not embedded again.
+ * The given vectors are not returned.
+ */
+export const recommendByVectorIds = async (
+  vectorIds: string[],
+  limit = 10,
+  filters?: SearchFilters,
+): Promise<VectorMatch[]> => {
+  const resolved = await resolveDirectorFilter(filters);
+  if (resolved?.directorNames?.length === 0) return [];
+  return getVectorStore().recommend({ positive: vectorIds, limit, filters: resolved });
+};
 
-      if (!response || !Array.isArray(response)) {
-        logger.warn('Qdrant search returned invalid response');
-        return [];
-      }
+/**
+ * Remove every vector (title/plot/genre) stored for one or more movies
+ */
+export const deleteMovieEmbeddings = async (movieId: string | string[]): Promise<void> => {
+  const movieIds = Array.isArray(movieId) ? movieId : [movieId];
+  if (movieIds.length === 0) return;
 
-      return (response as unknown as Array<{ id: unknown; score?: number; payload?: Record<string, unknown> }>).map((point) => ({
-        id: String(point.id),
-        score: point.score ?? 0,
-        payload: point.payload ?? {},
-      }));
-    } catch (error) {
-      logger.error('Qdrant search error', error);
-      // Return empty array instead of throwing to allow graceful degradation
-      logger.warn('Returning empty results due to search error');
-      return [];
-    }
-  }
+  await getVectorStore().deleteByMovieIds(movieIds);
+  logger.info(`Deleted embeddings for ${movieIds.length} movie(s) from vector DB`);
+};
+
+/**
+ * Walk the whole collection (the active one unless `store` is given) and
+ * collect the distinct movieIds referenced by vector payloads, plus the
+ * number of points scanned
+ */
+export const collectVectorMovieIds = async (
+  pageSize = 256,
+  store: VectorStore = getVectorStore(),
+): Promise<{ scanned: number; movieIds: Set<string> }> => {
+  const movieIds = new Set<string>();
+  let scanned = 0;
+  let cursor: string | undefined;
 
-  if (isPinecone(client)) {
-    const index = client.index(env.PINECONE_INDEX || env.VECTOR_COLLECTION);
-    const queryResponse = await index.query({
-      vector: embedding,
-      topK: limit,
-      includeMetadata: true,
+  do {
+    const page = await store.scroll({ limit: pageSize, cursor });
+    page.points.forEach(({ payload }) => {
+      movieIds.add(String(payload.movieId ?? ''));
     });
+    scanned += page.points.length;
+    cursor = page.nextCursor;
+  } while (cursor);
 
-    return (queryResponse.matches || []).map((match) => ({
-      id: match.id,
-      score: match.score ?? 0,
-      payload: (match.metadata || {}) as Record<string, unknown>,
-    }));
-  }
+  return { scanned, movieIds };
+};
+
+// Payload keys written by buildFilterPayload
+const FILTER_PAYLOAD_KEYS = ['genres', 'releaseYear', 'rating', 'directorNormalized'];
 
-  if (isChroma(client)) {
-    const response = await axios.post(
-      `${client.baseUrl}/collections/${client.collection}/query`,
-      {
-        query_embeddings: [embedding],
-        n_results: limit,
+/**
+ * Walk the whole collection and collect the movieIds of vectors stored
+ * without any filter payload (written before filtered search existed)
+ */
+export const collectMoviesWithoutFilterPayload = async (
+  pageSize = 256,
+): Promise<{ scanned: number; movieIds: Set<string> }> => {
+  const store = getVectorStore();
+  const movieIds = new Set<string>();
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await store.scroll({ limit: pageSize, cursor });
+    page.points.forEach(({ payload }) => {
+      if (!FILTER_PAYLOAD_KEYS.some((key) => key in payload)) {
+        movieIds.add(String(payload.movieId ?? ''));
       }
-    );
+    });
+    scanned += page.points.length;
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return { scanned, movieIds };
+};
+
+// Stored vectors that stand for a whole movie, in order of preference
+export const MOVIE_VECTOR_SOURCES = ['plot', 'genre', 'title'] as const;
+
+export type MovieVectorSource = (typeof MOVIE_VECTOR_SOURCES)[number];
+
+/**
+ * The parts of a movie needed to find its stored vectors
+ */
+export interface StoredMovieRef {
+  id: string;
+  embeddingKeys?: Record<string, string>;
+}
+
+/**
+ * Vector IDs that may exist for a movie. Movies embedded before embeddingKeys
+ * were recorded use the plain source keys.
+ */
+export const movieVectorIds = ({ id, embeddingKeys }: StoredMovieRef): string[] => {
+  const keys = Object.keys(embeddingKeys ?? {});
+  return (keys.length > 0 ? keys : [...MOVIE_VECTOR_SOURCES]).map((key) => `${id}:${key}`);
+};
 
-    const results = response.data;
-    const matches: VectorMatch[] = [];
-
-    if (results.ids && results.ids[0]) {
-      const ids = results.ids[0] as string[];
-      const distances = (results.distances?.[0] || []) as number[];
-      const metadatas = (results.metadatas?.[0] || []) as Record<string, unknown>[];
-
-      ids.forEach((id, idx) => {
-        matches.push({
-          id,
-          score: 1 - (distances[idx] || 0), // Convert distance to similarity score
-          payload: metadatas[idx] || {},
-        });
-      });
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return norm === 0 ? vector : vector.map((val) => val / norm);
+};
+
+const mean = (vectors: number[][]): number[] => {
+  const sum = new Array<number>(vectors[0]!.length).fill(0);
+  vectors.forEach((vector) => vector.forEach((val, i) => (sum[i]! += val)));
+  return sum.map((val) => val / vectors.length);
+};
+
+/**
+ * Stored vectors that represent whole movies, keyed by movie ID: the mean of
+ * each movie's plot chunk vectors, or its genre or title vector when it has
+ * no plot embedding. Movies without stored vectors are left out.
+ */
+export const getStoredMovieVectors = async (
+  movies: StoredMovieRef[],
+  store: VectorStore = getVectorStore(),
+): Promise<Map<string, number[]>> => {
+  const stored = await store.retrieve(movies.flatMap(movieVectorIds));
+
+  const bySource = new Map<string, Record<string, number[][]>>();
+  stored.forEach(({ vector, payload }) => {
+    const movieId = String(payload.movieId);
+    const sources = bySource.get(movieId) ?? {};
+    const source = String(payload.source);
+    (sources[source] ??= []).push(vector);
+    bySource.set(movieId, sources);
+  });
+
+  const vectors = new Map<string, number[]>();
+  bySource.forEach((sources, movieId) => {
+    const chosen = sources.plot ?? sources.genre ?? sources.title;
+    if (chosen?.length) {
+      vectors.set(movieId, normalize(mean(chosen.map(normalize))));
     }
+  });
+  return vectors;
+};
+
+/**
+ * Re-rank movies with maximal marginal relevance (see mmrRerank) so that
+ * near-duplicates such as sequels do not fill the list. Uses the movies'
+ * stored vectors; if they cannot be read the relevance order is kept.
+ */
+export const diversifyMovies = async <T>(
+  items: T[],
+  limit: number,
+  diversity: number,
+  { movie, relevance }: { movie: (item: T) => StoredMovieRef; relevance: (item: T) => number },
+): Promise<T[]> => {
+  if (diversity <= 0 || items.length <= 1) {
+    return items.slice(0, limit);
+  }
 
-    return matches;
+  let vectors: Map<string, number[]>;
+  try {
+    vectors = await getStoredMovieVectors(items.map(movie));
+  } catch (error) {
+    logger.warn(
+      `Could not load vectors for diversity re-ranking: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+    return items.slice(0, limit);
   }
 
-  throw new Error('Unsupported vector database provider');
+  return mmrRerank(items, {
+    limit,
+    diversity,
+    relevance,
+    vector: (item) => vectors.get(movie(item).id),
+  });
 };
-
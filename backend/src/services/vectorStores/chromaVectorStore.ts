@@ -0,0 +1,165 @@
+import axios from 'axios';
+import { env } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { buildChromaWhere, chromaGenreKey, hasActiveFilters } from '../../utils/filterBuilder';
+import type {
+  RecommendQuery,
+  ScrollOptions,
+  ScrollPage,
+  StoredVector,
+  VectorMatch,
+  VectorPoint,
+  VectorQuery,
+  VectorStore,
+  VectorStoreOptions,
+} from './types';
+import { recommendByVectors } from './recommendByVectors';
+
+/**
+ * Chroma metadata only accepts scalar values, so genres become boolean flags
+ */
+const toChromaMetadata = (payload: Record<string, unknown>): Record<string, unknown> => {
+  const { genres, ...rest } = payload;
+  const flat: Record<string, unknown> = { ...rest };
+  if (Array.isArray(genres)) {
+    genres.forEach((genre) => {
+      flat[chromaGenreKey(String(genre))] = true;
+    });
+  }
+  return flat;
+};
+
+/**
+ * Chroma adapter using the REST API directly
+ */
+export class ChromaVectorStore implements VectorStore {
+  readonly provider = 'chroma';
+  readonly collection: string;
+  readonly dimension: number;
+  private readonly baseUrl: string;
+
+  constructor({ collection, dimension }: VectorStoreOptions) {
+    this.collection = collection;
+    this.dimension = dimension;
+    if (!env.VECTOR_DB_URL) {
+      throw new Error('VECTOR_DB_URL is required for Chroma');
+    }
+    this.baseUrl = env.VECTOR_DB_URL;
+    logger.info('Chroma vector client initialized');
+  }
+
+  private get collectionUrl(): string {
+    return `${this.baseUrl}/collections/${this.collection}`;
+  }
+
+  async init(): Promise<void> {
+    // Check if Chroma collection exists
+    try {
+      await axios.get(this.collectionUrl);
+      logger.info(`Chroma collection '${this.collection}' already exists`);
+    } catch (error) {
+      // Collection doesn't exist, create it
+      logger.info(`Creating Chroma collection '${this.collection}'...`);
+      await axios.post(`${this.baseUrl}/collections`, {
+        name: this.collection,
+        metadata: { dimension: this.dimension },
+      });
+      logger.info(`Chroma collection '${this.collection}' created successfully`);
+    }
+  }
+
+  async upsert(points: VectorPoint[]): Promise<string[]> {
+    await axios.post(`${this.collectionUrl}/upsert`, {
+      ids: points.map((p) => p.id),
+      embeddings: points.map((p) => p.vector),
+      metadatas: points.map((p) => toChromaMetadata(p.payload)),
+    });
+    return points.map((p) => p.id);
+  }
+
+  async query({ vector, limit, filters }: VectorQuery): Promise<VectorMatch[]> {
+    const response = await axios.post(`${this.collectionUrl}/query`, {
+      query_embeddings: [vector],
+      n_results: limit,
+      ...(hasActiveFilters(filters) && { where: buildChromaWhere(filters!) }),
+    });
+
+    const results = response.data;
+    const matches: VectorMatch[] = [];
+
+    if (results.ids && results.ids[0]) {
+      const ids = results.ids[0] as string[];
+      const distances = (results.distances?.[0] || []) as number[];
+      const metadatas = (results.metadatas?.[0] || []) as Record<string, unknown>[];
+
+      ids.forEach((id, idx) => {
+        matches.push({
+          id,
+          score: 1 - (distances[idx] || 0), // Convert distance to similarity score
+          payload: metadatas[idx] || {},
+        });
+      });
+    }
+
+    return matches;
+  }
+
+  async retrieve(ids: string[]): Promise<StoredVector[]> {
+    if (ids.length === 0) return [];
+    const response = await axios.post(`${this.collectionUrl}/get`, {
+      ids,
+      include: ['embeddings', 'metadatas'],
+    });
+
+    const foundIds = (response.data?.ids ?? []) as string[];
+    const embeddings = (response.data?.embeddings ?? []) as number[][];
+    const metadatas = (response.data?.metadatas ?? []) as Record<string, unknown>[];
+    return foundIds.map((id, idx) => ({
+      id,
+      vector: embeddings[idx] ?? [],
+      payload: metadatas[idx] ?? {},
+    }));
+  }
+
+  async recommend(query: RecommendQuery): Promise<VectorMatch[]> {
+    return recommendByVectors(this, query);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await axios.post(`${this.collectionUrl}/delete`, { ids });
+  }
+
+  async deleteByMovieIds(movieIds: string[]): Promise<void> {
+    if (movieIds.length === 0) return;
+    await axios.post(`${this.collectionUrl}/delete`, {
+      where: movieIds.length === 1 ? { movieId: movieIds[0] } : { movieId: { $in: movieIds } },
+    });
+  }
+
+  async count(): Promise<number> {
+    const response = await axios.get(`${this.collectionUrl}/count`);
+    return Number(response.data) || 0;
+  }
+
+  async scroll({ limit, cursor }: ScrollOptions): Promise<ScrollPage> {
+    const offset = cursor ? Number(cursor) : 0;
+    const response = await axios.post(`${this.collectionUrl}/get`, {
+      limit,
+      offset,
+      include: ['metadatas'],
+    });
+
+    const ids = (response.data?.ids ?? []) as string[];
+    const metadatas = (response.data?.metadatas ?? []) as Record<string, unknown>[];
+    return {
+      points: ids.map((id, idx) => ({ id, payload: metadatas[idx] ?? {} })),
+      ...(ids.length === limit && { nextCursor: String(offset + ids.length) }),
+    };
+  }
+
+  async drop(): Promise<void> {
+    await axios.delete(this.collectionUrl);
+    logger.info(`Chroma collection '${this.collection}' deleted`);
+  }
+}
@@ -0,0 +1,28 @@
+import { ChromaVectorStore } from './chromaVectorStore';
+import { MemoryVectorStore } from './memoryVectorStore';
+import { PineconeVectorStore } from './pineconeVectorStore';
+import { QdrantVectorStore } from './qdrantVectorStore';
+import type { VectorDBProvider, VectorStore, VectorStoreOptions } from './types';
+
+export * from './types';
+
+const factories: Record<VectorDBProvider, (options: VectorStoreOptions) => VectorStore> = {
+  qdrant: (options) => new QdrantVectorStore(options),
+  pinecone: (options) => new PineconeVectorStore(options),
+  chroma: (options) => new ChromaVectorStore(options),
+  memory: (options) => new MemoryVectorStore(options),
+};
+
+/**
+ * Create the adapter for a provider name (see VECTOR_DB_PROVIDER)
+ */
+export const createVectorStore = (
+  provider: VectorDBProvider,
+  options: VectorStoreOptions,
+): VectorStore => {
+  const factory = factories[provider];
+  if (!factory) {
+    throw new Error(`Unsupported vector database provider: ${provider}`);
+  }
+  return factory(options);
+};
@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { hasActiveFilters, matchesPayloadFilters } from '../../utils/filterBuilder';
+import type {
+  RecommendQuery,
+  ScrollOptions,
+  ScrollPage,
+  StoredVector,
+  VectorMatch,
+  VectorPoint,
+  VectorQuery,
+  VectorStore,
+  VectorStoreOptions,
+} from './types';
+import { recommendByVectors } from './recommendByVectors';
+
+// Mutations within this window after the first one share a single snapshot write
+const SNAPSHOT_WRITE_DELAY_MS = 500;
+
+interface StoredPoint {
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+interface Snapshot {
+  dimension: number;
+  points: Array<{ id: string } & StoredPoint>;
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Snapshot file for a collection. The unversioned collection uses the
+ * configured path as-is; versioned ones get the collection name appended
+ * (snapshot.json -> snapshot.movies__model__384.json).
+ */
+const snapshotPathFor = (basePath: string | undefined, collection: string): string | undefined => {
+  if (!basePath || collection === env.VECTOR_COLLECTION) return basePath;
+  const ext = path.extname(basePath);
+  return `${basePath.slice(0, basePath.length - ext.length)}.${collection}${ext || '.json'}`;
+};
+
+/**
+ * In-process vector store for local development and CI.
+ * Brute-force cosine search over a Map; when VECTOR_DB_SNAPSHOT_PATH is set the
+ * points are loaded on init and written back shortly after each burst of
+ * mutations, so a bulk ingest does not rewrite the whole file per upsert.
+ */
+export class MemoryVectorStore implements VectorStore {
+  readonly provider = 'memory';
+  readonly collection: string;
+  readonly dimension: number;
+  private readonly snapshotPath: string | undefined;
+  private readonly points = new Map<string, StoredPoint>();
+  // Serializes snapshot writes so concurrent mutations cannot interleave
+  private persistQueue: Promise<void> = Promise.resolve();
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor({ collection, dimension }: VectorStoreOptions) {
+    this.collection = collection;
+    this.dimension = dimension;
+    const snapshotPath = snapshotPathFor(env.VECTOR_DB_SNAPSHOT_PATH, collection);
+    this.snapshotPath = snapshotPath;
+    logger.info(
+      `In-memory vector store initialized${snapshotPath ? ` (snapshot: ${snapshotPath})` : ''}`,
+    );
+  }
+
+  async init(): Promise<void> {
+    if (!this.snapshotPath) return;
+
+    try {
+      const raw = await fs.readFile(this.snapshotPath, 'utf-8');
+      const snapshot = JSON.parse(raw) as Snapshot;
+      if (snapshot.dimension !== this.dimension) {
+        logger.warn(
+          `Vector snapshot dimension ${snapshot.dimension} does not match ${this.dimension}; starting empty`,
+        );
+        return;
+      }
+      this.points.clear();
+      for (const { id, vector, payload } of snapshot.points) {
+        this.points.set(id, { vector, payload });
+      }
+      logger.info(`✓ Loaded ${this.points.size} vectors from snapshot`);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        logger.info('No vector snapshot found, starting with an empty store');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a snapshot write after the ones already queued and return its own
+   * result. The queue logs a failed write and carries on, so one failure does
+   * not reject every later write.
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.persistQueue.then(write);
+    this.persistQueue = result.catch((error) => {
+      logger.error('Failed to write vector snapshot', error);
+    });
+    return result;
+  }
+
+  /**
+   * Schedule a snapshot write unless one is already pending; it captures
+   * every mutation made until it runs. A failed write is logged (see
+   * enqueueWrite) and the next mutation schedules another.
+   */
+  private persist(): void {
+    const snapshotPath = this.snapshotPath;
+    if (!snapshotPath || this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.enqueueWrite(async () => {
+        const snapshot: Snapshot = {
+          dimension: this.dimension,
+          points: Array.from(this.points.entries()).map(([id, point]) => ({ id, ...point })),
+        };
+        // Write to a temp file first so a crash never leaves a truncated snapshot
+        const tmpPath = `${snapshotPath}.tmp`;
+        await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(snapshot));
+        await fs.rename(tmpPath, snapshotPath);
+      })
+        // Already logged by the queue
+        .catch(() => undefined);
+    }, SNAPSHOT_WRITE_DELAY_MS);
+  }
+
+  async upsert(points: VectorPoint[]): Promise<string[]> {
+    for (const point of points) {
+      if (point.vector.length !== this.dimension) {
+        throw new Error(
+          `Vector dimension ${point.vector.length} does not match collection dimension ${this.dimension}`,
+        );
+      }
+      this.points.set(point.id, { vector: point.vector, payload: { ...point.payload } });
+    }
+    this.persist();
+    return points.map((point) => point.id);
+  }
+
+  async query({ vector, limit, filters }: VectorQuery): Promise<VectorMatch[]> {
+    const filtered = hasActiveFilters(filters);
+    const matches: VectorMatch[] = [];
+
+    for (const [id, point] of this.points) {
+      if (filtered && !matchesPayloadFilters(point.payload, filters!)) continue;
+      matches.push({ id, score: cosineSimilarity(vector, point.vector), payload: point.payload });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async retrieve(ids: string[]): Promise<StoredVector[]> {
+    return ids.flatMap((id) => {
+      const point = this.points.get(id);
+      return point ? [{ id, vector: point.vector, payload: point.payload }] : [];
+    });
+  }
+
+  async recommend(query: RecommendQuery): Promise<VectorMatch[]> {
+    return recommendByVectors(this, query);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.points.delete(id)) removed++;
+    }
+    if (removed > 0) this.persist();
+  }
+
+  async deleteByMovieIds(movieIds: string[]): Promise<void> {
+    const targets = new Set(movieIds);
+    const ids = Array.from(this.points.entries())
+      .filter(([, point]) => targets.has(String(point.payload.movieId)))
+      .map(([id]) => id);
+    await this.delete(ids);
+  }
+
+  async count(): Promise<number> {
+    return this.points.size;
+  }
+
+  async scroll({ limit, cursor }: ScrollOptions): Promise<ScrollPage> {
+    // Map iteration order is insertion order, so a numeric offset is a stable cursor
+    const offset = cursor ? Number(cursor) : 0;
+    const page = Array.from(this.points.entries()).slice(offset, offset + limit);
+    return {
+      points: page.map(([id, point]) => ({ id, payload: point.payload })),
+      ...(offset + page.length < this.points.size && { nextCursor: String(offset + page.length) }),
+    };
+  }
+
+  async drop(): Promise<void> {
+    this.points.clear();
+    const snapshotPath = this.snapshotPath;
+    if (!snapshotPath) return;
+
+    // A pending write would bring the dropped snapshot back
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    await this.enqueueWrite(() => fs.rm(snapshotPath, { force: true }));
+  }
+}
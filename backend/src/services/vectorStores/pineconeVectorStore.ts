@@ -0,0 +1,169 @@
+import { Pinecone, type Index, type RecordMetadata } from '@pinecone-database/pinecone';
+import { env } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { buildPineconeFilter, hasActiveFilters } from '../../utils/filterBuilder';
+import type {
+  RecommendQuery,
+  ScrollOptions,
+  ScrollPage,
+  StoredVector,
+  VectorMatch,
+  VectorPoint,
+  VectorQuery,
+  VectorStore,
+  VectorStoreOptions,
+} from './types';
+import { recommendByVectors } from './recommendByVectors';
+
+export class PineconeVectorStore implements VectorStore {
+  readonly provider = 'pinecone';
+  readonly collection: string;
+  readonly dimension: number;
+  private readonly client: Pinecone;
+  private readonly indexName: string;
+  private readonly namespace: string;
+
+  constructor({ collection, dimension }: VectorStoreOptions) {
+    if (!env.PINECONE_API_KEY) {
+      throw new Error('PINECONE_API_KEY is required for Pinecone');
+    }
+    this.client = new Pinecone({ apiKey: env.PINECONE_API_KEY });
+    this.indexName = env.PINECONE_INDEX || env.VECTOR_COLLECTION;
+    this.collection = collection;
+    this.dimension = dimension;
+    // Collections map to namespaces of the one index. The unversioned collection
+    // name keeps using the default namespace, where vectors were stored before
+    // versioned collections existed. The index dimension itself is fixed.
+    this.namespace = collection === env.VECTOR_COLLECTION ? '' : collection;
+    logger.info('Pinecone vector client initialized');
+  }
+
+  private get index(): Index<RecordMetadata> {
+    return this.client.index(this.indexName).namespace(this.namespace);
+  }
+
+  async init(): Promise<void> {
+    // Pinecone indexes are created via the dashboard, just verify it exists
+    try {
+      await this.index.describeIndexStats();
+      logger.info(`Pinecone index '${this.indexName}' is ready`);
+    } catch (error) {
+      logger.warn(
+        `Pinecone index '${this.indexName}' may not exist. Please create it in the Pinecone dashboard with dimension ${this.dimension}`,
+      );
+    }
+  }
+
+  async upsert(points: VectorPoint[]): Promise<string[]> {
+    await this.index.upsert(
+      points.map((point) => ({
+        id: point.id,
+        values: point.vector,
+        metadata: point.payload as RecordMetadata,
+      })),
+    );
+    return points.map((point) => point.id);
+  }
+
+  async query({ vector, limit, filters }: VectorQuery): Promise<VectorMatch[]> {
+    const queryResponse = await this.index.query({
+      vector,
+      topK: limit,
+      includeMetadata: true,
+      ...(hasActiveFilters(filters) && { filter: buildPineconeFilter(filters!) }),
+    });
+
+    return (queryResponse.matches || []).map((match) => ({
+      id: match.id,
+      score: match.score ?? 0,
+      payload: (match.metadata || {}) as Record<string, unknown>,
+    }));
+  }
+
+  async retrieve(ids: string[]): Promise<StoredVector[]> {
+    if (ids.length === 0) return [];
+    const fetched = await this.index.fetch(ids);
+    return Object.values(fetched.records ?? {}).map((record) => ({
+      id: record.id,
+      vector: record.values ?? [],
+      payload: (record.metadata ?? {}) as Record<string, unknown>,
+    }));
+  }
+
+  async recommend(query: RecommendQuery): Promise<VectorMatch[]> {
+    const { positive, negative = [], limit, filters } = query;
+    if (positive.length !== 1 || negative.length > 0) {
+      return recommendByVectors(this, query);
+    }
+
+    // Query by record ID uses the stored values without fetching them first
+    const queryResponse = await this.index.query({
+      id: positive[0]!,
+      topK: limit + 1,
+      includeMetadata: true,
+      ...(hasActiveFilters(filters) && { filter: buildPineconeFilter(filters!) }),
+    });
+
+    return (queryResponse.matches || [])
+      .filter((match) => match.id !== positive[0])
+      .slice(0, limit)
+      .map((match) => ({
+        id: match.id,
+        score: match.score ?? 0,
+        payload: (match.metadata || {}) as Record<string, unknown>,
+      }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index.deleteMany(ids);
+  }
+
+  async deleteByMovieIds(movieIds: string[]): Promise<void> {
+    // Serverless indexes cannot delete by metadata filter, but record IDs are
+    // prefixed with the movie ID so they can be listed and deleted by ID
+    for (const movieId of movieIds) {
+      let paginationToken: string | undefined;
+      do {
+        const listed = await this.index.listPaginated({
+          prefix: `${movieId}:`,
+          ...(paginationToken && { paginationToken }),
+        });
+        const ids = (listed.vectors ?? []).map((v) => v.id).filter(Boolean) as string[];
+        if (ids.length > 0) {
+          await this.index.deleteMany(ids);
+        }
+        paginationToken = listed.pagination?.next;
+      } while (paginationToken);
+    }
+  }
+
+  async count(): Promise<number> {
+    const stats = await this.index.describeIndexStats();
+    return stats.namespaces?.[this.namespace]?.recordCount ?? 0;
+  }
+
+  async scroll({ limit, cursor }: ScrollOptions): Promise<ScrollPage> {
+    // list only returns IDs (serverless indexes), so fetch metadata separately
+    const listed = await this.index.listPaginated({
+      limit,
+      ...(cursor && { paginationToken: cursor }),
+    });
+    const ids = (listed.vectors ?? []).map((v) => v.id).filter(Boolean) as string[];
+    const fetched = ids.length ? await this.index.fetch(ids) : { records: {} };
+    const records = fetched.records as Record<string, { metadata?: RecordMetadata }>;
+
+    const next = listed.pagination?.next;
+    return {
+      points: ids.map((id) => ({
+        id,
+        payload: (records[id]?.metadata ?? {}) as Record<string, unknown>,
+      })),
+      ...(next && { nextCursor: next }),
+    };
+  }
+
+  async drop(): Promise<void> {
+    await this.index.deleteAll();
+  }
+}
@@ -0,0 +1,254 @@
+import { QdrantClient, type QdrantClientParams } from '@qdrant/js-client-rest';
+import { createHash } from 'crypto';
+import { env } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { buildQdrantFilter, hasActiveFilters } from '../../utils/filterBuilder';
+import type {
+  RecommendQuery,
+  ScrollOptions,
+  ScrollPage,
+  StoredVector,
+  VectorMatch,
+  VectorPoint,
+  VectorQuery,
+  VectorStore,
+  VectorStoreOptions,
+} from './types';
+
+// Payload fields used by SearchFilters; indexed so filtered search stays fast
+const PAYLOAD_INDEXES: Array<{ field: string; schema: 'keyword' | 'integer' | 'float' }> = [
+  { field: 'movieId', schema: 'keyword' },
+  { field: 'genres', schema: 'keyword' },
+  { field: 'directorNormalized', schema: 'keyword' },
+  { field: 'releaseYear', schema: 'integer' },
+  { field: 'rating', schema: 'float' },
+];
+
+/**
+ * Convert a string ID to a numeric ID for Qdrant
+ * Uses a hash function to deterministically convert strings to numbers
+ */
+export const stringToNumericId = (str: string): number => {
+  const hash = createHash('sha256').update(str).digest();
+  // Take first 8 bytes and convert to unsigned integer
+  // Use BigInt to handle large numbers, then convert to Number
+  // We use the absolute value and take modulo to ensure it fits in safe integer range
+  const bigInt = hash.readBigUInt64BE(0);
+  // Convert to number, taking modulo to fit in JavaScript's safe integer range
+  // Qdrant accepts u64, but JavaScript Number can safely handle up to 2^53-1
+  const numericId = Number(bigInt % BigInt(Number.MAX_SAFE_INTEGER));
+  return numericId;
+};
+
+export class QdrantVectorStore implements VectorStore {
+  readonly provider = 'qdrant';
+  readonly collection: string;
+  readonly dimension: number;
+  private readonly client: QdrantClient;
+
+  constructor({ collection, dimension }: VectorStoreOptions) {
+    this.collection = collection;
+    this.dimension = dimension;
+    if (!env.VECTOR_DB_URL) {
+      throw new Error('VECTOR_DB_URL is not configured');
+    }
+    const params: QdrantClientParams = {
+      url: env.VECTOR_DB_URL,
+      timeout: 30000, // 30 seconds timeout
+      checkCompatibility: false, // Disable version check to avoid warnings
+    };
+
+    if (env.VECTOR_DB_API_KEY) {
+      params.apiKey = env.VECTOR_DB_API_KEY;
+    }
+
+    this.client = new QdrantClient(params);
+    logger.info('Qdrant vector client initialized');
+  }
+
+  async init(): Promise<void> {
+    // Check if collection exists
+    try {
+      logger.info(`Checking Qdrant collection '${this.collection}'...`);
+      await this.client.getCollection(this.collection);
+      logger.info(`✓ Qdrant collection '${this.collection}' already exists`);
+    } catch (error: any) {
+      // Collection doesn't exist, create it
+      if (error?.status === 404 || error?.message?.includes('not found')) {
+        logger.info(`Creating Qdrant collection '${this.collection}'...`);
+        try {
+          await this.client.createCollection(this.collection, {
+            vectors: {
+              size: this.dimension,
+              distance: 'Cosine',
+            },
+          });
+          logger.info(`✓ Qdrant collection '${this.collection}' created successfully`);
+        } catch (createError: any) {
+          logger.error(`Failed to create Qdrant collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        // Other error (connection, timeout, etc.)
+        logger.error(`Failed to check Qdrant collection: ${error.message}`);
+        throw error;
+      }
+    }
+
+    await this.ensurePayloadIndexes();
+  }
+
+  private async ensurePayloadIndexes(): Promise<void> {
+    for (const { field, schema } of PAYLOAD_INDEXES) {
+      try {
+        await this.client.createPayloadIndex(this.collection, {
+          field_name: field,
+          field_schema: schema,
+          wait: true,
+        });
+      } catch (error: any) {
+        // Index creation is idempotent on recent Qdrant versions; older ones may complain
+        logger.debug(`Payload index '${field}' not created: ${error?.message ?? 'Unknown error'}`);
+      }
+    }
+    logger.info(`✓ Qdrant payload indexes ensured for filtered search`);
+  }
+
+  async upsert(points: VectorPoint[]): Promise<string[]> {
+    const qdrantPoints = points.map((point) => ({
+      id: stringToNumericId(point.id),
+      vector: point.vector,
+      payload: {
+        ...point.payload,
+        originalId: point.id, // Store original ID in payload for reference
+      },
+    }));
+
+    await this.client.upsert(this.collection, {
+      wait: true,
+      points: qdrantPoints,
+    });
+
+    // Return numeric ID as string for consistency
+    return qdrantPoints.map((point) => String(point.id));
+  }
+
+  async query({ vector, limit, filters }: VectorQuery): Promise<VectorMatch[]> {
+    try {
+      // Check if collection exists first
+      try {
+        const collectionInfo = await this.client.getCollection(this.collection);
+        // Check if collection has any points
+        if (collectionInfo.points_count === 0) {
+          logger.info(`Vector collection '${this.collection}' is empty. Returning empty results.`);
+          return [];
+        }
+      } catch (error) {
+        logger.warn(`Vector collection '${this.collection}' does not exist. Returning empty results.`);
+        return [];
+      }
+
+      const response = await this.client.search(this.collection, {
+        vector,
+        limit,
+        with_payload: true,
+        ...(hasActiveFilters(filters) && { filter: buildQdrantFilter(filters!) }),
+      });
+
+      if (!response || !Array.isArray(response)) {
+        logger.warn('Qdrant search returned invalid response');
+        return [];
+      }
+
+      return response.map((point) => ({
+        id: String(point.id),
+        score: point.score ?? 0,
+        payload: (point.payload ?? {}) as Record<string, unknown>,
+      }));
+    } catch (error) {
+      logger.error('Qdrant search error', error);
+      // Return empty array instead of throwing to allow graceful degradation
+      logger.warn('Returning empty results due to search error');
+      return [];
+    }
+  }
+
+  async retrieve(ids: string[]): Promise<StoredVector[]> {
+    if (ids.length === 0) return [];
+    const logicalIds = new Map(ids.map((id) => [stringToNumericId(id), id]));
+    const points = await this.client.retrieve(this.collection, {
+      ids: Array.from(logicalIds.keys()),
+      with_payload: true,
+      with_vector: true,
+    });
+
+    return points.map((point) => ({
+      id: logicalIds.get(Number(point.id)) ?? String(point.id),
+      vector: point.vector as number[],
+      payload: (point.payload ?? {}) as Record<string, unknown>,
+    }));
+  }
+
+  async recommend({ positive, negative = [], limit, filters }: RecommendQuery): Promise<VectorMatch[]> {
+    if (positive.length === 0) return [];
+    // Qdrant looks the vectors up itself and leaves the example points out
+    const response = await this.client.recommend(this.collection, {
+      positive: positive.map(stringToNumericId),
+      negative: negative.map(stringToNumericId),
+      strategy: 'average_vector',
+      limit,
+      with_payload: true,
+      ...(hasActiveFilters(filters) && { filter: buildQdrantFilter(filters!) }),
+    });
+
+    return response.map((point) => ({
+      id: String(point.id),
+      score: point.score ?? 0,
+      payload: (point.payload ?? {}) as Record<string, unknown>,
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.client.delete(this.collection, {
+      wait: true,
+      points: ids.map(stringToNumericId),
+    });
+  }
+
+  async deleteByMovieIds(movieIds: string[]): Promise<void> {
+    if (movieIds.length === 0) return;
+    await this.client.delete(this.collection, {
+      wait: true,
+      filter: { must: [{ key: 'movieId', match: { any: movieIds } }] },
+    });
+  }
+
+  async count(): Promise<number> {
+    const collectionInfo = await this.client.getCollection(this.collection);
+    return collectionInfo.points_count ?? 0;
+  }
+
+  async scroll({ limit, cursor }: ScrollOptions): Promise<ScrollPage> {
+    const response = await this.client.scroll(this.collection, {
+      limit,
+      with_payload: true,
+      with_vector: false,
+      ...(cursor !== undefined && { offset: Number(cursor) }),
+    });
+
+    const next = response.next_page_offset;
+    return {
+      points: response.points.map((point) => ({
+        id: String(point.id),
+        payload: (point.payload ?? {}) as Record<string, unknown>,
+      })),
+      ...(next !== null && next !== undefined && { nextCursor: String(next) }),
+    };
+  }
+
+  async drop(): Promise<void> {
+    await this.client.deleteCollection(this.collection);
+    logger.info(`Qdrant collection '${this.collection}' deleted`);
+  }
+}
@@ -0,0 +1,35 @@
+import type { RecommendQuery, VectorMatch, VectorStore } from './types';
+
+const average = (vectors: number[][]): number[] | undefined => {
+  if (vectors.length === 0) return undefined;
+  const sum = new Array<number>(vectors[0]!.length).fill(0);
+  vectors.forEach((vector) => vector.forEach((val, i) => (sum[i]! += val)));
+  return sum.map((val) => val / vectors.length);
+};
+
+/**
+ * `recommend` for backends without a native API: read the points back,
+ * build Qdrant's `average_vector` query (avg(positive) + (avg(positive) -
+ * avg(negative))) and run an ordinary query without the given points
+ */
+export const recommendByVectors = async (
+  store: VectorStore,
+  { positive, negative = [], limit, filters }: RecommendQuery,
+): Promise<VectorMatch[]> => {
+  const stored = await store.retrieve([...positive, ...negative]);
+  const negativeIds = new Set(negative);
+  const positiveAvg = average(
+    stored.filter(({ id }) => !negativeIds.has(id)).map(({ vector }) => vector),
+  );
+  if (!positiveAvg) return [];
+  const negativeAvg = average(
+    stored.filter(({ id }) => negativeIds.has(id)).map(({ vector }) => vector),
+  );
+  const vector = negativeAvg
+    ? positiveAvg.map((val, i) => val + (val - negativeAvg[i]!))
+    : positiveAvg;
+
+  const excluded = new Set([...positive, ...negative]);
+  const matches = await store.query({ vector, limit: limit + excluded.size, filters });
+  return matches.filter(({ id }) => !excluded.has(id)).slice(0, limit);
+};
@@ -0,0 +1,93 @@
+import type { SearchFilters } from '../../utils/filterBuilder';
+
+export type VectorDBProvider = 'qdrant' | 'pinecone' | 'chroma' | 'memory';
+
+export interface VectorStoreOptions {
+  // Qdrant/Chroma collection, Pinecone namespace or memory snapshot holding the vectors
+  collection: string;
+  dimension: number;
+}
+
+/**
+ * A vector to store. `id` is the logical string ID (`${movieId}:${source}`);
+ * adapters map it to whatever their backend requires.
+ */
+export interface VectorPoint {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * A stored point read back by logical ID, including its vector
+ */
+export interface StoredVector {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  limit: number;
+  filters?: SearchFilters;
+}
+
+/**
+ * Search by stored points instead of a vector: neighbours of the average of
+ * the `positive` points, pushed away from the `negative` ones. The given
+ * points themselves are not returned.
+ */
+export interface RecommendQuery {
+  positive: string[];
+  negative?: string[];
+  limit: number;
+  filters?: SearchFilters;
+}
+
+export interface ScrollOptions {
+  limit: number;
+  // Opaque cursor returned by the previous page
+  cursor?: string;
+}
+
+export interface ScrollPage {
+  points: Array<{ id: string; payload: Record<string, unknown> }>;
+  nextCursor?: string;
+}
+
+/**
+ * Common contract implemented by every vector DB adapter.
+ * Services only talk to this interface; pick an implementation with
+ * VECTOR_DB_PROVIDER or plug one in via setVectorStore().
+ */
+export interface VectorStore {
+  readonly provider: string;
+  readonly collection: string;
+  readonly dimension: number;
+  // Create or verify the collection/index
+  init(): Promise<void>;
+  // Insert or overwrite points; returns the backend IDs in input order
+  upsert(points: VectorPoint[]): Promise<string[]>;
+  // Top-k nearest neighbours, optionally restricted by filters
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  // Read points by logical ID; missing IDs are left out
+  retrieve(ids: string[]): Promise<StoredVector[]>;
+  // Top-k neighbours of stored points, looked up by logical ID
+  recommend(query: RecommendQuery): Promise<VectorMatch[]>;
+  // Remove points by logical ID
+  delete(ids: string[]): Promise<void>;
+  // Remove every point whose payload.movieId is in the list
+  deleteByMovieIds(movieIds: string[]): Promise<void>;
+  count(): Promise<number>;
+  // Page through stored points (payload only, no vectors)
+  scroll(options: ScrollOptions): Promise<ScrollPage>;
+  // Remove the whole collection (used to clean up retired or failed index versions)
+  drop(): Promise<void>;
+}
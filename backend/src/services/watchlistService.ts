@@ -0,0 +1,298 @@
+import { Types } from 'mongoose';
+import { FavouriteModel } from '../models/Favourite';
+import { MovieModel } from '../models/Movie';
+import type { UserDocument } from '../models/User';
+import { WatchlistModel, type WatchlistDocument } from '../models/Watchlist';
+import { toMovieSummary } from './movieService';
+
+/**
+ * A movie that cannot be saved because it does not exist
+ */
+export class WatchlistMovieNotFoundError extends Error {
+  constructor(movieId: string) {
+    super(`Movie ${movieId} not found`);
+    this.name = 'WatchlistMovieNotFoundError';
+  }
+}
+
+export class DuplicateWatchlistNameError extends Error {
+  constructor(name: string) {
+    super(`You already have a list named "${name}"`);
+    this.name = 'DuplicateWatchlistNameError';
+  }
+}
+
+/**
+ * A reorder request that is not a permutation of the list's movies
+ */
+export class InvalidWatchlistOrderError extends Error {
+  constructor() {
+    super('movieIds must contain every movie in the list exactly once');
+    this.name = 'InvalidWatchlistOrderError';
+  }
+}
+
+export interface WatchlistInput {
+  name: string;
+  isPublic?: boolean;
+}
+
+/**
+ * List fields returned to clients; movieIds are in list order
+ */
+export const toWatchlistSummary = (list: Omit<WatchlistDocument, 'user'>) => ({
+  id: list.id as string,
+  name: list.name,
+  isPublic: list.isPublic,
+  count: list.items.length,
+  movieIds: list.items.map(({ movie }) => movie.toString()),
+  createdAt: list.createdAt,
+  updatedAt: list.updatedAt,
+});
+
+export type WatchlistSummary = ReturnType<typeof toWatchlistSummary>;
+
+type WatchlistOwner = { user: Pick<UserDocument, 'id' | 'name' | 'email'> | null };
+const OWNER_FIELDS = 'name email';
+
+const rethrowDuplicateName = (error: unknown, name: string): never => {
+  // Duplicate key on the (user, name) index
+  if ((error as { code?: number }).code === 11000) {
+    throw new DuplicateWatchlistNameError(name);
+  }
+  throw error;
+};
+
+const assertMovieExists = async (movieId: string): Promise<void> => {
+  if (!Types.ObjectId.isValid(movieId) || !(await MovieModel.exists({ _id: movieId }))) {
+    throw new WatchlistMovieNotFoundError(movieId);
+  }
+};
+
+// Owner-only lookup; other users' lists behave as if they did not exist
+const findOwnList = async (id: string, userId: string): Promise<WatchlistDocument | null> =>
+  Types.ObjectId.isValid(id) ? WatchlistModel.findOne({ _id: id, user: userId }) : null;
+
+export const listUserWatchlists = async (userId: string): Promise<WatchlistSummary[]> => {
+  const lists = await WatchlistModel.find({ user: userId }).sort({ createdAt: 1 });
+  return lists.map(toWatchlistSummary);
+};
+
+/**
+ * A list with its movies, for its owner or, if public, anyone. Returns null
+ * for missing lists and for private lists of other users.
+ */
+export const getWatchlist = async (id: string, viewerId?: string) => {
+  if (!Types.ObjectId.isValid(id)) return null;
+  const list = await WatchlistModel.findById(id).populate<WatchlistOwner>('user', OWNER_FIELDS);
+  if (!list) return null;
+
+  const ownerId: string | undefined = list.user?.id;
+  const isOwner = viewerId !== undefined && ownerId === viewerId;
+  if (!list.isPublic && !isOwner) return null;
+
+  const movies = await MovieModel.find({ _id: { $in: list.items.map(({ movie }) => movie) } });
+  const moviesById = new Map(movies.map((movie) => [movie.id as string, movie]));
+  return {
+    ...toWatchlistSummary(list),
+    isOwner,
+    // Shown by name, like review authors, never by email address
+    owner: { name: list.user?.name || list.user?.email.split('@')[0] || 'Former user' },
+    // Movies deleted since they were added are skipped
+    movies: list.items.flatMap(({ movie, addedAt }) => {
+      const found = moviesById.get(movie.toString());
+      return found ? [{ ...toMovieSummary(found), addedAt }] : [];
+    }),
+  };
+};
+
+export const createWatchlist = async (
+  userId: string,
+  { name, isPublic = false }: WatchlistInput,
+): Promise<WatchlistSummary> => {
+  try {
+    return toWatchlistSummary(await WatchlistModel.create({ user: userId, name, isPublic }));
+  } catch (error) {
+    return rethrowDuplicateName(error, name);
+  }
+};
+
+/**
+ * Rename a list or change its visibility. Returns null if the user has no such list.
+ */
+export const updateWatchlist = async (
+  id: string,
+  userId: string,
+  changes: Partial<WatchlistInput>,
+): Promise<WatchlistSummary | null> => {
+  const list = await findOwnList(id, userId);
+  if (!list) return null;
+  if (changes.name !== undefined) list.name = changes.name;
+  if (changes.isPublic !== undefined) list.isPublic = changes.isPublic;
+  try {
+    await list.save();
+  } catch (error) {
+    return rethrowDuplicateName(error, list.name);
+  }
+  return toWatchlistSummary(list);
+};
+
+export const deleteWatchlist = async (id: string, userId: string): Promise<boolean> => {
+  if (!Types.ObjectId.isValid(id)) return false;
+  const result = await WatchlistModel.deleteOne({ _id: id, user: userId });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Add a movie at `position` (default: the end). Adding a movie that is
+ * already on the list leaves it where it is. Returns null if the user has no
+ * such list.
+ */
+export const addMovieToWatchlist = async (
+  id: string,
+  userId: string,
+  movieId: string,
+  position?: number,
+): Promise<WatchlistSummary | null> => {
+  await assertMovieExists(movieId);
+  if (!(await findOwnList(id, userId))) return null;
+
+  // Atomic so concurrent adds cannot duplicate the movie
+  await WatchlistModel.updateOne(
+    { _id: id, user: userId, 'items.movie': { $ne: new Types.ObjectId(movieId) } },
+    {
+      $push: {
+        items: {
+          $each: [{ movie: new Types.ObjectId(movieId), addedAt: new Date() }],
+          ...(position !== undefined && { $position: position }),
+        },
+      },
+    },
+  );
+  return findOwnList(id, userId).then((list) => list && toWatchlistSummary(list));
+};
+
+export const removeMovieFromWatchlist = async (
+  id: string,
+  userId: string,
+  movieId: string,
+): Promise<WatchlistSummary | null> => {
+  const list = await findOwnList(id, userId);
+  if (!list) return null;
+  if (!Types.ObjectId.isValid(movieId)) return toWatchlistSummary(list);
+
+  const updated = await WatchlistModel.findOneAndUpdate(
+    { _id: id, user: userId },
+    { $pull: { items: { movie: new Types.ObjectId(movieId) } } },
+    { new: true },
+  );
+  return updated && toWatchlistSummary(updated);
+};
+
+/**
+ * Put the list's movies in the given order; `movieIds` must list each of
+ * them exactly once. Returns null if the user has no such list.
+ */
+export const reorderWatchlist = async (
+  id: string,
+  userId: string,
+  movieIds: string[],
+): Promise<WatchlistSummary | null> => {
+  const list = await findOwnList(id, userId);
+  if (!list) return null;
+
+  const itemsById = new Map(list.items.map((item) => [item.movie.toString(), item]));
+  if (movieIds.length !== itemsById.size || new Set(movieIds).size !== movieIds.length) {
+    throw new InvalidWatchlistOrderError();
+  }
+  const reordered = movieIds.map((movieId) => itemsById.get(movieId));
+  if (reordered.some((item) => !item)) {
+    throw new InvalidWatchlistOrderError();
+  }
+
+  list.items = reordered as WatchlistDocument['items'];
+  await list.save();
+  return toWatchlistSummary(list);
+};
+
+/**
+ * A user's favourite movies, most recently added first
+ */
+export const listFavourites = async (userId: string) => {
+  const favourites = await FavouriteModel.find({ user: userId }).sort({ createdAt: -1 });
+  const movies = await MovieModel.find({ _id: { $in: favourites.map(({ movie }) => movie) } });
+  const moviesById = new Map(movies.map((movie) => [movie.id as string, movie]));
+  return {
+    count: favourites.length,
+    movieIds: favourites.map(({ movie }) => movie.toString()),
+    movies: favourites.flatMap(({ movie, createdAt }) => {
+      const found = moviesById.get(movie.toString());
+      return found ? [{ ...toMovieSummary(found), addedAt: createdAt }] : [];
+    }),
+  };
+};
+
+export type Favourites = Awaited<ReturnType<typeof listFavourites>>;
+
+/**
+ * Mark a movie as a favourite; marking it again changes nothing
+ */
+export const addFavourite = async (userId: string, movieId: string): Promise<Favourites> => {
+  await assertMovieExists(movieId);
+  // Upsert so concurrent adds cannot create two favourites
+  await FavouriteModel.updateOne(
+    { user: userId, movie: movieId },
+    { $setOnInsert: { user: userId, movie: movieId } },
+    { upsert: true },
+  );
+  return listFavourites(userId);
+};
+
+export const removeFavourite = async (userId: string, movieId: string): Promise<Favourites> => {
+  if (Types.ObjectId.isValid(movieId)) {
+    await FavouriteModel.deleteOne({ user: userId, movie: movieId });
+  }
+  return listFavourites(userId);
+};
+
+/**
+ * Take deleted movies off every list and out of favourites
+ */
+export const removeMoviesFromWatchlists = async (movieIds: string[]): Promise<void> => {
+  const ids = movieIds.filter((id) => Types.ObjectId.isValid(id)).map((id) => new Types.ObjectId(id));
+  await WatchlistModel.updateMany(
+    { 'items.movie': { $in: ids } },
+    { $pull: { items: { movie: { $in: ids } } } },
+  );
+  await FavouriteModel.deleteMany({ movie: { $in: ids } });
+};
+
+/**
+ * Point list entries and favourites for duplicate movies at the movie they
+ * were merged into, keeping their place; a list that already has that movie
+ * just drops them
+ */
+export const moveWatchlistItemsToMovie = async (fromMovieIds: string[], toMovieId: string): Promise<void> => {
+  const from = new Set(fromMovieIds);
+  const lists = await WatchlistModel.find({ 'items.movie': { $in: fromMovieIds } });
+  for (const list of lists) {
+    const seen = new Set<string>();
+    list.items = list.items.flatMap((item) => {
+      const movieId = from.has(item.movie.toString()) ? toMovieId : item.movie.toString();
+      if (seen.has(movieId)) return [];
+      seen.add(movieId);
+      return [{ movie: new Types.ObjectId(movieId), addedAt: item.addedAt }];
+    });
+    await list.save();
+  }
+
+  const favourites = await FavouriteModel.find({ movie: { $in: fromMovieIds } });
+  for (const { user, createdAt } of favourites) {
+    await FavouriteModel.updateOne(
+      { user, movie: toMovieId },
+      { $setOnInsert: { user, movie: toMovieId, createdAt } },
+      { upsert: true, timestamps: false },
+    );
+  }
+  await FavouriteModel.deleteMany({ movie: { $in: fromMovieIds } });
+};
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+/**
+ * Signals combined by the blended recommender (see blendedRecommendationService):
+ * - semantic: cosine of the movies' stored vectors (plot, else genre, else title)
+ * - genres: Jaccard overlap of the genre lists
+ * - cast: share of the smaller cast list that both movies have
+ * - director: 1 when the director is the same
+ * - era: 1 for the same year, falling to 0 at 20 years apart
+ * - rating: the candidate's own rating / 10
+ */
+export const BLEND_FEATURES = ['semantic', 'genres', 'cast', 'director', 'era', 'rating'] as const;
+
+export type BlendFeature = (typeof BLEND_FEATURES)[number];
+export type BlendWeights = Record<BlendFeature, number>;
+export type BlendScores = Record<BlendFeature, number>;
+
+export const DEFAULT_BLEND_WEIGHTS: BlendWeights = {
+  semantic: 0.4,
+  genres: 0.2,
+  cast: 0.1,
+  director: 0.1,
+  era: 0.1,
+  rating: 0.1,
+};
+
+const isBlendFeature = (value: string): value is BlendFeature =>
+  (BLEND_FEATURES as readonly string[]).includes(value);
+
+/**
+ * Query param: comma-separated feature:weight pairs, e.g. `weights=semantic:0.6,genres:0.4`.
+ * Features that are not listed keep their default weight; set them to 0 to ignore them.
+ */
+export const blendWeightsParam = z.string().transform((value, ctx) => {
+  const weights: BlendWeights = { ...DEFAULT_BLEND_WEIGHTS };
+  for (const pair of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [feature, rawWeight] = pair.split(':').map((part) => part.trim());
+    const weight = Number(rawWeight);
+    if (!feature || !isBlendFeature(feature) || !Number.isFinite(weight) || weight < 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Invalid weight '${pair}'. Expected <feature>:<non-negative number> with feature in ${BLEND_FEATURES.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    weights[feature] = weight;
+  }
+  if (Object.values(weights).every((weight) => weight === 0)) {
+    ctx.addIssue({ code: 'custom', message: 'At least one weight must be above 0' });
+    return z.NEVER;
+  }
+  return weights;
+});
+
+/**
+ * Weighted average of the feature scores, 0-1
+ */
+export const blendScores = (scores: BlendScores, weights: BlendWeights): number => {
+  let total = 0;
+  let weightSum = 0;
+  for (const feature of BLEND_FEATURES) {
+    total += weights[feature] * scores[feature];
+    weightSum += weights[feature];
+  }
+  return weightSum > 0 ? total / weightSum : 0;
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+// Embedding sources stored per movie (see buildEmbeddingTexts in ingestionService)
+export const EMBEDDING_FIELDS = ['title', 'plot', 'genre'] as const;
+
+export type EmbeddingField = (typeof EMBEDDING_FIELDS)[number];
+export type FieldWeights = Partial<Record<EmbeddingField, number>>;
+export type FieldScores = Partial<Record<EmbeddingField, number>>;
+
+const isEmbeddingField = (value: string): value is EmbeddingField =>
+  (EMBEDDING_FIELDS as readonly string[]).includes(value);
+
+/**
+ * Query param: comma-separated list of fields, e.g. `fields=plot,genre`
+ */
+export const fieldsParam = z.string().transform((value, ctx) => {
+  const fields = value.split(',').map((f) => f.trim()).filter(Boolean);
+  const invalid = fields.filter((f) => !isEmbeddingField(f));
+  if (invalid.length > 0) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Unknown field(s): ${invalid.join(', ')}. Expected one of ${EMBEDDING_FIELDS.join(', ')}`,
+    });
+    return z.NEVER;
+  }
+  return fields as EmbeddingField[];
+});
+
+/**
+ * Query param: comma-separated field:weight pairs, e.g. `weights=plot:0.6,genre:0.3,title:0.1`
+ */
+export const weightsParam = z.string().transform((value, ctx) => {
+  const weights: FieldWeights = {};
+  for (const pair of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [field, rawWeight] = pair.split(':').map((part) => part.trim());
+    const weight = Number(rawWeight);
+    if (!field || !isEmbeddingField(field) || !Number.isFinite(weight) || weight < 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Invalid weight '${pair}'. Expected <field>:<non-negative number> with field in ${EMBEDDING_FIELDS.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    weights[field] = weight;
+  }
+  return weights;
+});
+
+/**
+ * Combine `fields` and `weights` query params into one weight map.
+ * `fields` alone gives equal weights; `weights` alone is used as-is; with both,
+ * weights are restricted to the listed fields (unweighted listed fields get 1).
+ * Returns undefined when neither is set, meaning "keep the best source score".
+ */
+export const resolveFieldWeights = (
+  fields?: EmbeddingField[],
+  weights?: FieldWeights,
+): FieldWeights | undefined => {
+  if (!fields?.length && !weights) return undefined;
+
+  const selected = fields?.length ? fields : (Object.keys(weights ?? {}) as EmbeddingField[]);
+  const resolved: FieldWeights = {};
+  for (const field of selected) {
+    resolved[field] = weights?.[field] ?? 1;
+  }
+  return resolved;
+};
+
+/**
+ * Weighted average of per-field scores. Fields the movie has no score for
+ * (not returned in the top-k) count as 0 so one lucky field cannot dominate.
+ */
+export const aggregateFieldScores = (scores: FieldScores, weights: FieldWeights): number => {
+  let total = 0;
+  let weightSum = 0;
+  for (const field of Object.keys(weights) as EmbeddingField[]) {
+    const weight = weights[field] ?? 0;
+    total += weight * (scores[field] ?? 0);
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : 0;
+};
@@ -8,8 +8,19 @@ export interface SearchFilters {
   minYear?: number;
   maxYear?: number;
   director?: string;
+  // Full director names the `director` filter matches in MongoDB; vector DB
+  // filters compare against these (see resolveDirectorFilter)
+  directorNames?: string[];
 }
 
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive partial match on director names; the term is matched as
+ * plain text, so regex characters in it cannot break or slow down the query
+ */
+export const directorMatch = (term: string) => ({ $regex: escapeRegExp(term.trim()), $options: 'i' });
+
 /**
  * Build MongoDB query from filters
  */
@@ -21,7 +32,7 @@ export const buildFilterQuery = (filters: SearchFilters): Record<string, any> =>
   }
 
   if (filters.director) {
-    query.director = { $regex: filters.director, $options: 'i' };
+    query.director = directorMatch(filters.director);
   }
 
   if (filters.minYear || filters.maxYear) {
@@ -40,6 +51,165 @@ export const buildFilterQuery = (filters: SearchFilters): Record<string, any> =>
   return query;
 };
 
+/**
+ * Normalize a director name for exact matching in vector DB payloads.
+ * Vector stores cannot run Mongo-style regexes, so the payload carries a
+ * lowercased copy and filters compare against it.
+ */
+export const normalizeDirector = (director: string): string =>
+  director.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Normalized director values a vector payload may have to match the filter
+const directorValues = (filters: SearchFilters): string[] =>
+  (filters.directorNames ?? [filters.director!]).map(normalizeDirector);
+
+/**
+ * Chroma metadata values must be scalars, so each genre is stored as its own
+ * boolean flag (e.g. `genre:Sci-Fi: true`) instead of an array.
+ */
+export const chromaGenreKey = (genre: string): string => `genre:${genre}`;
+
+/**
+ * Check whether any filter would restrict the result set
+ */
+export const hasActiveFilters = (filters?: SearchFilters): boolean => {
+  if (!filters) return false;
+  return Boolean(
+    (filters.genres && filters.genres.length > 0) ||
+      filters.director ||
+      filters.minYear ||
+      filters.maxYear ||
+      filters.minRating ||
+      filters.maxRating,
+  );
+};
+
+/**
+ * Build Qdrant payload filter from filters
+ * See https://qdrant.tech/documentation/concepts/filtering/
+ */
+export const buildQdrantFilter = (
+  filters: SearchFilters,
+): { must: Record<string, unknown>[] } | undefined => {
+  const must: Record<string, unknown>[] = [];
+
+  if (filters.genres && filters.genres.length > 0) {
+    must.push({ key: 'genres', match: { any: filters.genres } });
+  }
+
+  if (filters.director) {
+    must.push({ key: 'directorNormalized', match: { any: directorValues(filters) } });
+  }
+
+  if (filters.minYear || filters.maxYear) {
+    const range: Record<string, number> = {};
+    if (filters.minYear) range.gte = filters.minYear;
+    if (filters.maxYear) range.lte = filters.maxYear;
+    must.push({ key: 'releaseYear', range });
+  }
+
+  if (filters.minRating || filters.maxRating) {
+    const range: Record<string, number> = {};
+    if (filters.minRating) range.gte = filters.minRating;
+    if (filters.maxRating) range.lte = filters.maxRating;
+    must.push({ key: 'rating', range });
+  }
+
+  return must.length > 0 ? { must } : undefined;
+};
+
+/**
+ * Build Pinecone metadata filter from filters
+ * Top-level keys are implicitly ANDed by Pinecone
+ */
+export const buildPineconeFilter = (
+  filters: SearchFilters,
+): Record<string, unknown> | undefined => {
+  const filter: Record<string, any> = {};
+
+  if (filters.genres && filters.genres.length > 0) {
+    filter.genres = { $in: filters.genres };
+  }
+
+  if (filters.director) {
+    filter.directorNormalized = { $in: directorValues(filters) };
+  }
+
+  if (filters.minYear || filters.maxYear) {
+    filter.releaseYear = {};
+    if (filters.minYear) filter.releaseYear.$gte = filters.minYear;
+    if (filters.maxYear) filter.releaseYear.$lte = filters.maxYear;
+  }
+
+  if (filters.minRating || filters.maxRating) {
+    filter.rating = {};
+    if (filters.minRating) filter.rating.$gte = filters.minRating;
+    if (filters.maxRating) filter.rating.$lte = filters.maxRating;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+/**
+ * Build Chroma `where` clause from filters
+ * Chroma allows one operator per clause and requires 2+ entries in $and/$or
+ */
+export const buildChromaWhere = (
+  filters: SearchFilters,
+): Record<string, unknown> | undefined => {
+  const clauses: Record<string, unknown>[] = [];
+
+  if (filters.genres && filters.genres.length > 0) {
+    const genreClauses = filters.genres.map((genre) => ({
+      [chromaGenreKey(genre)]: { $eq: true },
+    }));
+    clauses.push(genreClauses.length === 1 ? genreClauses[0]! : { $or: genreClauses });
+  }
+
+  if (filters.director) {
+    clauses.push({ directorNormalized: { $in: directorValues(filters) } });
+  }
+
+  if (filters.minYear) clauses.push({ releaseYear: { $gte: filters.minYear } });
+  if (filters.maxYear) clauses.push({ releaseYear: { $lte: filters.maxYear } });
+  if (filters.minRating) clauses.push({ rating: { $gte: filters.minRating } });
+  if (filters.maxRating) clauses.push({ rating: { $lte: filters.maxRating } });
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+};
+
+/**
+ * Evaluate filters against a vector payload in-process (in-memory vector store).
+ * Mirrors the semantics of the Qdrant/Pinecone/Chroma translations above.
+ */
+export const matchesPayloadFilters = (
+  payload: Record<string, unknown>,
+  filters: SearchFilters,
+): boolean => {
+  if (filters.genres && filters.genres.length > 0) {
+    const genres = Array.isArray(payload.genres) ? (payload.genres as string[]) : [];
+    if (!filters.genres.some((genre) => genres.includes(genre))) return false;
+  }
+
+  if (filters.director) {
+    if (!directorValues(filters).includes(String(payload.directorNormalized))) return false;
+  }
+
+  const inRange = (value: unknown, min?: number, max?: number): boolean => {
+    if (!min && !max) return true;
+    if (typeof value !== 'number') return false;
+    if (min && value < min) return false;
+    if (max && value > max) return false;
+    return true;
+  };
+
+  return (
+    inRange(payload.releaseYear, filters.minYear, filters.maxYear) &&
+    inRange(payload.rating, filters.minRating, filters.maxRating)
+  );
+};
+
 /**
  * Get all unique genres for filter dropdown
  */
@@ -88,7 +258,7 @@ export const getYearRange = async (MovieModel: any): Promise<{ min: number; max:
 export const getDirectors = async (MovieModel: any, searchTerm?: string): Promise<string[]> => {
   try {
     const query = searchTerm
-      ? { director: { $regex: searchTerm, $options: 'i' } }
+      ? { director: directorMatch(searchTerm) }
       : {};
 
     const directors = await MovieModel.distinct('director', query);
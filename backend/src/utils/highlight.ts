@@ -0,0 +1,52 @@
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+// Words too common to be worth highlighting
+const STOP_WORDS = new Set([
+  'about', 'after', 'and', 'are', 'but', 'for', 'from', 'has', 'have', 'her',
+  'his', 'into', 'its', 'movie', 'movies', 'not', 'film', 'films', 'that',
+  'the', 'their', 'them', 'then', 'they', 'this', 'was', 'who', 'with',
+]);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Distinct query words worth matching: 3+ characters and not a stop word
+ */
+export const queryTerms = (query: string): string[] => [
+  ...new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length >= 3 && !STOP_WORDS.has(term)),
+  ),
+];
+
+// Words starting with one of the terms (so "hack" also matches "hackers")
+const termPattern = (terms: string[]): RegExp =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`,
+    'giu',
+  );
+
+/**
+ * Character ranges in `text` of words that start with one of the query's
+ * terms. Ranges are sorted and do not overlap.
+ */
+export const highlightTerms = (text: string, query: string): HighlightRange[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  return Array.from(text.matchAll(termPattern(terms)), (match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+};
+
+/**
+ * The subset of `terms` that occur in `text` (as a word or word prefix)
+ */
+export const findTerms = (text: string, terms: string[]): string[] =>
+  terms.filter((term) => termPattern([term]).test(text));
@@ -0,0 +1,65 @@
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+export interface MmrOptions<T> {
+  limit: number;
+  // 0 keeps the relevance order, 1 only avoids similarity to picked items
+  diversity: number;
+  // On a 0-1 scale comparable with cosine similarity
+  relevance: (item: T) => number;
+  vector: (item: T) => number[] | undefined;
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the item with the best
+ * (1 - diversity) * relevance - diversity * (highest similarity to an item
+ * already picked). Items without a vector never count as near-duplicates.
+ * Picks are greedy, so over the same `items` a longer `limit` extends a
+ * shorter one; a different set of items can change the earlier picks too.
+ */
+export const mmrRerank = <T>(
+  items: T[],
+  { limit, diversity, relevance, vector }: MmrOptions<T>,
+): T[] => {
+  const remaining = items.map((item) => ({
+    item,
+    relevance: relevance(item),
+    vector: vector(item),
+    // Highest similarity to any picked item so far
+    redundancy: 0,
+  }));
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIdx = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, idx) => {
+      const score = (1 - diversity) * candidate.relevance - diversity * candidate.redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIdx = idx;
+      }
+    });
+
+    const [best] = remaining.splice(bestIdx, 1);
+    picked.push(best!.item);
+    if (best!.vector) {
+      remaining.forEach((candidate) => {
+        if (candidate.vector) {
+          candidate.redundancy = Math.max(candidate.redundancy, cosine(best!.vector!, candidate.vector));
+        }
+      });
+    }
+  }
+
+  return picked;
+};
@@ -0,0 +1,52 @@
+/**
+ * A ranked list of results produced by a single retrieval channel
+ */
+export interface RankedChannel<T> {
+  channel: string;
+  items: T[];
+  weight?: number;
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  // 1-based rank of the item in every channel that returned it
+  ranks: Record<string, number>;
+}
+
+/**
+ * Reciprocal rank fusion: score(d) = Σ weight_c / (k + rank_c(d))
+ * Items are matched across channels by `getKey`; the first occurrence wins
+ * as the representative item. `k` dampens the advantage of top ranks
+ * (60 is the value used in the original RRF paper).
+ */
+export const reciprocalRankFusion = <T>(
+  channels: RankedChannel<T>[],
+  getKey: (item: T) => string,
+  k = 60,
+): FusedResult<T>[] => {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const { channel, items, weight = 1 } of channels) {
+    items.forEach((item, index) => {
+      const key = getKey(item);
+      const rank = index + 1;
+      const existing = fused.get(key);
+
+      if (existing) {
+        // Ignore repeated keys within the same channel, keep the best rank
+        if (existing.ranks[channel] !== undefined) return;
+        existing.ranks[channel] = rank;
+        existing.score += weight / (k + rank);
+      } else {
+        fused.set(key, {
+          item,
+          score: weight / (k + rank),
+          ranks: { [channel]: rank },
+        });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+};
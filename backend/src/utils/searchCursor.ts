@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+
+// Deepest result ranked searches page to: every page re-runs the vector
+// query for all results above it
+export const MAX_SEARCH_DEPTH = 200;
+
+/**
+ * Position after the last result a client has seen. Ranked searches resume
+ * below `score` (ties after `lastId` included, or none if `lastId` has left
+ * the results), so results shifting between requests are not repeated;
+ * `offset` sizes the next vector query and is the position for searches
+ * without scores.
+ */
+export interface SearchCursor {
+  offset: number;
+  score?: number;
+  lastId?: string;
+}
+
+/**
+ * The cursor is malformed or was issued for a different query or filters
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid or expired cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// JSON with sorted object keys, so equal params always hash the same
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Short hash of everything that determines the ranking (query, mode,
+ * weights, filters, sort). A cursor is only accepted for the same fingerprint.
+ */
+export const searchFingerprint = (params: Record<string, unknown>): string =>
+  createHash('sha256').update(JSON.stringify(canonicalize(params))).digest('hex').slice(0, 16);
+
+/**
+ * Opaque token: base64url JSON of the fingerprint and the cursor position
+ */
+export const encodeCursor = (fingerprint: string, cursor: SearchCursor): string =>
+  Buffer.from(
+    JSON.stringify({ h: fingerprint, o: cursor.offset, s: cursor.score, id: cursor.lastId }),
+  ).toString('base64url');
+
+export const decodeCursor = (token: string, fingerprint: string): SearchCursor => {
+  let decoded: { h?: unknown; o?: unknown; s?: unknown; id?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    decoded.h !== fingerprint ||
+    typeof decoded.o !== 'number' ||
+    !Number.isInteger(decoded.o) ||
+    decoded.o < 0 ||
+    (decoded.s !== undefined && typeof decoded.s !== 'number') ||
+    (decoded.id !== undefined && typeof decoded.id !== 'string')
+  ) {
+    throw new InvalidCursorError(
+      decoded.h !== fingerprint
+        ? 'Cursor does not belong to this query; start again without a cursor'
+        : undefined,
+    );
+  }
+
+  return { offset: decoded.o, score: decoded.s as number | undefined, lastId: decoded.id as string | undefined };
+};
+
+// Index in `ranked` where the page after `cursor` starts
+const resumeIndex = <T>(
+  ranked: T[],
+  cursor: SearchCursor,
+  getId: (item: T) => string,
+  getScore?: (item: T) => number,
+): number => {
+  if (!getScore || cursor.score === undefined) return cursor.offset;
+  const threshold = cursor.score;
+  const lastIdx = cursor.lastId ? ranked.findIndex((item) => getId(item) === cursor.lastId) : -1;
+  const start = ranked.findIndex((item, idx) => {
+    const score = getScore(item);
+    // Without the last item to anchor on, ties at the threshold may
+    // already have been shown, so resume strictly below it
+    return score < threshold || (score === threshold && lastIdx !== -1 && idx > lastIdx);
+  });
+  return start === -1 ? ranked.length : start;
+};
+
+/**
+ * Take the page after `cursor` from results ranked best-first. `ranked` must
+ * hold at least one item past the page when that many exist, so the extra
+ * item tells whether there is a next page (see fetchRankedPage).
+ */
+export const paginateRanked = <T>(
+  ranked: T[],
+  cursor: SearchCursor,
+  limit: number,
+  getId: (item: T) => string,
+  getScore?: (item: T) => number,
+): { page: T[]; next?: SearchCursor } => {
+  const start = resumeIndex(ranked, cursor, getId, getScore);
+  const page = ranked.slice(start, start + limit);
+  const last = page[page.length - 1];
+  if (!last || ranked.length <= start + limit) {
+    return { page };
+  }
+
+  return {
+    page,
+    next: {
+      // Where this page really ended, which is below cursor.offset when
+      // new results ranked above the previous page
+      offset: start + page.length,
+      ...(getScore && { score: getScore(last) }),
+      lastId: getId(last),
+    },
+  };
+};
+
+/**
+ * Rank deep enough for the page after `cursor` and take it. A ranked search
+ * resumes below the cursor's score, which sits deeper than `cursor.offset`
+ * once new results rank above it, so the ranking is fetched again deeper
+ * until the page (plus one) fits or the ranking runs out.
+ */
+export const fetchRankedPage = async <T>(
+  rank: (depth: number) => Promise<T[]>,
+  cursor: SearchCursor,
+  limit: number,
+  getId: (item: T) => string,
+  getScore?: (item: T) => number,
+): Promise<{ page: T[]; next?: SearchCursor }> => {
+  let depth = Math.min(cursor.offset + limit + 1, MAX_SEARCH_DEPTH);
+  for (;;) {
+    const ranked = await rank(depth);
+    const start = resumeIndex(ranked, cursor, getId, getScore);
+    // Not even the resume point was reached: double the depth rather than
+    // creeping down a page at a time
+    const needed = Math.min(start < ranked.length ? start + limit + 1 : depth * 2, MAX_SEARCH_DEPTH);
+    // Fewer results than asked for means the ranking is exhausted
+    if (ranked.length < depth || needed <= depth) {
+      return paginateRanked(ranked, cursor, limit, getId, getScore);
+    }
+    depth = needed;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * A slice of a longer text; `start`/`end` are character offsets into the
+ * original string, so `text === original.slice(start, end)`
+ */
+export interface TextChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const SENTENCE_END = /[.!?]["')\]]?\s/g;
+const WHITESPACE = /\s/;
+
+/**
+ * Best place to end a chunk within (minEnd, maxEnd]: after the last sentence
+ * end, else at the last whitespace, else a hard cut at maxEnd
+ */
+const findBreak = (text: string, minEnd: number, maxEnd: number): number => {
+  const window = text.slice(minEnd, maxEnd + 1);
+
+  let sentenceBreak = -1;
+  for (const match of window.matchAll(SENTENCE_END)) {
+    sentenceBreak = match.index + match[0].length - 1;
+  }
+  if (sentenceBreak > 0) {
+    return minEnd + sentenceBreak;
+  }
+
+  for (let i = maxEnd; i > minEnd; i--) {
+    if (WHITESPACE.test(text[i]!)) return i;
+  }
+  return maxEnd;
+};
+
+const skipWhitespace = (text: string, from: number): number => {
+  let i = from;
+  while (i < text.length && WHITESPACE.test(text[i]!)) i++;
+  return i;
+};
+
+/**
+ * Split text into chunks of at most `maxChars` characters that overlap by
+ * roughly `overlapChars`, breaking at sentence or word boundaries where
+ * possible and cutting mid-word otherwise. Text that fits in one chunk is
+ * returned as a single chunk.
+ */
+export const chunkText = (text: string, maxChars: number, overlapChars = 0): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  // Overlap beyond half a chunk would make progress too slow
+  const overlap = Math.min(Math.max(overlapChars, 0), Math.floor(maxChars / 2));
+
+  let start = skipWhitespace(text, 0);
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      end = findBreak(text, start + Math.floor(maxChars / 2), end);
+    }
+    const slice = text.slice(start, end).trimEnd();
+    chunks.push({ index: chunks.length, start, end: start + slice.length, text: slice });
+
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the start of the next word.
+    // A chunk cut mid-word (a long token, or CJK text without spaces) has no
+    // word start to go to, so it overlaps by a plain character window.
+    const overlapStart = Math.max(end - overlap, start + 1);
+    let next = overlapStart;
+    if (next > 0 && !WHITESPACE.test(text[next - 1]!)) {
+      while (next < end && !WHITESPACE.test(text[next]!)) next++;
+      if (next >= end && !WHITESPACE.test(text[end]!)) next = overlapStart;
+    }
+    start = skipWhitespace(text, next);
+  }
+
+  return chunks;
+};
+
+/**
+ * Split text into sentences, keeping offsets into the original string
+ */
+export const splitSentences = (text: string): TextChunk[] => {
+  const sentences: TextChunk[] = [];
+  let start = skipWhitespace(text, 0);
+
+  const push = (end: number) => {
+    const slice = text.slice(start, end).trimEnd();
+    if (slice) {
+      sentences.push({ index: sentences.length, start, end: start + slice.length, text: slice });
+    }
+  };
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length - 1;
+    if (end <= start) continue;
+    push(end);
+    start = skipWhitespace(text, end);
+  }
+  if (start < text.length) push(text.length);
+
+  return sentences;
+};
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getFavourites } from '../../lib/api';
+import { getPosterUrl } from '../../lib/apiConfig';
+import { setFavourite } from '../../lib/favourites';
+import { useSession } from '../../lib/useSession';
+import { LoginForm } from '../../components/LoginForm';
+import type { Favourites } from '../../types/movie';
+
+export default function FavouritesPage() {
+  const session = useSession();
+  const userId = session?.user.id;
+  // Tagged with the user it was loaded for, so a new login shows as loading
+  const [loaded, setLoaded] = useState<{ userId: string; favourites: Favourites } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    getFavourites()
+      .then((favourites) => {
+        setLoaded({ userId, favourites });
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load favourites'));
+  }, [userId]);
+
+  const favourites = loaded && loaded.userId === userId ? loaded.favourites : null;
+
+  const handleRemove = async (movieId: string) => {
+    if (!userId) return;
+    try {
+      setLoaded({ userId, favourites: await setFavourite(userId, movieId, false) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
+      {!session ? (
+        <main className="mx-auto max-w-md">
+          <h1 className="mb-2 text-3xl font-semibold">Favourites</h1>
+          <p className="mb-6 text-slate-400">Log in to keep track of the movies you love.</p>
+          <LoginForm />
+        </main>
+      ) : (
+        <main className="mx-auto max-w-4xl">
+          <div className="mb-6 flex items-baseline justify-between">
+            <h1 className="text-3xl font-semibold">♥ Favourites</h1>
+            <Link href="/watchlist" className="text-sm text-emerald-300 hover:underline">
+              My lists →
+            </Link>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-lg bg-rose-900/50 border border-rose-500 p-3 text-sm text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {!favourites ? (
+            !error && <p className="text-slate-400">Loading favourites...</p>
+          ) : favourites.movies.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-white/20 p-6 text-slate-400">
+              No favourites yet. Tap ♡ on a movie to add it.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {favourites.movies.map((movie) => (
+                <li
+                  key={movie.id}
+                  className="flex items-center gap-4 rounded-xl border border-white/10 bg-white/5 p-3"
+                >
+                  {movie.posterGridFSId ? (
+                    <img
+                      src={getPosterUrl(movie.id)}
+                      alt={`${movie.title} poster`}
+                      className="h-20 w-14 rounded object-cover"
+                    />
+                  ) : movie.posterUrl ? (
+                    <img
+                      src={movie.posterUrl}
+                      alt={`${movie.title} poster`}
+                      className="h-20 w-14 rounded object-cover"
+                    />
+                  ) : (
+                    <div className="h-20 w-14 rounded bg-slate-800"></div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <Link
+                      href={`/movies/${movie.id}`}
+                      className="font-semibold text-white hover:text-emerald-300"
+                    >
+                      {movie.title}
+                    </Link>
+                    <p className="text-xs text-slate-400">
+                      {[movie.releaseYear, movie.genres.slice(0, 2).join(' • ')]
+                        .filter(Boolean)
+                        .join(' • ')}
+                      {' · added '}
+                      {new Date(movie.addedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(movie.id)}
+                    className="shrink-0 rounded px-2 py-1 text-sm text-rose-300 hover:bg-white/10"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      )}
+    </div>
+  );
+}
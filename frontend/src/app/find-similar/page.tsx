@@ -2,19 +2,45 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { searchMovies, fetchSimilarMovies, getMovie, getAllMovies } from '../../lib/api';
+import {
+  searchMovies,
+  fetchSimilarMovies,
+  fetchMoviesLikeThese,
+  getMovie,
+  getAllMovies,
+} from '../../lib/api';
 import { getPosterUrl } from '../../lib/apiConfig';
-import type { MovieSummary, SimilarMovie, Movie } from '../../types/movie';
+import type {
+  MovieSummary,
+  SimilarMovie,
+  SimilarMoviesResponse,
+  Movie,
+} from '../../types/movie';
+
+type Mode = 'single' | 'multi';
+// In multi-select mode a movie is either liked (a seed) or disliked (a negative example)
+type PickRole = 'seed' | 'negative';
+
+interface Pick {
+  movie: MovieSummary;
+  role: PickRole;
+}
+
+const MAX_PICKS = 20;
 
 export default function FindSimilarPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<MovieSummary[]>([]);
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null);
   const [similarMovie, setSimilarMovie] = useState<SimilarMovie | null>(null);
+  const [basedOn, setBasedOn] = useState<SimilarMoviesResponse['basedOn'] | null>(null);
   const [loading, setLoading] = useState(false);
   const [searching, setSearching] = useState(false);
   const [browsing, setBrowsing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>('single');
+  const [picks, setPicks] = useState<Pick[]>([]);
+  const [likeTheseResults, setLikeTheseResults] = useState<SimilarMovie[] | null>(null);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,37 +87,78 @@ export default function FindSimilarPage() {
     }
   };
 
+  // Clicking a movie cycles it through liked → disliked → not picked
+  const togglePick = (movie: MovieSummary) => {
+    setLikeTheseResults(null);
+    setPicks((current) => {
+      const existing = current.find((pick) => pick.movie.id === movie.id);
+      if (!existing) {
+        return current.length >= MAX_PICKS ? current : [...current, { movie, role: 'seed' }];
+      }
+      if (existing.role === 'seed') {
+        return current.map((pick) =>
+          pick.movie.id === movie.id ? { ...pick, role: 'negative' } : pick
+        );
+      }
+      return current.filter((pick) => pick.movie.id !== movie.id);
+    });
+  };
+
+  const handleFindLikeThese = async () => {
+    const seedIds = picks.filter((pick) => pick.role === 'seed').map((pick) => pick.movie.id);
+    const negativeIds = picks
+      .filter((pick) => pick.role === 'negative')
+      .map((pick) => pick.movie.id);
+    if (!seedIds.length) return;
+
+    setLoading(true);
+    setError(null);
+    setLikeTheseResults(null);
+
+    try {
+      const response = await fetchMoviesLikeThese(seedIds, negativeIds, 12);
+      setLikeTheseResults(response.results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find similar movies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: Mode) => {
+    reset();
+    setPicks([]);
+    setLikeTheseResults(null);
+    setMode(next);
+  };
+
   const handleSelectMovie = async (movie: MovieSummary) => {
+    if (mode === 'multi') {
+      togglePick(movie);
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setSimilarMovie(null);
+    setBasedOn(null);
 
     try {
       // Get full movie details
       const fullMovie = await getMovie(movie.id);
       setSelectedMovie(fullMovie);
 
-      // Check if movie has a plot (required for similarity search)
-      if (!fullMovie.plot || fullMovie.plot.trim() === '') {
-        setError('This movie does not have a plot description. Similarity search requires a plot to work.');
-        setLoading(false);
-        return;
-      }
-
-      // Find the most similar movie (limit=1)
+      // Find the most similar movie (limit=1). Movies without a plot are
+      // compared by their genre or title instead.
       const response = await fetchSimilarMovies(movie.id, 1);
       if (response.results && response.results.length > 0) {
         setSimilarMovie(response.results[0]);
+        setBasedOn(response.basedOn ?? null);
       } else {
         setError('No similar movie found. This might happen if there are no other movies in the database with similar plots.');
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to find similar movie';
-      if (errorMessage.includes('missing plot')) {
-        setError('This movie does not have a plot description. Similarity search requires a plot to work.');
-      } else {
-        setError(errorMessage);
-      }
+      setError(err instanceof Error ? err.message : 'Failed to find similar movie');
     } finally {
       setLoading(false);
     }
@@ -100,6 +167,7 @@ export default function FindSimilarPage() {
   const reset = () => {
     setSelectedMovie(null);
     setSimilarMovie(null);
+    setBasedOn(null);
     setSearchQuery('');
     setSearchResults([]);
     setError(null);
@@ -109,10 +177,28 @@ export default function FindSimilarPage() {
     <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
       <main className="mx-auto max-w-6xl">
         <header className="mb-8">
-          <h1 className="text-4xl font-bold mb-2">Find Most Similar Movie</h1>
+          <h1 className="text-4xl font-bold mb-2">
+            {mode === 'single' ? 'Find Most Similar Movie' : 'More Like These'}
+          </h1>
           <p className="text-slate-400">
-            Select a movie from the database to find its most similar match
+            {mode === 'single'
+              ? 'Select a movie from the database to find its most similar match'
+              : 'Pick several movies you like (click again to mark one you dislike) to find movies like all of them'}
           </p>
+          <div className="mt-4 inline-flex rounded-xl border border-white/10 bg-white/5 p-1 text-sm">
+            {(['single', 'multi'] as Mode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchMode(option)}
+                className={`rounded-lg px-4 py-2 font-semibold transition ${
+                  mode === option ? 'bg-emerald-500 text-black' : 'text-slate-300 hover:bg-white/10'
+                }`}
+              >
+                {option === 'single' ? 'One movie' : 'Several movies'}
+              </button>
+            ))}
+          </div>
         </header>
 
         {error && (
@@ -162,49 +248,156 @@ export default function FindSimilarPage() {
                   Search Results ({searchResults.length})
                 </h2>
                 <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                  {searchResults.map((movie) => (
-                    <button
-                      key={movie.id}
-                      onClick={() => handleSelectMovie(movie)}
-                      className="group flex flex-col rounded-xl border border-white/10 bg-white/5 p-4 text-left transition hover:border-emerald-400/50 hover:bg-white/10"
-                    >
-                      {movie.posterGridFSId ? (
-                        <img
-                          src={getPosterUrl(movie.id)}
-                          alt={`${movie.title} poster`}
-                          className="mb-3 h-48 w-full rounded-lg object-cover transition group-hover:scale-105"
-                        />
-                      ) : movie.posterUrl ? (
-                        <img
-                          src={movie.posterUrl}
-                          alt={`${movie.title} poster`}
-                          className="mb-3 h-48 w-full rounded-lg object-cover transition group-hover:scale-105"
-                        />
-                      ) : (
-                        <div className="mb-3 flex h-48 w-full items-center justify-center rounded-lg bg-slate-800 text-sm text-slate-400">
-                          Poster unavailable
-                        </div>
-                      )}
-                      <div className="space-y-1">
-                        <div className="flex items-center justify-between gap-2">
-                          <h3 className="font-semibold text-white group-hover:text-emerald-300 transition">
-                            {movie.title}
-                          </h3>
-                          {typeof movie.rating === 'number' && (
-                            <span className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-xs font-semibold text-emerald-300">
-                              {movie.rating.toFixed(1)}
-                            </span>
-                          )}
+                  {searchResults.map((movie) => {
+                    const role = picks.find((pick) => pick.movie.id === movie.id)?.role;
+                    return (
+                      <button
+                        key={movie.id}
+                        onClick={() => handleSelectMovie(movie)}
+                        className={`group relative flex flex-col rounded-xl border bg-white/5 p-4 text-left transition hover:border-emerald-400/50 hover:bg-white/10 ${
+                          role === 'seed'
+                            ? 'border-emerald-400'
+                            : role === 'negative'
+                              ? 'border-rose-400'
+                              : 'border-white/10'
+                        }`}
+                      >
+                        {role && (
+                          <span
+                            className={`absolute right-6 top-6 z-10 rounded-full px-3 py-1 text-xs font-semibold ${
+                              role === 'seed' ? 'bg-emerald-500 text-black' : 'bg-rose-500 text-white'
+                            }`}
+                          >
+                            {role === 'seed' ? 'Like' : 'Not like'}
+                          </span>
+                        )}
+                        {movie.posterGridFSId ? (
+                          <img
+                            src={getPosterUrl(movie.id)}
+                            alt={`${movie.title} poster`}
+                            className="mb-3 h-48 w-full rounded-lg object-cover transition group-hover:scale-105"
+                          />
+                        ) : movie.posterUrl ? (
+                          <img
+                            src={movie.posterUrl}
+                            alt={`${movie.title} poster`}
+                            className="mb-3 h-48 w-full rounded-lg object-cover transition group-hover:scale-105"
+                          />
+                        ) : (
+                          <div className="mb-3 flex h-48 w-full items-center justify-center rounded-lg bg-slate-800 text-sm text-slate-400">
+                            Poster unavailable
+                          </div>
+                        )}
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <h3 className="font-semibold text-white group-hover:text-emerald-300 transition">
+                              {movie.title}
+                            </h3>
+                            {typeof movie.rating === 'number' && (
+                              <span className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-xs font-semibold text-emerald-300">
+                                {movie.rating.toFixed(1)}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-slate-300">
+                            {[movie.releaseYear, movie.genres?.slice(0, 2).join(' • ')]
+                              .filter(Boolean)
+                              .join(' • ')}
+                          </p>
                         </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Multi-select picks and results */}
+        {mode === 'multi' && picks.length > 0 && (
+          <div className="mb-8 rounded-2xl border border-white/10 bg-white/5 p-6">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold">Your picks ({picks.length})</h2>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPicks([]);
+                    setLikeTheseResults(null);
+                  }}
+                  className="rounded-lg border border-white/10 px-4 py-2 text-sm transition hover:bg-white/5"
+                >
+                  Clear
+                </button>
+                <button
+                  type="button"
+                  onClick={handleFindLikeThese}
+                  disabled={loading || !picks.some((pick) => pick.role === 'seed')}
+                  className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {loading ? 'Searching...' : 'Find movies like these'}
+                </button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {picks.map(({ movie, role }) => (
+                <button
+                  key={movie.id}
+                  type="button"
+                  onClick={() => togglePick(movie)}
+                  title="Click to switch between like, not like and removed"
+                  className={`rounded-full px-3 py-1 text-sm ${
+                    role === 'seed'
+                      ? 'bg-emerald-500/20 text-emerald-200'
+                      : 'bg-rose-500/20 text-rose-200 line-through'
+                  }`}
+                >
+                  {movie.title}
+                </button>
+              ))}
+            </div>
+
+            {likeTheseResults && (
+              <div className="mt-6">
+                {likeTheseResults.length === 0 ? (
+                  <p className="text-slate-400">No similar movies found</p>
+                ) : (
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                    {likeTheseResults.map((movie) => (
+                      <Link
+                        key={movie.id}
+                        href={`/movies/${movie.id}`}
+                        className="group flex flex-col rounded-xl border border-white/10 bg-white/5 p-4 transition hover:border-emerald-400/50 hover:bg-white/10"
+                      >
+                        {movie.posterGridFSId || movie.posterUrl ? (
+                          <img
+                            src={movie.posterGridFSId ? getPosterUrl(movie.id) : movie.posterUrl}
+                            alt={`${movie.title} poster`}
+                            className="mb-3 h-48 w-full rounded-lg object-cover"
+                          />
+                        ) : (
+                          <div className="mb-3 flex h-48 w-full items-center justify-center rounded-lg bg-slate-800 text-sm text-slate-400">
+                            Poster unavailable
+                          </div>
+                        )}
+                        <h3 className="font-semibold text-white group-hover:text-emerald-300 transition">
+                          {movie.title}
+                        </h3>
                         <p className="text-sm text-slate-300">
                           {[movie.releaseYear, movie.genres?.slice(0, 2).join(' • ')]
                             .filter(Boolean)
                             .join(' • ')}
                         </p>
-                      </div>
-                    </button>
-                  ))}
-                </div>
+                        {typeof movie.score === 'number' && (
+                          <p className="text-xs text-slate-400">
+                            Similarity: {movie.score.toFixed(3)}
+                          </p>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -287,6 +480,11 @@ export default function FindSimilarPage() {
                         (Similarity Score: {similarMovie.score.toFixed(3)})
                       </span>
                     )}
+                    {basedOn && basedOn !== 'plot' && (
+                      <span className="text-sm font-normal text-slate-400">
+                        · matched by {basedOn} (no plot embedding)
+                      </span>
+                    )}
                   </h2>
                 </div>
                 <div className="grid gap-6 md:grid-cols-[200px_1fr]">
@@ -0,0 +1,24 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { LoginForm } from '../../components/LoginForm';
+import { useSession } from '../../lib/useSession';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const session = useSession();
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
+      <main className="mx-auto max-w-md">
+        {session ? (
+          <p className="text-slate-400">
+            Signed in as {session.user.email} ({session.user.role}).
+          </p>
+        ) : (
+          <LoginForm onSuccess={() => router.push('/')} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,10 +4,35 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getMovie, fetchSimilarMovies } from '../../../lib/api';
-import { getEnhancedRecommendations } from '../../../lib/extendedApi';
+import {
+  getBlendedRecommendations,
+  type BlendedRecommendation,
+  type BlendFeature,
+} from '../../../lib/extendedApi';
 import { getPosterUrl } from '../../../lib/apiConfig';
+import { MovieReviews } from '../../../components/MovieReviews';
+import { WatchlistButton } from '../../../components/WatchlistButton';
+import { FavouriteButton } from '../../../components/FavouriteButton';
 import type { Movie, SimilarMovie } from '../../../types/movie';
 
+const FEATURE_LABELS: Record<BlendFeature, string> = {
+  semantic: 'similar story',
+  genres: 'same genres',
+  cast: 'shared cast',
+  director: 'same director',
+  era: 'same era',
+  rating: 'well rated',
+};
+
+// The two strongest signals behind a recommendation, e.g. "similar story · same director"
+const topReasons = ({ breakdown }: BlendedRecommendation): string =>
+  (Object.entries(breakdown) as [BlendFeature, number][])
+    .filter(([, score]) => score > 0)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 2)
+    .map(([feature]) => FEATURE_LABELS[feature])
+    .join(' · ');
+
 export default function MovieDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -15,7 +40,7 @@ export default function MovieDetailPage() {
 
   const [movie, setMovie] = useState<Movie | null>(null);
   const [similar, setSimilar] = useState<SimilarMovie[]>([]);
-  const [recommendations, setRecommendations] = useState<SimilarMovie[]>([]);
+  const [recommendations, setRecommendations] = useState<BlendedRecommendation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -31,10 +56,13 @@ export default function MovieDetailPage() {
         const movieData = await getMovie(movieId);
         setMovie(movieData);
 
-        // Load similar movies and recommendations in parallel
+        // Load similar movies and recommendations in parallel, mildly
+        // diversified so one franchise does not fill both rows
         const [similarData, recommendationsData] = await Promise.all([
-          fetchSimilarMovies(movieId, 6).catch(() => ({ results: [] })),
-          getEnhancedRecommendations(movieId, 6).catch(() => ({ results: [] })),
+          fetchSimilarMovies(movieId, 6, 0.3).catch(() => ({ results: [] })),
+          getBlendedRecommendations(movieId, 6, { diversity: 0.3 }).catch(() => ({
+            results: [],
+          })),
         ]);
 
         setSimilar(similarData.results || []);
@@ -133,6 +161,14 @@ export default function MovieDetailPage() {
                     ⭐ {movie.rating.toFixed(1)}/10
                   </span>
                 )}
+                <FavouriteButton movieId={movie.id} />
+                <WatchlistButton movieId={movie.id} />
+                {typeof movie.communityRating === 'number' && (movie.ratingCount ?? 0) > 0 && (
+                  <span className="rounded-full bg-amber-500/20 px-3 py-1 text-sm font-semibold text-amber-300">
+                    ★ {movie.communityRating.toFixed(1)}/5 from {movie.ratingCount}{' '}
+                    {movie.ratingCount === 1 ? 'user' : 'users'}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -244,10 +280,11 @@ export default function MovieDetailPage() {
                     <h3 className="font-semibold text-white group-hover:text-emerald-300 transition">
                       {recMovie.title}
                     </h3>
-                    {typeof recMovie.score === 'number' && (
-                      <p className="text-xs text-slate-400 mt-1">
-                        Score: {recMovie.score.toFixed(3)}
-                      </p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      Score: {recMovie.score.toFixed(3)}
+                    </p>
+                    {topReasons(recMovie) && (
+                      <p className="text-xs text-emerald-300/80 mt-1">{topReasons(recMovie)}</p>
                     )}
                   </div>
                 </Link>
@@ -255,6 +292,15 @@ export default function MovieDetailPage() {
             </div>
           </section>
         )}
+
+        <MovieReviews
+          movieId={movieId}
+          onRatingChange={(rating) =>
+            setMovie((current) =>
+              current ? { ...current, communityRating: rating.communityRating, ratingCount: rating.ratingCount } : current
+            )
+          }
+        />
       </main>
     </div>
   );
@@ -4,32 +4,45 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { getAllMovies } from "../../lib/api";
 import { getPosterUrl } from "../../lib/apiConfig";
+import { useInfiniteScroll } from "../../lib/useInfiniteScroll";
 import type { Movie, MovieListResponse } from "../../types/movie";
 
 export default function MoviesPage() {
   const [movies, setMovies] = useState<Movie[]>([]);
   const [allMovies, setAllMovies] = useState<Movie[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
 
+  // Page 1 replaces the list; later pages are appended while scrolling
   const loadMovies = async () => {
-    setLoading(true);
+    const firstPage = page === 1;
+    if (firstPage) setLoading(true);
+    else setLoadingMore(true);
     setError(null);
     try {
       const response: MovieListResponse = await getAllMovies(page, 20);
-      setMovies(response.movies);
+      setMovies((current) =>
+        firstPage ? response.movies : [...current, ...response.movies]
+      );
       setTotalPages(response.totalPages);
       setTotal(response.total);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load movies");
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(
+    () => setPage((p) => p + 1),
+    page < totalPages && !loading && !loadingMore && !error
+  );
+
   // Load movies for statistics (only once on mount)
   useEffect(() => {
     const loadStats = async () => {
@@ -179,26 +192,16 @@ export default function MoviesPage() {
               ))}
             </div>
 
-            {totalPages > 1 && (
-              <div className="flex items-center justify-center gap-4 pt-6">
-                <button
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                  className="rounded-lg border border-white/10 bg-white/5 px-6 py-2 font-medium transition hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Previous
-                </button>
-                <span className="px-4 text-slate-300">
-                  Page {page} of {totalPages}
-                </span>
-                <button
-                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages}
-                  className="rounded-lg border border-white/10 bg-white/5 px-6 py-2 font-medium transition hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Next
-                </button>
-              </div>
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <p className="py-6 text-center text-sm text-slate-400">
+                Loading more movies...
+              </p>
+            )}
+            {page >= totalPages && totalPages > 1 && (
+              <p className="py-6 text-center text-xs text-slate-500">
+                You have reached the end of the collection
+              </p>
             )}
           </>
         )}
@@ -1,20 +1,35 @@
 "use client";
 
 import { FormEvent, useState } from "react";
+import { ForYouRow } from "../components/ForYouRow";
 import { MovieCard } from "../components/MovieCard";
 import { fetchSimilarMovies, searchMovies } from "../lib/api";
-import type { MovieSummary, SimilarMovie } from "../types/movie";
+import { useInfiniteScroll } from "../lib/useInfiniteScroll";
+import type { MovieSummary, SearchMode, SimilarMovie } from "../types/movie";
 
 const DEFAULT_QUERY = "Action Movie";
+const PAGE_SIZE = 10;
+// Relevance/variety trade-off used when "Mix it up" is checked
+const VARIED_DIVERSITY = 0.3;
 
 export default function Home() {
   const [query, setQuery] = useState(DEFAULT_QUERY);
+  const [mode, setMode] = useState<SearchMode>("semantic");
+  const [varied, setVaried] = useState(false);
   const [movies, setMovies] = useState<MovieSummary[]>([]);
   const [selectedMovie, setSelectedMovie] = useState<MovieSummary | null>(null);
   const [similar, setSimilar] = useState<SimilarMovie[]>([]);
   const [loading, setLoading] = useState(false);
   const [similarLoading, setSimilarLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Query and mode of the results shown; later pages must use the same ones
+  const [activeSearch, setActiveSearch] = useState<{
+    query: string;
+    mode: SearchMode;
+    diversity?: number;
+  } | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const runSearch = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -23,8 +38,19 @@ export default function Home() {
     setError(null);
 
     try {
-      const response = await searchMovies(query.trim());
+      const search = {
+        query: query.trim(),
+        mode,
+        diversity: varied && mode === "semantic" ? VARIED_DIVERSITY : undefined,
+      };
+      const response = await searchMovies(search.query, PAGE_SIZE, {
+        mode: search.mode,
+        diversity: search.diversity,
+        explain: true,
+      });
       setMovies(response.results);
+      setActiveSearch(search);
+      setNextCursor(response.nextCursor ?? null);
       setSelectedMovie(null);
       setSimilar([]);
     } catch (err) {
@@ -34,6 +60,32 @@ export default function Home() {
     }
   };
 
+  const loadMore = async () => {
+    if (!activeSearch || !nextCursor || loadingMore) return;
+    setLoadingMore(true);
+
+    try {
+      const response = await searchMovies(activeSearch.query, PAGE_SIZE, {
+        mode: activeSearch.mode,
+        diversity: activeSearch.diversity,
+        explain: true,
+        cursor: nextCursor,
+      });
+      setMovies((current) => [...current, ...response.results]);
+      setNextCursor(response.nextCursor ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load more");
+      setNextCursor(null);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(
+    loadMore,
+    Boolean(nextCursor) && !loading && !loadingMore
+  );
+
   const handleSelectMovie = async (movie: MovieSummary) => {
     setSelectedMovie(movie);
     setSimilarLoading(true);
@@ -70,6 +122,8 @@ export default function Home() {
           </div>
         </header>
 
+        <ForYouRow onSelect={handleSelectMovie} selectedId={selectedMovie?.id} />
+
         <form
           onSubmit={runSearch}
           className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-white/5 p-6"
@@ -85,6 +139,27 @@ export default function Home() {
             className="rounded-xl border border-white/10 bg-slate-900/70 p-4 text-base text-white outline-none focus:border-emerald-400"
             placeholder="e.g. Neo-noir mystery set in Tokyo with jazz influences"
           />
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={mode === "hybrid"}
+              onChange={(event) =>
+                setMode(event.target.checked ? "hybrid" : "semantic")
+              }
+              className="h-4 w-4 accent-emerald-500"
+            />
+            Also match exact titles and cast names (hybrid search)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={varied && mode === "semantic"}
+              disabled={mode === "hybrid"}
+              onChange={(event) => setVaried(event.target.checked)}
+              className="h-4 w-4 accent-emerald-500"
+            />
+            Mix it up: fewer near-duplicates such as sequels
+          </label>
           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
             {error && <p className="text-sm text-rose-300">{error}</p>}
             <div className="flex gap-2 flex-wrap">
@@ -105,6 +180,8 @@ export default function Home() {
                     const { getRandomMovies } = await import('../lib/extendedApi');
                     const response = await getRandomMovies(10);
                     setMovies(response.results);
+                    setActiveSearch(null);
+                    setNextCursor(null);
                     setSelectedMovie(null);
                     setSimilar([]);
                   } catch (err) {
@@ -145,6 +222,17 @@ export default function Home() {
                 ))}
               </div>
             )}
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <p className="text-center text-sm text-slate-400">
+                Loading more…
+              </p>
+            )}
+            {activeSearch && !nextCursor && movies.length > PAGE_SIZE && (
+              <p className="text-center text-xs text-slate-500">
+                No more matches
+              </p>
+            )}
           </div>
 
           <aside className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-5">
@@ -0,0 +1,353 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  createWatchlist,
+  deleteWatchlist,
+  getWatchlist,
+  getWatchlists,
+  removeFromWatchlist,
+  reorderWatchlist,
+  updateWatchlist,
+} from '../../lib/api';
+import { getPosterUrl } from '../../lib/apiConfig';
+import { useSession } from '../../lib/useSession';
+import { LoginForm } from '../../components/LoginForm';
+import type { Watchlist, WatchlistSummary } from '../../types/movie';
+
+function WatchlistView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const session = useSession();
+  const selectedId = searchParams.get('id');
+
+  const [lists, setLists] = useState<WatchlistSummary[]>([]);
+  const [openList, setOpenList] = useState<Watchlist | null>(null);
+  // Id of the list last fetched, so a change of ?id= shows as loading
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectList = useCallback(
+    (id: string) => router.replace(`/watchlist?id=${id}`),
+    [router]
+  );
+
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) return;
+    getWatchlists()
+      .then(({ watchlists }) => setLists(watchlists))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load lists'));
+  }, [userId]);
+
+  // Open the first list when none is chosen
+  useEffect(() => {
+    if (!selectedId && lists[0]) selectList(lists[0].id);
+  }, [selectedId, lists, selectList]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    getWatchlist(selectedId)
+      .then((data) => {
+        setOpenList(data);
+        setError(null);
+      })
+      .catch((err) => {
+        setOpenList(null);
+        setError(err instanceof Error ? err.message : 'Failed to load list');
+      })
+      .finally(() => setLoadedId(selectedId));
+  }, [selectedId, userId]);
+
+  const watchlist = selectedId ? openList : null;
+  const loading = selectedId !== null && loadedId !== selectedId;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  // Apply a server update to both the sidebar and the open list
+  const applySummary = (summary: WatchlistSummary) => {
+    setLists((current) => current.map((l) => (l.id === summary.id ? summary : l)));
+    setOpenList((current) => {
+      if (!current || current.id !== summary.id) return current;
+      const byId = new Map(current.movies.map((movie) => [movie.id, movie]));
+      return {
+        ...current,
+        ...summary,
+        movies: summary.movieIds.flatMap((id) => byId.get(id) ?? []),
+      };
+    });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const list = await createWatchlist(newName.trim());
+      setLists((current) => [...current, list]);
+      setNewName('');
+      selectList(list.id);
+    });
+  };
+
+  const move = (index: number, offset: number) =>
+    run(async () => {
+      if (!watchlist) return;
+      const ids = watchlist.movies.map((movie) => movie.id);
+      const [moved] = ids.splice(index, 1);
+      ids.splice(index + offset, 0, moved!);
+      applySummary(await reorderWatchlist(watchlist.id, ids));
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!watchlist || !confirm(`Delete the list "${watchlist.name}"?`)) return;
+      await deleteWatchlist(watchlist.id);
+      const remaining = lists.filter((l) => l.id !== watchlist.id);
+      setLists(remaining);
+      setOpenList(null);
+      router.replace(remaining[0] ? `/watchlist?id=${remaining[0].id}` : '/watchlist');
+    });
+
+  if (!session && !selectedId) {
+    return (
+      <main className="mx-auto max-w-md">
+        <h1 className="mb-2 text-3xl font-semibold">Watchlists</h1>
+        <p className="mb-6 text-slate-400">Log in to save movies for later.</p>
+        <LoginForm />
+      </main>
+    );
+  }
+
+  const isOwner = watchlist?.isOwner ?? false;
+  const myLists = session ? lists : [];
+
+  return (
+    <main className="mx-auto grid max-w-6xl gap-8 md:grid-cols-[16rem_1fr]">
+      {session && (
+        <aside className="space-y-3">
+          <h1 className="text-2xl font-semibold">My lists</h1>
+          <Link
+            href="/favourites"
+            className="flex w-full items-center rounded-lg px-3 py-2 text-sm text-slate-300 transition hover:bg-white/5"
+          >
+            ♥ Favourites
+          </Link>
+          {myLists.length === 0 && (
+            <p className="text-sm text-slate-400">
+              No lists yet. Use &quot;+ Watchlist&quot; on a movie or create one here.
+            </p>
+          )}
+          {myLists.map((list) => (
+            <button
+              key={list.id}
+              onClick={() => selectList(list.id)}
+              className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm transition ${
+                list.id === selectedId
+                  ? 'bg-emerald-500/20 text-emerald-300'
+                  : 'text-slate-300 hover:bg-white/5'
+              }`}
+            >
+              <span className="truncate">
+                {list.name}
+                {list.isPublic && <span className="ml-2 text-xs text-slate-500">public</span>}
+              </span>
+              <span className="text-xs text-slate-500">{list.count}</span>
+            </button>
+          ))}
+          <form onSubmit={handleCreate} className="flex gap-2 pt-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New list name"
+              maxLength={100}
+              className="min-w-0 flex-1 rounded-lg border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="rounded-lg bg-emerald-500 px-3 py-2 text-sm font-semibold text-black disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+        </aside>
+      )}
+
+      <section className="min-w-0">
+        {error && (
+          <div className="mb-4 rounded-lg bg-rose-900/50 border border-rose-500 p-3 text-sm text-rose-200">
+            {error}
+          </div>
+        )}
+
+        {loading && !watchlist ? (
+          <p className="text-slate-400">Loading list...</p>
+        ) : !watchlist ? (
+          selectedId && !error && <p className="text-slate-400">This list does not exist or is private.</p>
+        ) : (
+          <>
+            <div className="mb-6 flex flex-wrap items-center gap-3">
+              {renaming !== null ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    run(async () => {
+                      applySummary(await updateWatchlist(watchlist.id, { name: renaming.trim() }));
+                      setRenaming(null);
+                    });
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="text"
+                    value={renaming}
+                    onChange={(e) => setRenaming(e.target.value)}
+                    maxLength={100}
+                    autoFocus
+                    className="rounded-lg border border-white/10 bg-slate-900 px-3 py-1 text-white"
+                  />
+                  <button type="submit" className="text-sm text-emerald-300">
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setRenaming(null)} className="text-sm text-slate-400">
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <h2 className="text-3xl font-semibold">{watchlist.name}</h2>
+              )}
+              {!isOwner && <span className="text-sm text-slate-400">by {watchlist.owner.name}</span>}
+              {isOwner && renaming === null && (
+                <div className="ml-auto flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={watchlist.isPublic}
+                      onChange={(e) =>
+                        run(async () =>
+                          applySummary(await updateWatchlist(watchlist.id, { isPublic: e.target.checked }))
+                        )
+                      }
+                    />
+                    Public
+                  </label>
+                  {watchlist.isPublic && (
+                    <button
+                      onClick={() => navigator.clipboard.writeText(window.location.href)}
+                      className="text-emerald-300 hover:underline"
+                    >
+                      Copy link
+                    </button>
+                  )}
+                  <button onClick={() => setRenaming(watchlist.name)} className="text-slate-300 hover:underline">
+                    Rename
+                  </button>
+                  <button onClick={handleDelete} className="text-rose-300 hover:underline">
+                    Delete list
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {watchlist.movies.length === 0 ? (
+              <p className="rounded-xl border border-dashed border-white/20 p-6 text-slate-400">
+                No movies yet. Add some with &quot;+ Watchlist&quot; on search results.
+              </p>
+            ) : (
+              <ol className="space-y-3">
+                {watchlist.movies.map((movie, index) => (
+                  <li
+                    key={movie.id}
+                    className="flex items-center gap-4 rounded-xl border border-white/10 bg-white/5 p-3"
+                  >
+                    <span className="w-6 text-right text-sm text-slate-500">{index + 1}</span>
+                    {movie.posterGridFSId ? (
+                      <img
+                        src={getPosterUrl(movie.id)}
+                        alt={`${movie.title} poster`}
+                        className="h-20 w-14 rounded object-cover"
+                      />
+                    ) : movie.posterUrl ? (
+                      <img
+                        src={movie.posterUrl}
+                        alt={`${movie.title} poster`}
+                        className="h-20 w-14 rounded object-cover"
+                      />
+                    ) : (
+                      <div className="h-20 w-14 rounded bg-slate-800"></div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <Link
+                        href={`/movies/${movie.id}`}
+                        className="font-semibold text-white hover:text-emerald-300"
+                      >
+                        {movie.title}
+                      </Link>
+                      <p className="text-xs text-slate-400">
+                        {[movie.releaseYear, movie.genres.slice(0, 2).join(' • ')]
+                          .filter(Boolean)
+                          .join(' • ')}
+                        {' · added '}
+                        {new Date(movie.addedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {isOwner && (
+                      <div className="flex shrink-0 items-center gap-1 text-sm">
+                        <button
+                          onClick={() => move(index, -1)}
+                          disabled={index === 0}
+                          className="rounded px-2 py-1 hover:bg-white/10 disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => move(index, 1)}
+                          disabled={index === watchlist.movies.length - 1}
+                          className="rounded px-2 py-1 hover:bg-white/10 disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() =>
+                            run(async () => applySummary(await removeFromWatchlist(watchlist.id, movie.id)))
+                          }
+                          className="rounded px-2 py-1 text-rose-300 hover:bg-white/10"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
+
+// useSearchParams needs a Suspense boundary for static rendering
+export default function WatchlistPage() {
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
+      <Suspense>
+        <WatchlistView />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+  type ApiKey,
+  type ApiKeyScope,
+} from "../lib/extendedApi";
+
+const SCOPES: { scope: ApiKeyScope; description: string }[] = [
+  { scope: "search", description: "Search and similar-movie endpoints" },
+  { scope: "ingest", description: "Create, update and delete movies" },
+  { scope: "admin", description: "Admin and analytics endpoints" },
+];
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export const ApiKeysPanel = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["search"]);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  // Plaintext of the key just created; the server never returns it again
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(
+    null
+  );
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await getApiKeys();
+      setApiKeys(response.apiKeys);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const { apiKey, key } = await createApiKey(name.trim(), scopes);
+      setNewKey({ name: apiKey.name, key });
+      setName("");
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Clients using it stop working immediately.`)) {
+      return;
+    }
+    setRevoking(apiKey.id);
+    try {
+      await revokeApiKey(apiKey.id);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg bg-rose-900/50 border border-rose-500 p-4 text-rose-200">
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="space-y-4 rounded-xl border border-white/10 bg-white/5 p-4"
+      >
+        <div>
+          <h3 className="text-lg font-semibold">New API key</h3>
+          <p className="text-xs text-slate-400">
+            For scripts and partner integrations. Clients send it in the{" "}
+            <code>X-API-Key</code> header.
+          </p>
+        </div>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. nightly import script"
+          required
+          maxLength={100}
+          className="w-full rounded-lg border border-white/10 bg-slate-900 px-4 py-2 text-white"
+        />
+        <div className="flex flex-wrap gap-4">
+          {SCOPES.map(({ scope, description }) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              <span className="font-semibold">{scope}</span>
+              <span className="text-slate-400">{description}</span>
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={creating || !name.trim() || scopes.length === 0}
+          className="rounded-lg bg-emerald-500 px-4 py-2 font-semibold text-black transition hover:bg-emerald-400 disabled:opacity-50"
+        >
+          {creating ? "Creating..." : "Create key"}
+        </button>
+
+        {newKey && (
+          <div className="rounded-lg border border-amber-500/50 bg-amber-950/40 p-3 text-sm">
+            <div className="mb-1 text-amber-200">
+              Copy the key for &quot;{newKey.name}&quot; now; it will not be
+              shown again.
+            </div>
+            <code className="block break-all rounded bg-slate-900 p-2 font-mono text-xs text-white">
+              {newKey.key}
+            </code>
+          </div>
+        )}
+      </form>
+
+      <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+        <h3 className="mb-3 text-lg font-semibold">
+          API keys{" "}
+          <span className="text-sm font-normal text-slate-400">
+            ({apiKeys?.length ?? 0})
+          </span>
+        </h3>
+
+        {!apiKeys ? (
+          <div className="py-8 text-center text-slate-400">Loading...</div>
+        ) : apiKeys.length === 0 ? (
+          <div className="py-8 text-center text-slate-400">No API keys yet</div>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className={`flex items-center justify-between gap-3 rounded-lg border border-white/10 bg-slate-900/60 p-3 text-sm ${
+                  apiKey.revokedAt ? "opacity-50" : ""
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="truncate font-semibold text-white">
+                    {apiKey.name}{" "}
+                    <span className="font-mono text-xs font-normal text-slate-400">
+                      {apiKey.prefix}…
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {apiKey.scopes.join(", ")} · created{" "}
+                    {formatDate(apiKey.createdAt)} · last used{" "}
+                    {apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : "never"}
+                    {apiKey.revokedAt &&
+                      ` · revoked ${formatDate(apiKey.revokedAt)}`}
+                  </div>
+                </div>
+                {!apiKey.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={revoking === apiKey.id}
+                    className="shrink-0 rounded bg-rose-600 px-3 py-1 text-xs font-semibold text-white disabled:opacity-50"
+                  >
+                    {revoking === apiKey.id ? "Revoking..." : "Revoke"}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
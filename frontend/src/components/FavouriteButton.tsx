@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { setFavourite } from "../lib/favourites";
+import { useFavouriteIds } from "../lib/useFavourites";
+import { useSession } from "../lib/useSession";
+
+interface Props {
+  movieId: string;
+  className?: string;
+}
+
+/**
+ * ♥ toggle for the signed-in user's favourites
+ */
+export const FavouriteButton = ({ movieId, className = "" }: Props) => {
+  const session = useSession();
+  const favouriteIds = useFavouriteIds();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseClass = `rounded-full bg-slate-950/80 px-2.5 py-1 text-xs font-semibold transition hover:bg-slate-900 ${className}`;
+
+  if (!session) {
+    return (
+      <Link
+        href="/login"
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Log in to add to favourites"
+        className={`${baseClass} text-white`}
+      >
+        ♡
+      </Link>
+    );
+  }
+
+  const isFavourite = favouriteIds?.has(movieId) ?? false;
+
+  return (
+    <button
+      type="button"
+      disabled={busy}
+      onClick={async (e) => {
+        e.stopPropagation();
+        setBusy(true);
+        setError(null);
+        try {
+          await setFavourite(session.user.id, movieId, !isFavourite);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+          setBusy(false);
+        }
+      }}
+      aria-pressed={isFavourite}
+      aria-label={isFavourite ? "Remove from favourites" : "Add to favourites"}
+      title={error ?? (isFavourite ? "Remove from favourites" : "Add to favourites")}
+      className={`${baseClass} disabled:opacity-50 ${
+        error ? "text-amber-300" : isFavourite ? "text-rose-400" : "text-white"
+      }`}
+    >
+      {isFavourite ? "♥" : "♡"}
+    </button>
+  );
+};
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getMyRecommendations } from "../lib/api";
+import { useSession } from "../lib/useSession";
+import type { MovieSummary, PersonalRecommendationsResponse } from "../types/movie";
+import { MovieCard } from "./MovieCard";
+
+const ROW_SIZE = 8;
+// A little variety so one favourite franchise does not fill the row
+const ROW_DIVERSITY = 0.2;
+
+interface Props {
+  onSelect?: (movie: MovieSummary) => void;
+  selectedId?: string;
+}
+
+/**
+ * "For you" row from the signed-in user's taste profile; hidden when logged out
+ */
+export const ForYouRow = ({ onSelect, selectedId }: Props) => {
+  const session = useSession();
+  const userId = session?.user.id;
+  // Tagged with the user it was loaded for, so a new login shows as loading
+  const [loaded, setLoaded] = useState<{
+    userId: string;
+    data: PersonalRecommendationsResponse | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    getMyRecommendations(ROW_SIZE, ROW_DIVERSITY)
+      .then((data) => setLoaded({ userId, data }))
+      // The row is optional; search still works without it
+      .catch(() => setLoaded({ userId, data: null }));
+  }, [userId]);
+
+  if (!userId) return null;
+  const data = loaded?.userId === userId ? loaded.data : undefined;
+  if (data === null) return null;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-xl font-semibold">For you</h2>
+        {data?.basedOn && (
+          <span className="text-sm text-slate-400">
+            Based on movies you rated, saved and viewed
+          </span>
+        )}
+      </div>
+      {!data ? (
+        <p className="text-sm text-slate-400">Loading picks…</p>
+      ) : data.results.length === 0 ? (
+        <p className="rounded-xl border border-dashed border-white/20 p-6 text-slate-400">
+          {data.basedOn
+            ? "You have seen everything close to your taste. Try a search below."
+            : "Rate, save or open a few movies and picks for your taste will show up here."}
+        </p>
+      ) : (
+        <div className="flex snap-x gap-4 overflow-x-auto pb-2">
+          {data.results.map((movie) => (
+            <div key={movie.id} className="w-64 shrink-0 snap-start">
+              <MovieCard
+                movie={movie}
+                onSelect={onSelect}
+                isActive={selectedId === movie.id}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,46 @@
+import type { ReactNode } from "react";
+import type { HighlightRange } from "../types/movie";
+
+interface Props {
+  text: string;
+  highlights: HighlightRange[];
+  // Window of `text` to render; ellipses mark cut-off ends
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Text with the given ranges wrapped in <mark>
+ */
+export const HighlightedText = ({
+  text,
+  highlights,
+  from = 0,
+  to = text.length,
+}: Props) => {
+  const parts: ReactNode[] = [];
+  let cursor = from;
+  highlights
+    .filter(({ start, end }) => start >= from && end <= to)
+    .forEach(({ start, end }) => {
+      parts.push(text.slice(cursor, start));
+      parts.push(
+        <mark
+          key={start}
+          className="rounded bg-emerald-400/30 px-0.5 text-emerald-100"
+        >
+          {text.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+  parts.push(text.slice(cursor, to));
+
+  return (
+    <>
+      {from > 0 && "…"}
+      {parts}
+      {to < text.length && "…"}
+    </>
+  );
+};
@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  getIngestionJobs,
+  retryIngestionJob,
+  type IngestionJob,
+  type IngestionJobListResponse,
+  type IngestionJobStatus,
+} from "../lib/extendedApi";
+
+const STATUSES: IngestionJobStatus[] = [
+  "pending",
+  "processing",
+  "completed",
+  "failed",
+];
+
+const STATUS_STYLES: Record<IngestionJobStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-300",
+  processing: "bg-sky-500/20 text-sky-300",
+  completed: "bg-emerald-500/20 text-emerald-300",
+  failed: "bg-rose-500/20 text-rose-300",
+};
+
+// Counts are refreshed on this interval so the queue can be watched live
+const POLL_INTERVAL_MS = 5000;
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export const IngestionJobsPanel = () => {
+  const [data, setData] = useState<IngestionJobListResponse | null>(null);
+  const [status, setStatus] = useState<IngestionJobStatus | undefined>();
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await getIngestionJobs({ status, page, limit: 20 });
+      setData(response);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load jobs");
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    loadJobs();
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadJobs]);
+
+  const handleRetry = async (job: IngestionJob) => {
+    setRetrying(job.id);
+    try {
+      await retryIngestionJob(job.id);
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry job");
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 sm:grid-cols-4">
+        {STATUSES.map((s) => (
+          <button
+            key={s}
+            onClick={() => {
+              setStatus(status === s ? undefined : s);
+              setPage(1);
+            }}
+            className={`rounded-xl border p-4 text-left transition ${
+              status === s
+                ? "border-emerald-400 bg-white/10"
+                : "border-white/10 bg-white/5 hover:bg-white/10"
+            }`}
+          >
+            <div className="text-xs uppercase tracking-wider text-slate-400">
+              {s}
+            </div>
+            <div className="mt-1 text-2xl font-semibold">
+              {data?.counts[s] ?? "—"}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-rose-900/50 border border-rose-500 p-4 text-rose-200">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-lg font-semibold capitalize">
+            {status ? `${status} jobs` : "All jobs"}{" "}
+            <span className="text-sm font-normal text-slate-400">
+              ({data?.total ?? 0})
+            </span>
+          </h3>
+          <span className="text-xs text-slate-400">
+            Refreshes every {POLL_INTERVAL_MS / 1000}s
+          </span>
+        </div>
+
+        {!data ? (
+          <div className="py-8 text-center text-slate-400">Loading...</div>
+        ) : data.jobs.length === 0 ? (
+          <div className="py-8 text-center text-slate-400">No jobs found</div>
+        ) : (
+          <div className="space-y-2">
+            {data.jobs.map((job) => (
+              <div
+                key={job.id}
+                className="rounded-lg border border-white/10 bg-slate-900/60 p-3 text-sm"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="truncate font-semibold text-white">
+                      {job.movieTitle ?? "Deleted movie"}
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {job.type} · attempts {job.attempts}/{job.maxAttempts} ·
+                      created {formatDate(job.createdAt)}
+                      {job.status === "pending" && job.attempts > 0 &&
+                        ` · next run ${formatDate(job.nextRunAt)}`}
+                      {job.completedAt &&
+                        ` · completed ${formatDate(job.completedAt)}`}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[job.status]}`}
+                    >
+                      {job.status}
+                    </span>
+                    {job.status === "failed" && (
+                      <button
+                        onClick={() => handleRetry(job)}
+                        disabled={retrying === job.id}
+                        className="rounded bg-emerald-600 px-3 py-1 text-xs font-semibold text-white disabled:opacity-50"
+                      >
+                        {retrying === job.id ? "Retrying..." : "Retry"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {job.errorMessage && job.status !== "completed" && (
+                  <div className="mt-2 rounded bg-rose-950/60 p-2 font-mono text-xs text-rose-200">
+                    {job.errorMessage}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && data.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 pt-4">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="rounded-lg border border-white/10 px-4 py-2 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="px-4">
+              Page {page} of {data.totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+              disabled={page === data.totalPages}
+              className="rounded-lg border border-white/10 px-4 py-2 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
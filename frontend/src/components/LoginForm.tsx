@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { login, signup } from "../lib/auth";
+
+type Mode = "login" | "signup";
+
+export const LoginForm = ({ onSuccess }: { onSuccess?: () => void }) => {
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === "login") {
+        await login(email, password);
+      } else {
+        await signup(email, password, name.trim() || undefined);
+      }
+      onSuccess?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 rounded-xl border border-white/10 bg-white/5 p-6"
+    >
+      <h2 className="text-xl font-semibold">
+        {mode === "login" ? "Log in" : "Create an account"}
+      </h2>
+
+      {error && (
+        <div className="rounded-lg bg-rose-900/50 border border-rose-500 p-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {mode === "signup" && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="w-full rounded-lg border border-white/10 bg-slate-900 px-4 py-2 text-white"
+        />
+      )}
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        required
+        autoComplete="email"
+        className="w-full rounded-lg border border-white/10 bg-slate-900 px-4 py-2 text-white"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        required
+        minLength={8}
+        autoComplete={mode === "login" ? "current-password" : "new-password"}
+        className="w-full rounded-lg border border-white/10 bg-slate-900 px-4 py-2 text-white"
+      />
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-lg bg-emerald-500 px-4 py-2 font-semibold text-black transition hover:bg-emerald-400 disabled:opacity-50"
+      >
+        {submitting ? "Please wait..." : mode === "login" ? "Log in" : "Sign up"}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => {
+          setMode(mode === "login" ? "signup" : "login");
+          setError(null);
+        }}
+        className="w-full text-sm text-slate-400 hover:text-white"
+      >
+        {mode === "login"
+          ? "No account yet? Sign up"
+          : "Already have an account? Log in"}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,59 @@
+import type { EmbeddingField, SearchExplanation } from "../types/movie";
+import { HighlightedText } from "./HighlightedText";
+
+const SOURCE_LABELS: Record<EmbeddingField, string> = {
+  title: "title",
+  plot: "plot",
+  genre: "genres",
+};
+
+interface Props {
+  explanation: SearchExplanation;
+}
+
+/**
+ * "Why this matched": strongest embedding source, closest plot sentence,
+ * shared keywords and the filters the search applied
+ */
+export const MatchExplanation = ({ explanation }: Props) => {
+  const { matchedSource, sourceScores, bestSentence, keywords, filters } =
+    explanation;
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-white/10 pt-3 text-xs text-slate-400">
+      <p className="font-semibold uppercase tracking-wide text-emerald-300">
+        Why this matched
+      </p>
+      {matchedSource && (
+        <p>
+          Closest in meaning to its{" "}
+          <span className="text-slate-200">{SOURCE_LABELS[matchedSource]}</span>
+          {typeof sourceScores[matchedSource] === "number" &&
+            ` (${sourceScores[matchedSource]!.toFixed(3)})`}
+        </p>
+      )}
+      {bestSentence && (
+        <blockquote className="border-l-2 border-emerald-400/40 pl-2 italic text-slate-300">
+          <HighlightedText
+            text={bestSentence.text}
+            highlights={bestSentence.highlights}
+          />
+        </blockquote>
+      )}
+      {keywords.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {keywords.map(({ term, fields }) => (
+            <span
+              key={term}
+              title={`Found in ${fields.join(", ")}`}
+              className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-emerald-200"
+            >
+              {term} · {fields.join(", ")}
+            </span>
+          ))}
+        </div>
+      )}
+      {filters.length > 0 && <p>Filters: {filters.join(" • ")}</p>}
+    </div>
+  );
+};
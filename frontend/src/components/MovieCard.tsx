@@ -1,5 +1,31 @@
-import type { MovieSummary } from "../types/movie";
+import type { MovieSummary, PlotPassage } from "../types/movie";
 import { getPosterUrl } from "../lib/apiConfig";
+import { HighlightedText } from "./HighlightedText";
+import { FavouriteButton } from "./FavouriteButton";
+import { MatchExplanation } from "./MatchExplanation";
+import { WatchlistButton } from "./WatchlistButton";
+
+// Characters of the matched plot passage shown on a card
+const SNIPPET_LENGTH = 220;
+
+/**
+ * The matched passage, trimmed to a window around the first highlighted word
+ */
+const PassageSnippet = ({ passage }: { passage: PlotPassage }) => {
+  const { text, highlights } = passage;
+  const first = highlights[0]?.start ?? 0;
+  const from =
+    text.length <= SNIPPET_LENGTH
+      ? 0
+      : Math.max(0, Math.min(first - 60, text.length - SNIPPET_LENGTH));
+  const to = Math.min(text.length, from + SNIPPET_LENGTH);
+
+  return (
+    <p className="text-xs italic leading-relaxed text-slate-300">
+      <HighlightedText text={text} highlights={highlights} from={from} to={to} />
+    </p>
+  );
+};
 
 interface Props {
   movie: MovieSummary;
@@ -7,59 +33,81 @@ interface Props {
   isActive?: boolean;
 }
 
+// The watchlist toggle sits over the poster, outside the card's button
 export const MovieCard = ({ movie, onSelect, isActive }: Props) => (
-  <button
-    type="button"
-    onClick={() => onSelect?.(movie)}
-    className={`flex flex-col rounded-xl border bg-white/5 p-4 text-left shadow transition hover:-translate-y-0.5 hover:shadow-lg ${
-      isActive ? "border-emerald-400" : "border-white/10"
-    }`}
-  >
-    <div className="mb-3 h-64 w-full overflow-hidden rounded-lg bg-slate-800">
-      {movie.posterGridFSId ? (
-        // eslint-disable-next-line @next/next/no-img-element
-        <img
-          src={getPosterUrl(movie.id)}
-          alt={`${movie.title} poster`}
-          className="h-full w-full object-cover"
-        />
-      ) : movie.posterUrl ? (
-        // eslint-disable-next-line @next/next/no-img-element
-        <img
-          src={movie.posterUrl}
-          alt={`${movie.title} poster`}
-          className="h-full w-full object-cover"
-        />
-      ) : (
-        <div className="flex h-full w-full items-center justify-center text-sm text-slate-400">
-          Poster unavailable
-        </div>
-      )}
-    </div>
-    <div className="space-y-1">
-      <div className="flex items-center justify-between gap-2">
-        <p className="text-lg font-semibold text-white">{movie.title}</p>
-        {typeof movie.rating === "number" && (
-          <span className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-xs font-semibold text-emerald-300">
-            {movie.rating.toFixed(1)}
-          </span>
+  <div className="relative">
+    <button
+      type="button"
+      onClick={() => onSelect?.(movie)}
+      className={`flex h-full w-full flex-col rounded-xl border bg-white/5 p-4 text-left shadow transition hover:-translate-y-0.5 hover:shadow-lg ${
+        isActive ? "border-emerald-400" : "border-white/10"
+      }`}
+    >
+      <div className="mb-3 h-64 w-full overflow-hidden rounded-lg bg-slate-800">
+        {movie.posterGridFSId ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={getPosterUrl(movie.id)}
+            alt={`${movie.title} poster`}
+            className="h-full w-full object-cover"
+          />
+        ) : movie.posterUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={movie.posterUrl}
+            alt={`${movie.title} poster`}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center text-sm text-slate-400">
+            Poster unavailable
+          </div>
         )}
       </div>
-      <p className="text-sm text-slate-300">
-        {[movie.releaseYear, movie.genres?.slice(0, 2).join(" • ")]
-          .filter(Boolean)
-          .join(" • ")}
-      </p>
-      {movie.cast?.length > 0 && (
-        <p className="text-xs text-slate-400">
-          Cast: {movie.cast.slice(0, 3).join(", ")}
-        </p>
-      )}
-      {typeof movie.score === "number" && (
-        <p className="text-xs text-slate-500">
-          Semantic score: {movie.score.toFixed(3)}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-lg font-semibold text-white">{movie.title}</p>
+          {typeof movie.rating === "number" && (
+            <span className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-xs font-semibold text-emerald-300">
+              {movie.rating.toFixed(1)}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-slate-300">
+          {[movie.releaseYear, movie.genres?.slice(0, 2).join(" • ")]
+            .filter(Boolean)
+            .join(" • ")}
         </p>
-      )}
+        {movie.cast?.length > 0 && (
+          <p className="text-xs text-slate-400">
+            Cast: {movie.cast.slice(0, 3).join(", ")}
+          </p>
+        )}
+        {movie.passage && <PassageSnippet passage={movie.passage} />}
+        {typeof movie.score === "number" && (
+          <p className="text-xs text-slate-500">
+            {movie.matchedBy ? "Fused score" : "Semantic score"}:{" "}
+            {movie.score.toFixed(3)}
+          </p>
+        )}
+        {movie.matchedBy && movie.matchedBy.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {movie.matchedBy.map((channel) => (
+              <span
+                key={channel}
+                className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300"
+              >
+                {channel === "lexical" ? "keyword match" : "meaning match"}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {movie.explanation && <MatchExplanation explanation={movie.explanation} />}
+    </button>
+    <div className="absolute right-6 top-6 flex items-start gap-2">
+      <FavouriteButton movieId={movie.id} />
+      <WatchlistButton movieId={movie.id} />
     </div>
-  </button>
+  </div>
 );
@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  createReview,
+  deleteReview,
+  getMovieReviews,
+  getMyReview,
+  updateReview,
+} from "../lib/api";
+import { hasRole } from "../lib/auth";
+import { useSession } from "../lib/useSession";
+import type {
+  MovieRatingSummary,
+  Review,
+  ReviewListResponse,
+} from "../types/movie";
+
+const PAGE_SIZE = 5;
+const STAR_VALUES = [1, 2, 3, 4, 5];
+
+const Stars = ({ value }: { value: number }) => (
+  <span className="text-amber-300" aria-label={`${value} out of 5 stars`}>
+    {"★".repeat(value)}
+    <span className="text-slate-600">{"★".repeat(5 - value)}</span>
+  </span>
+);
+
+interface MovieReviewsProps {
+  movieId: string;
+  // Called with the movie's new community rating after the user reviews it
+  onRatingChange?: (rating: MovieRatingSummary) => void;
+}
+
+export const MovieReviews = ({ movieId, onRatingChange }: MovieReviewsProps) => {
+  const session = useSession();
+  const [data, setData] = useState<ReviewListResponse | null>(null);
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [stars, setStars] = useState(0);
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setData(await getMovieReviews(movieId, page, PAGE_SIZE));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load reviews");
+    }
+  }, [movieId, page]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) {
+      setMyReview(null);
+      return;
+    }
+    getMyReview(movieId)
+      .then(({ review }) => setMyReview(review))
+      .catch(() => setMyReview(null));
+  }, [movieId, userId]);
+
+  const startEditing = () => {
+    setStars(myReview?.stars ?? 0);
+    setText(myReview?.text ?? "");
+    setEditing(true);
+  };
+
+  const afterChange = async (rating: MovieRatingSummary) => {
+    onRatingChange?.(rating);
+    setEditing(false);
+    setError(null);
+    await loadReviews();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (stars === 0) return;
+    setSaving(true);
+    try {
+      const input = { stars, text: text.trim() };
+      const { review, rating } = myReview
+        ? await updateReview(myReview.id, input)
+        : await createReview(movieId, input);
+      setMyReview(review);
+      await afterChange(rating);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (review: Review) => {
+    if (!confirm("Delete this review?")) return;
+    try {
+      const { rating } = await deleteReview(review.id);
+      if (review.id === myReview?.id) setMyReview(null);
+      await afterChange(rating);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete review");
+    }
+  };
+
+  const canDelete = (review: Review) =>
+    review.author.id === userId || hasRole(session?.user, "admin");
+
+  return (
+    <section className="mb-8">
+      <div className="mb-4 flex items-baseline gap-3">
+        <h2 className="text-2xl font-semibold">Reviews</h2>
+        {data && data.ratingCount > 0 && data.communityRating !== undefined && (
+          <span className="text-slate-300">
+            <span className="text-amber-300">★</span>{" "}
+            {data.communityRating.toFixed(1)}/5 · {data.ratingCount}{" "}
+            {data.ratingCount === 1 ? "rating" : "ratings"}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-rose-900/50 border border-rose-500 p-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {!session ? (
+        <p className="mb-6 text-sm text-slate-400">
+          <Link href="/login" className="text-emerald-300 hover:underline">
+            Log in
+          </Link>{" "}
+          to rate and review this movie.
+        </p>
+      ) : editing || !myReview ? (
+        <form
+          onSubmit={handleSubmit}
+          className="mb-6 space-y-3 rounded-xl border border-white/10 bg-white/5 p-4"
+        >
+          <div className="flex items-center gap-1">
+            {STAR_VALUES.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => {
+                  setStars(value);
+                  if (!editing) setEditing(true);
+                }}
+                className={`text-2xl transition ${
+                  value <= stars ? "text-amber-300" : "text-slate-600 hover:text-amber-200"
+                }`}
+                aria-label={`${value} star${value === 1 ? "" : "s"}`}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+          {editing && (
+            <>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="What did you think? (optional)"
+                maxLength={5000}
+                rows={3}
+                className="w-full rounded-lg border border-white/10 bg-slate-900 px-4 py-2 text-white"
+              />
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={saving || stars === 0}
+                  className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-400 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : myReview ? "Update review" : "Post review"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditing(false);
+                    setStars(0);
+                  }}
+                  className="rounded-lg border border-white/10 px-4 py-2 text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+        </form>
+      ) : (
+        <div className="mb-6 flex items-center gap-3 text-sm text-slate-400">
+          <span>
+            You rated this <Stars value={myReview.stars} />
+          </span>
+          <button onClick={startEditing} className="text-emerald-300 hover:underline">
+            Edit
+          </button>
+        </div>
+      )}
+
+      {!data ? (
+        <div className="py-4 text-slate-400">Loading reviews...</div>
+      ) : data.reviews.length === 0 ? (
+        <div className="py-4 text-slate-400">No reviews yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {data.reviews.map((review) => (
+            <div
+              key={review.id}
+              className="rounded-xl border border-white/10 bg-white/5 p-4"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm">
+                  <Stars value={review.stars} />{" "}
+                  <span className="font-semibold text-white">
+                    {review.author.name}
+                  </span>{" "}
+                  <span className="text-slate-400">
+                    · {new Date(review.createdAt).toLocaleDateString()}
+                    {review.updatedAt !== review.createdAt && " (edited)"}
+                  </span>
+                </div>
+                {canDelete(review) && (
+                  <button
+                    onClick={() => handleDelete(review)}
+                    className="text-xs text-rose-300 hover:underline"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              {review.text && (
+                <p className="mt-2 whitespace-pre-line text-slate-300">
+                  {review.text}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && data.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-4">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="rounded-lg border border-white/10 px-4 py-2 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="px-4">
+            Page {page} of {data.totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+            disabled={page === data.totalPages}
+            className="rounded-lg border border-white/10 px-4 py-2 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
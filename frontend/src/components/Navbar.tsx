@@ -2,9 +2,12 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { hasRole, logout } from '../lib/auth';
+import { useSession } from '../lib/useSession';
 
 export function Navbar() {
   const pathname = usePathname();
+  const session = useSession();
 
   const isActive = (path: string) => pathname === path;
 
@@ -50,16 +53,55 @@ export function Navbar() {
             >
               Find Similar
             </Link>
-            <Link
-              href="/admin"
-              className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
-                isActive('/admin')
-                  ? 'bg-emerald-500/20 text-emerald-300'
-                  : 'text-slate-300 hover:bg-white/5 hover:text-white'
-              }`}
-            >
-              Admin Panel
-            </Link>
+            {session && (
+              <Link
+                href="/watchlist"
+                className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                  isActive('/watchlist')
+                    ? 'bg-emerald-500/20 text-emerald-300'
+                    : 'text-slate-300 hover:bg-white/5 hover:text-white'
+                }`}
+              >
+                Watchlist
+              </Link>
+            )}
+            {(!session || hasRole(session.user, 'editor')) && (
+              <Link
+                href="/admin"
+                className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                  isActive('/admin')
+                    ? 'bg-emerald-500/20 text-emerald-300'
+                    : 'text-slate-300 hover:bg-white/5 hover:text-white'
+                }`}
+              >
+                Admin Panel
+              </Link>
+            )}
+            {session ? (
+              <div className="ml-3 flex items-center gap-2 border-l border-white/10 pl-3">
+                <span className="text-sm text-slate-300">{session.user.email}</span>
+                <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs uppercase tracking-wider text-slate-400">
+                  {session.user.role}
+                </span>
+                <button
+                  onClick={() => logout()}
+                  className="rounded-lg px-3 py-2 text-sm font-medium text-slate-300 transition-colors hover:bg-white/5 hover:text-white"
+                >
+                  Log out
+                </button>
+              </div>
+            ) : (
+              <Link
+                href="/login"
+                className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                  isActive('/login')
+                    ? 'bg-emerald-500/20 text-emerald-300'
+                    : 'text-slate-300 hover:bg-white/5 hover:text-white'
+                }`}
+              >
+                Log in
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getUsers, updateUserRole, type UserAccount } from "../lib/extendedApi";
+import type { UserRole } from "../lib/auth";
+
+const ROLES: UserRole[] = ["viewer", "editor", "admin"];
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export const UsersPanel = ({ currentUserId }: { currentUserId: string }) => {
+  const [users, setUsers] = useState<UserAccount[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await getUsers();
+      setUsers(response.users);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleRoleChange = async (user: UserAccount, role: UserRole) => {
+    setSaving(user.id);
+    try {
+      const { user: updated } = await updateUserRole(user.id, role);
+      setUsers((current) =>
+        current?.map((u) => (u.id === updated.id ? updated : u)) ?? null
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update role");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg bg-rose-900/50 border border-rose-500 p-4 text-rose-200">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+        <div className="mb-3">
+          <h3 className="text-lg font-semibold">
+            Users{" "}
+            <span className="text-sm font-normal text-slate-400">
+              ({users?.length ?? 0})
+            </span>
+          </h3>
+          <p className="text-xs text-slate-400">
+            Editors can add, edit and delete movies; admins can also run
+            maintenance tools and manage users. Changing a role signs that
+            user out.
+          </p>
+        </div>
+
+        {!users ? (
+          <div className="py-8 text-center text-slate-400">Loading...</div>
+        ) : (
+          <div className="space-y-2">
+            {users.map((user) => (
+              <div
+                key={user.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-white/10 bg-slate-900/60 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="truncate font-semibold text-white">
+                    {user.email}
+                    {user.id === currentUserId && (
+                      <span className="ml-2 text-xs font-normal text-slate-400">
+                        (you)
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {user.name && `${user.name} · `}joined{" "}
+                    {formatDate(user.createdAt)} · last login{" "}
+                    {formatDate(user.lastLoginAt)}
+                  </div>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) =>
+                    handleRoleChange(user, e.target.value as UserRole)
+                  }
+                  disabled={saving === user.id || user.id === currentUserId}
+                  className="rounded-lg border border-white/10 bg-slate-900 px-3 py-1 text-sm disabled:opacity-50"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  addToWatchlist,
+  createWatchlist,
+  getWatchlists,
+  removeFromWatchlist,
+} from "../lib/api";
+import { useSession } from "../lib/useSession";
+import type { WatchlistSummary } from "../types/movie";
+
+// Name of the list created when a user saves their first movie
+const DEFAULT_LIST_NAME = "Watchlist";
+
+interface Props {
+  movieId: string;
+  className?: string;
+}
+
+/**
+ * "+ Watchlist" toggle with a menu of the user's lists; lists are loaded
+ * when the menu opens so a page of cards does not fetch them all up front
+ */
+export const WatchlistButton = ({ movieId, className = "" }: Props) => {
+  const session = useSession();
+  const [open, setOpen] = useState(false);
+  const [lists, setLists] = useState<WatchlistSummary[] | null>(null);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    getWatchlists()
+      .then(({ watchlists }) => setLists(watchlists))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load lists"));
+
+    const onClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onClickOutside);
+    return () => document.removeEventListener("mousedown", onClickOutside);
+  }, [open]);
+
+  const replaceList = (updated: WatchlistSummary) =>
+    setLists((current) =>
+      current?.some((l) => l.id === updated.id)
+        ? current.map((l) => (l.id === updated.id ? updated : l))
+        : [...(current ?? []), updated]
+    );
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (list: WatchlistSummary) =>
+    run(async () => {
+      replaceList(
+        list.movieIds.includes(movieId)
+          ? await removeFromWatchlist(list.id, movieId)
+          : await addToWatchlist(list.id, movieId)
+      );
+    });
+
+  const addToNewList = (name: string) =>
+    run(async () => {
+      const list = await createWatchlist(name);
+      replaceList(await addToWatchlist(list.id, movieId));
+      setNewName("");
+    });
+
+  const saved = lists?.some((l) => l.movieIds.includes(movieId)) ?? false;
+
+  if (!session) {
+    return (
+      <Link
+        href="/login"
+        onClick={(e) => e.stopPropagation()}
+        className={`rounded-full bg-slate-950/80 px-3 py-1 text-xs font-semibold text-white hover:bg-slate-900 ${className}`}
+      >
+        + Watchlist
+      </Link>
+    );
+  }
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen((o) => !o);
+        }}
+        className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+          saved
+            ? "bg-emerald-500 text-black hover:bg-emerald-400"
+            : "bg-slate-950/80 text-white hover:bg-slate-900"
+        }`}
+      >
+        {saved ? "✓ Saved" : "+ Watchlist"}
+      </button>
+
+      {open && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="absolute right-0 z-20 mt-2 w-60 space-y-2 rounded-xl border border-white/10 bg-slate-900 p-3 text-left text-sm shadow-xl"
+        >
+          {error && <div className="text-xs text-rose-300">{error}</div>}
+          {!lists ? (
+            <div className="text-slate-400">Loading lists...</div>
+          ) : lists.length === 0 ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => addToNewList(DEFAULT_LIST_NAME)}
+              className="w-full rounded-lg bg-emerald-500 px-3 py-2 font-semibold text-black disabled:opacity-50"
+            >
+              Save to &quot;{DEFAULT_LIST_NAME}&quot;
+            </button>
+          ) : (
+            lists.map((list) => (
+              <label key={list.id} className="flex items-center gap-2 text-slate-200">
+                <input
+                  type="checkbox"
+                  disabled={busy}
+                  checked={list.movieIds.includes(movieId)}
+                  onChange={() => toggle(list)}
+                />
+                <span className="truncate">{list.name}</span>
+                <span className="ml-auto text-xs text-slate-500">{list.count}</span>
+              </label>
+            ))
+          )}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) addToNewList(newName.trim());
+            }}
+            className="flex gap-2 border-t border-white/10 pt-2"
+          >
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New list"
+              maxLength={100}
+              className="min-w-0 flex-1 rounded border border-white/10 bg-slate-950 px-2 py-1 text-xs text-white"
+            />
+            <button
+              type="submit"
+              disabled={busy || !newName.trim()}
+              className="rounded bg-white/10 px-2 py-1 text-xs disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+          <Link href="/watchlist" className="block text-xs text-emerald-300 hover:underline">
+            Manage lists →
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,51 @@
 import type {
   MovieSummary,
   SimilarMoviesResponse,
+  MoviesLikeTheseResponse,
   Movie,
   MovieListResponse,
   CreateMovieDTO,
+  SearchMode,
+  EmbeddingField,
+  Review,
+  ReviewInput,
+  ReviewListResponse,
+  MovieRatingSummary,
+  Watchlist,
+  WatchlistSummary,
+  Favourites,
+  PersonalRecommendationsResponse,
 } from '../types/movie';
 import { getApiBaseUrl } from './apiConfig';
+import { authFetch } from './auth';
 
 const API_BASE_URL = getApiBaseUrl();
 
 export interface SearchResponse {
   count: number;
+  mode?: SearchMode;
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor?: string | null;
   results: MovieSummary[];
 }
 
+export interface SearchOptions {
+  mode?: SearchMode;
+  lexicalWeight?: number;
+  semanticWeight?: number;
+  fieldWeights?: Partial<Record<EmbeddingField, number>>;
+  // Ask for a "why this matched" explanation per result
+  explain?: boolean;
+  cursor?: string;
+  // 0-1: re-rank to avoid near-duplicate results (semantic mode)
+  diversity?: number;
+}
+
+const serializeFieldWeights = (weights: Partial<Record<EmbeddingField, number>>): string =>
+  Object.entries(weights)
+    .map(([field, weight]) => `${field}:${weight}`)
+    .join(',');
+
 const handleResponse = async <T>(response: Response): Promise<T> => {
   if (!response.ok) {
     const errorText = await response.text();
@@ -30,8 +62,19 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
 };
 
 // Semantic search
-export const searchMovies = async (query: string, limit = 10): Promise<SearchResponse> => {
+export const searchMovies = async (
+  query: string,
+  limit = 10,
+  options: SearchOptions = {},
+): Promise<SearchResponse> => {
   const params = new URLSearchParams({ q: query, limit: String(limit) });
+  if (options.mode) params.append('mode', options.mode);
+  if (options.lexicalWeight !== undefined) params.append('lexicalWeight', String(options.lexicalWeight));
+  if (options.semanticWeight !== undefined) params.append('semanticWeight', String(options.semanticWeight));
+  if (options.fieldWeights) params.append('weights', serializeFieldWeights(options.fieldWeights));
+  if (options.explain) params.append('explain', 'true');
+  if (options.cursor) params.append('cursor', options.cursor);
+  if (options.diversity) params.append('diversity', String(options.diversity));
   const response = await fetch(`${API_BASE_URL}/movies/search?${params.toString()}`, {
     method: 'GET',
     cache: 'no-store',
@@ -42,14 +85,33 @@ export const searchMovies = async (query: string, limit = 10): Promise<SearchRes
 export const fetchSimilarMovies = async (
   movieId: string,
   limit = 6,
+  diversity = 0,
 ): Promise<SimilarMoviesResponse> => {
   const params = new URLSearchParams({ limit: String(limit) });
+  if (diversity) params.append('diversity', String(diversity));
   const response = await fetch(`${API_BASE_URL}/movies/${movieId}/similar?${params.toString()}`, {
     cache: 'no-store',
   });
   return handleResponse<SimilarMoviesResponse>(response);
 };
 
+// "More like these": movies close to all seeds, steered away from the negatives
+export const fetchMoviesLikeThese = async (
+  ids: string[],
+  negativeIds: string[] = [],
+  limit = 10,
+): Promise<MoviesLikeTheseResponse> => {
+  const response = await fetch(`${API_BASE_URL}/movies/similar`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids, negativeIds, limit }),
+    cache: 'no-store',
+  });
+  return handleResponse<MoviesLikeTheseResponse>(response);
+};
+
 // CRUD operations
 export const getAllMovies = async (
   page = 1,
@@ -69,17 +131,25 @@ export const getAllMovies = async (
   return handleResponse<MovieListResponse>(response);
 };
 
+// Sends the session token, if any, so the visit counts towards "For you"
 export const getMovie = async (id: string): Promise<Movie> => {
-  const response = await fetch(`${API_BASE_URL}/movies/${id}`, {
+  const response = await authFetch(`${API_BASE_URL}/movies/${id}`, {
     cache: 'no-store',
   });
   return handleResponse<Movie>(response);
 };
 
+export interface IngestResponse {
+  message: string;
+  movieId: string;
+  // Background embedding job; poll it from the admin jobs API
+  jobId: string;
+}
+
 export const createMovie = async (
   data: CreateMovieDTO,
   posterFile?: File
-): Promise<{ message: string }> => {
+): Promise<IngestResponse> => {
   console.log('=== CREATE MOVIE DEBUG ===');
   console.log('Has posterFile:', !!posterFile);
   console.log('Data:', data);
@@ -116,23 +186,23 @@ export const createMovie = async (
     }
 
     console.log('Sending request to:', `${API_BASE_URL}/movies/ingest`);
-    const response = await fetch(`${API_BASE_URL}/movies/ingest`, {
+    const response = await authFetch(`${API_BASE_URL}/movies/ingest`, {
       method: 'POST',
       body: formData, // Don't set Content-Type, browser will set it with boundary
     });
     console.log('Response status:', response.status);
-    return handleResponse<{ message: string }>(response);
+    return handleResponse<IngestResponse>(response);
   } else {
     console.log('Using JSON upload');
     // Use JSON for text-only
-    const response = await fetch(`${API_BASE_URL}/movies/ingest`, {
+    const response = await authFetch(`${API_BASE_URL}/movies/ingest`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(data),
     });
-    return handleResponse<{ message: string }>(response);
+    return handleResponse<IngestResponse>(response);
   }
 };
 
@@ -142,7 +212,7 @@ export const updateMovie = async (
   posterFile?: File
 ): Promise<Movie> => {
   // First, update movie metadata (title, plot, etc.)
-  const response = await fetch(`${API_BASE_URL}/movies/${id}`, {
+  const response = await authFetch(`${API_BASE_URL}/movies/${id}`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
@@ -155,7 +225,7 @@ export const updateMovie = async (
   if (posterFile) {
     const formData = new FormData();
     formData.append('posterImage', posterFile);
-    const posterResponse = await fetch(`${API_BASE_URL}/movies/${id}/poster`, {
+    const posterResponse = await authFetch(`${API_BASE_URL}/movies/${id}/poster`, {
       method: 'PUT',
       body: formData,
     });
@@ -167,9 +237,154 @@ export const updateMovie = async (
 };
 
 export const deleteMovie = async (id: string): Promise<{ message: string }> => {
-  const response = await fetch(`${API_BASE_URL}/movies/${id}`, {
+  const response = await authFetch(`${API_BASE_URL}/movies/${id}`, {
     method: 'DELETE',
   });
   return handleResponse<{ message: string }>(response);
 };
 
+// Reviews: listing is public, writing needs a signed-in user
+export const getMovieReviews = async (
+  movieId: string,
+  page = 1,
+  limit = 10
+): Promise<ReviewListResponse> => {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+  const response = await fetch(`${API_BASE_URL}/movies/${movieId}/reviews?${params.toString()}`, {
+    cache: 'no-store',
+  });
+  return handleResponse<ReviewListResponse>(response);
+};
+
+export const getMyReview = async (movieId: string): Promise<{ review: Review | null }> => {
+  const response = await authFetch(`${API_BASE_URL}/movies/${movieId}/reviews/mine`, {
+    cache: 'no-store',
+  });
+  return handleResponse<{ review: Review | null }>(response);
+};
+
+export const createReview = async (
+  movieId: string,
+  input: ReviewInput
+): Promise<{ review: Review; rating: MovieRatingSummary }> => {
+  const response = await authFetch(`${API_BASE_URL}/movies/${movieId}/reviews`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return handleResponse<{ review: Review; rating: MovieRatingSummary }>(response);
+};
+
+export const updateReview = async (
+  reviewId: string,
+  input: Partial<ReviewInput>
+): Promise<{ review: Review; rating: MovieRatingSummary }> => {
+  const response = await authFetch(`${API_BASE_URL}/reviews/${reviewId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return handleResponse<{ review: Review; rating: MovieRatingSummary }>(response);
+};
+
+export const deleteReview = async (reviewId: string): Promise<{ rating: MovieRatingSummary }> => {
+  const response = await authFetch(`${API_BASE_URL}/reviews/${reviewId}`, {
+    method: 'DELETE',
+  });
+  return handleResponse<{ rating: MovieRatingSummary }>(response);
+};
+
+// Watchlists belong to the signed-in user; public ones can be read by anyone
+export const getWatchlists = async (): Promise<{ count: number; watchlists: WatchlistSummary[] }> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists`, { cache: 'no-store' });
+  return handleResponse<{ count: number; watchlists: WatchlistSummary[] }>(response);
+};
+
+export const getWatchlist = async (id: string): Promise<Watchlist> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}`, { cache: 'no-store' });
+  return handleResponse<Watchlist>(response);
+};
+
+export const createWatchlist = async (name: string, isPublic = false): Promise<WatchlistSummary> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, isPublic }),
+  });
+  return handleResponse<WatchlistSummary>(response);
+};
+
+export const updateWatchlist = async (
+  id: string,
+  changes: { name?: string; isPublic?: boolean }
+): Promise<WatchlistSummary> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  return handleResponse<WatchlistSummary>(response);
+};
+
+export const deleteWatchlist = async (id: string): Promise<{ message: string }> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}`, { method: 'DELETE' });
+  return handleResponse<{ message: string }>(response);
+};
+
+export const addToWatchlist = async (
+  id: string,
+  movieId: string,
+  position?: number
+): Promise<WatchlistSummary> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}/movies`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ movieId, position }),
+  });
+  return handleResponse<WatchlistSummary>(response);
+};
+
+export const removeFromWatchlist = async (id: string, movieId: string): Promise<WatchlistSummary> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}/movies/${movieId}`, {
+    method: 'DELETE',
+  });
+  return handleResponse<WatchlistSummary>(response);
+};
+
+export const reorderWatchlist = async (id: string, movieIds: string[]): Promise<WatchlistSummary> => {
+  const response = await authFetch(`${API_BASE_URL}/watchlists/${id}/movies`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ movieIds }),
+  });
+  return handleResponse<WatchlistSummary>(response);
+};
+
+// Favourites are private to the signed-in user
+export const getFavourites = async (): Promise<Favourites> => {
+  const response = await authFetch(`${API_BASE_URL}/favourites`, { cache: 'no-store' });
+  return handleResponse<Favourites>(response);
+};
+
+export const addFavourite = async (movieId: string): Promise<Favourites> => {
+  const response = await authFetch(`${API_BASE_URL}/favourites/${movieId}`, { method: 'PUT' });
+  return handleResponse<Favourites>(response);
+};
+
+export const removeFavourite = async (movieId: string): Promise<Favourites> => {
+  const response = await authFetch(`${API_BASE_URL}/favourites/${movieId}`, { method: 'DELETE' });
+  return handleResponse<Favourites>(response);
+};
+
+// "For you": unseen movies close to the signed-in user's taste
+export const getMyRecommendations = async (
+  limit = 10,
+  diversity?: number
+): Promise<PersonalRecommendationsResponse> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (diversity !== undefined) params.set('diversity', String(diversity));
+  const response = await authFetch(`${API_BASE_URL}/me/recommendations?${params}`, {
+    cache: 'no-store',
+  });
+  return handleResponse<PersonalRecommendationsResponse>(response);
+};
@@ -0,0 +1,156 @@
+import { getApiBaseUrl } from './apiConfig';
+
+const API_BASE_URL = getApiBaseUrl();
+const STORAGE_KEY = 'smds.session';
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
+export interface Session {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Higher rank includes the permissions of lower ones (mirrors the backend's requireRole)
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
+export const hasRole = (user: AuthUser | null | undefined, role: UserRole): boolean =>
+  Boolean(user && ROLE_RANK[user.role] >= ROLE_RANK[role]);
+
+const listeners = new Set<() => void>();
+// undefined: not read from localStorage yet
+let cachedSession: Session | null | undefined;
+
+/**
+ * The signed-in session, kept in localStorage so it survives reloads
+ */
+export const getSession = (): Session | null => {
+  if (typeof window === 'undefined') return null;
+  if (cachedSession === undefined) {
+    try {
+      cachedSession = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    } catch {
+      cachedSession = null;
+    }
+  }
+  return cachedSession ?? null;
+};
+
+const setSession = (session: Session | null) => {
+  cachedSession = session;
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Listen for sign-in and sign-out, including from other tabs
+ */
+export const subscribeToSession = (listener: () => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedSession = undefined;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+interface AuthResponse {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+const postAuth = async (path: string, body: unknown): Promise<AuthResponse> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload.message ?? `Request failed with status code ${response.status}`);
+  }
+  return payload as AuthResponse;
+};
+
+const startSession = ({ user, accessToken, refreshToken }: AuthResponse): AuthUser => {
+  setSession({ user, accessToken, refreshToken });
+  return user;
+};
+
+export const login = async (email: string, password: string): Promise<AuthUser> =>
+  startSession(await postAuth('/auth/login', { email, password }));
+
+export const signup = async (email: string, password: string, name?: string): Promise<AuthUser> =>
+  startSession(await postAuth('/auth/signup', { email, password, ...(name && { name }) }));
+
+// Shared by concurrent requests that hit an expired access token
+let refreshing: Promise<Session | null> | null = null;
+
+const refreshSession = (): Promise<Session | null> => {
+  const session = getSession();
+  if (!session) return Promise.resolve(null);
+  refreshing ??= postAuth('/auth/refresh', { refreshToken: session.refreshToken })
+    .then((response) => {
+      startSession(response);
+      return getSession();
+    })
+    .catch(() => {
+      setSession(null);
+      return null;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+const withToken = (init: RequestInit, token?: string): RequestInit => {
+  if (!token) return init;
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+};
+
+/**
+ * fetch() that sends the access token, refreshing it once and retrying when
+ * the API answers 401. Without a session it behaves like fetch(). When the
+ * refresh fails the session is over, so the request is retried without a
+ * token: public routes reject a bad token but serve anonymous requests.
+ */
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const session = getSession();
+  const response = await fetch(input, withToken(init, session?.accessToken));
+  if (response.status !== 401 || !session) {
+    return response;
+  }
+
+  const refreshed = await refreshSession();
+  return fetch(input, withToken(init, refreshed?.accessToken));
+};
+
+/**
+ * End the session here and revoke its refresh tokens on the server
+ */
+export const logout = async (): Promise<void> => {
+  if (getSession()) {
+    await authFetch(`${API_BASE_URL}/auth/logout`, { method: 'POST' }).catch(() => undefined);
+  }
+  setSession(null);
+};
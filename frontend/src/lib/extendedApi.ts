@@ -1,6 +1,7 @@
 // Extended API types and utility functions
 import type { Movie, MovieSummary } from '../types/movie';
 import { getApiBaseUrl } from './apiConfig';
+import { authFetch, type AuthUser, type UserRole } from './auth';
 
 const API_BASE_URL = getApiBaseUrl();
 
@@ -17,6 +18,36 @@ export interface TrendingResponse {
   period: string;
 }
 
+export type IngestionJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Mirrors JobSummary in backend/src/services/ingestionService.ts
+export interface IngestionJob {
+  id: string;
+  // Null once the movie has been deleted
+  movieId: string | null;
+  movieTitle: string | null;
+  type: 'ingest' | 'update';
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lockedBy?: string;
+  lockedUntil?: string;
+  lastAttemptAt?: string;
+  completedAt?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IngestionJobListResponse {
+  jobs: IngestionJob[];
+  total: number;
+  page: number;
+  totalPages: number;
+  counts: Record<IngestionJobStatus, number>;
+}
+
 export interface RecommendationsResponse {
   baseMovie: {
     id: string;
@@ -27,6 +58,22 @@ export interface RecommendationsResponse {
   results: MovieSummary[];
 }
 
+export type BlendFeature = 'semantic' | 'genres' | 'cast' | 'director' | 'era' | 'rating';
+
+export interface BlendedRecommendation extends Omit<MovieSummary, 'breakdown'> {
+  director?: string;
+  score: number;
+  // Per-feature scores (0-1) before weighting
+  breakdown: Record<BlendFeature, number>;
+}
+
+export interface BlendedRecommendationsResponse {
+  baseMovie: RecommendationsResponse['baseMovie'];
+  weights: Record<BlendFeature, number>;
+  count: number;
+  results: BlendedRecommendation[];
+}
+
 /**
  * Advanced search with filters
  */
@@ -40,8 +87,9 @@ export const advancedSearch = async (
     maxYear?: number;
     director?: string;
   },
-  limit = 20
-): Promise<{ count: number; results: MovieSummary[] }> => {
+  limit = 20,
+  cursor?: string
+): Promise<{ count: number; nextCursor: string | null; results: MovieSummary[] }> => {
   const params = new URLSearchParams();
   if (query) params.append('q', query);
   if (filters?.genres?.length) params.append('genres', filters.genres.join(','));
@@ -51,6 +99,7 @@ export const advancedSearch = async (
   if (filters?.maxYear !== undefined) params.append('maxYear', String(filters.maxYear));
   if (filters?.director) params.append('director', filters.director);
   params.append('limit', String(limit));
+  if (cursor) params.append('cursor', cursor);
 
   const response = await fetch(`${API_BASE_URL}/movies/search/advanced?${params.toString()}`, {
     cache: 'no-store',
@@ -131,9 +180,11 @@ export const getTopRatedByGenre = async (
  */
 export const getEnhancedRecommendations = async (
   movieId: string,
-  limit = 10
+  limit = 10,
+  diversity = 0
 ): Promise<RecommendationsResponse> => {
   const params = new URLSearchParams({ movieId, limit: String(limit) });
+  if (diversity) params.append('diversity', String(diversity));
   const response = await fetch(`${API_BASE_URL}/movies/${movieId}/recommendations?${params.toString()}`, {
     cache: 'no-store',
   });
@@ -141,13 +192,40 @@ export const getEnhancedRecommendations = async (
   return response.json();
 };
 
+/**
+ * Recommendations blending vector similarity with genre, cast, director, era
+ * and rating scores. Unset weights keep the server defaults.
+ */
+export const getBlendedRecommendations = async (
+  movieId: string,
+  limit = 10,
+  options: { weights?: Partial<Record<BlendFeature, number>>; diversity?: number } = {}
+): Promise<BlendedRecommendationsResponse> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (options.weights) {
+    params.append(
+      'weights',
+      Object.entries(options.weights)
+        .map(([feature, weight]) => `${feature}:${weight}`)
+        .join(',')
+    );
+  }
+  if (options.diversity) params.append('diversity', String(options.diversity));
+  const response = await fetch(
+    `${API_BASE_URL}/movies/${movieId}/recommendations/blended?${params.toString()}`,
+    { cache: 'no-store' }
+  );
+  if (!response.ok) throw new Error('Failed to fetch recommendations');
+  return response.json();
+};
+
 // Admin endpoints
 
 /**
  * Get analytics
  */
 export const getAnalytics = async () => {
-  const response = await fetch(`${API_BASE_URL}/admin/analytics/searches`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/analytics/searches`, {
     cache: 'no-store',
   });
   if (!response.ok) throw new Error('Failed to fetch analytics');
@@ -158,7 +236,7 @@ export const getAnalytics = async () => {
  * Get storage statistics
  */
 export const getStorageStats = async () => {
-  const response = await fetch(`${API_BASE_URL}/admin/analytics/storage`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/analytics/storage`, {
     cache: 'no-store',
   });
   if (!response.ok) throw new Error('Failed to fetch storage stats');
@@ -169,7 +247,7 @@ export const getStorageStats = async () => {
  * Health check
  */
 export const getHealth = async () => {
-  const response = await fetch(`${API_BASE_URL}/admin/health`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/health`, {
     cache: 'no-store',
   });
   if (!response.ok) throw new Error('Health check failed');
@@ -180,7 +258,7 @@ export const getHealth = async () => {
  * Export movies as JSON
  */
 export const exportMoviesAsJSON = async () => {
-  const response = await fetch(`${API_BASE_URL}/admin/export/json`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/export/json`, {
     cache: 'no-store',
   });
   if (!response.ok) throw new Error('Export failed');
@@ -200,7 +278,7 @@ export const exportMoviesAsJSON = async () => {
  * Export movies as CSV
  */
 export const exportMoviesAsCSV = async () => {
-  const response = await fetch(`${API_BASE_URL}/admin/export/csv`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/export/csv`, {
     cache: 'no-store',
   });
   if (!response.ok) throw new Error('Export failed');
@@ -220,7 +298,7 @@ export const exportMoviesAsCSV = async () => {
  * Bulk delete movies
  */
 export const bulkDeleteMovies = async (ids: string[]): Promise<{ message: string; deletedCount: number }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/bulk-delete`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/bulk-delete`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ ids }),
@@ -236,7 +314,7 @@ export const bulkUpdateMovies = async (
   ids: string[],
   updates: Partial<Movie>
 ): Promise<{ message: string; modifiedCount: number }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/bulk-update`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/bulk-update`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ ids, updates }),
@@ -249,7 +327,7 @@ export const bulkUpdateMovies = async (
  * Import additional batch of movies (batch 2)
  */
 export const importBatch2Movies = async (): Promise<{ message: string; status: string; batch: number }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/import-batch2`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/import-batch2`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
   });
@@ -261,7 +339,7 @@ export const importBatch2Movies = async (): Promise<{ message: string; status: s
  * Backfill posters for movies missing GridFS images
  */
 export const backfillPosters = async (): Promise<{ message: string; total: number; updated: number; failed: number }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/backfill-posters`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/backfill-posters`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
   });
@@ -273,7 +351,7 @@ export const backfillPosters = async (): Promise<{ message: string; total: numbe
  * Deduplicate movies by title + year
  */
 export const dedupeMovies = async (): Promise<{ message: string; totalGroups: number; removed: number; kept: number }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/dedupe-movies`, {
+  const response = await authFetch(`${API_BASE_URL}/admin/dedupe-movies`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
   });
@@ -281,15 +359,144 @@ export const dedupeMovies = async (): Promise<{ message: string; totalGroups: nu
   return response.json();
 };
 
+/**
+ * Remove vectors whose movie no longer exists
+ */
+export const sweepOrphanVectors = async (
+  dryRun = false
+): Promise<{ message: string; scanned: number; movieIds: number; orphanMovieIds: string[] }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/vectors/sweep-orphans`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!response.ok) throw new Error('Orphan vector sweep failed');
+  return response.json();
+};
+
+/**
+ * List ingestion jobs with per-status counts
+ */
+export const getIngestionJobs = async (
+  options: { status?: IngestionJobStatus; movieId?: string; page?: number; limit?: number } = {}
+): Promise<IngestionJobListResponse> => {
+  const params = new URLSearchParams();
+  if (options.status) params.append('status', options.status);
+  if (options.movieId) params.append('movieId', options.movieId);
+  params.append('page', String(options.page ?? 1));
+  params.append('limit', String(options.limit ?? 20));
+
+  const response = await authFetch(`${API_BASE_URL}/admin/jobs?${params.toString()}`, {
+    cache: 'no-store',
+  });
+  if (!response.ok) throw new Error('Failed to fetch ingestion jobs');
+  return response.json();
+};
+
+/**
+ * Re-queue a failed ingestion job
+ */
+export const retryIngestionJob = async (id: string): Promise<{ message: string; job: IngestionJob }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/jobs/${id}/retry`, {
+    method: 'POST',
+  });
+  if (!response.ok) throw new Error('Failed to retry job');
+  return response.json();
+};
+
 /**
  * List movies missing posters
  */
 export const getMissingPosters = async (limit = 50): Promise<{ count: number; results: MovieSummary[] }> => {
-  const response = await fetch(`${API_BASE_URL}/admin/missing-posters?limit=${limit}`);
+  const response = await authFetch(`${API_BASE_URL}/admin/missing-posters?limit=${limit}`);
   if (!response.ok) throw new Error('Failed to fetch missing posters');
   return response.json();
 };
 
+export interface UserAccount extends AuthUser {
+  lastLoginAt?: string;
+  createdAt?: string;
+}
+
+/**
+ * List user accounts (admin only)
+ */
+export const getUsers = async (): Promise<{ count: number; users: UserAccount[] }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/users`, {
+    cache: 'no-store',
+  });
+  if (!response.ok) throw new Error('Failed to fetch users');
+  return response.json();
+};
+
+/**
+ * Change a user's role (admin only)
+ */
+export const updateUserRole = async (id: string, role: UserRole): Promise<{ user: UserAccount }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/users/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ role }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message ?? 'Failed to update role');
+  }
+  return response.json();
+};
+
+export type ApiKeyScope = 'search' | 'ingest' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Start of the key, for telling keys apart
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * List API keys (admin only)
+ */
+export const getApiKeys = async (): Promise<{ count: number; apiKeys: ApiKey[] }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/api-keys`, {
+    cache: 'no-store',
+  });
+  if (!response.ok) throw new Error('Failed to fetch API keys');
+  return response.json();
+};
+
+/**
+ * Create an API key. `key` is returned only by this call.
+ */
+export const createApiKey = async (
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/api-keys`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, scopes }),
+  });
+  if (!response.ok) throw new Error('Failed to create API key');
+  return response.json();
+};
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = async (id: string): Promise<{ apiKey: ApiKey }> => {
+  const response = await authFetch(`${API_BASE_URL}/admin/api-keys/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to revoke API key');
+  return response.json();
+};
+
 /**
  * Get random movies
  */
@@ -0,0 +1,53 @@
+import { addFavourite, getFavourites, removeFavourite } from './api';
+import type { Favourites } from '../types/movie';
+
+const listeners = new Set<() => void>();
+// Favourite movie ids, tagged with the user they were loaded for
+let cached: { userId: string; movieIds: ReadonlySet<string> } | null = null;
+let loadingFor: string | null = null;
+
+const store = (userId: string, { movieIds }: Favourites) => {
+  cached = { userId, movieIds: new Set(movieIds) };
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToFavourites = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The user's favourite movie ids, or null until they have been loaded
+ */
+export const getFavouriteIds = (userId: string | undefined): ReadonlySet<string> | null =>
+  cached && cached.userId === userId ? cached.movieIds : null;
+
+/**
+ * Load the user's favourites once, however many hearts are on the page
+ */
+export const loadFavourites = (userId: string) => {
+  if (cached?.userId === userId || loadingFor === userId) return;
+  loadingFor = userId;
+  getFavourites()
+    .then((favourites) => store(userId, favourites))
+    // Hearts stay empty; toggling one loads the real state
+    .catch(() => undefined)
+    .finally(() => {
+      if (loadingFor === userId) loadingFor = null;
+    });
+};
+
+/**
+ * Add or remove a favourite and share the result with every heart on the page
+ */
+export const setFavourite = async (
+  userId: string,
+  movieId: string,
+  isFavourite: boolean
+): Promise<Favourites> => {
+  const favourites = isFavourite ? await addFavourite(movieId) : await removeFavourite(movieId);
+  store(userId, favourites);
+  return favourites;
+};
@@ -0,0 +1,21 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getFavouriteIds, loadFavourites, subscribeToFavourites } from './favourites';
+import { useSession } from './useSession';
+
+/**
+ * The signed-in user's favourite movie ids (null while loading or signed out);
+ * re-renders whenever a favourite is added or removed anywhere on the page
+ */
+export const useFavouriteIds = () => {
+  const userId = useSession()?.user.id;
+
+  useEffect(() => {
+    if (userId) loadFavourites(userId);
+  }, [userId]);
+
+  return useSyncExternalStore(
+    subscribeToFavourites,
+    () => getFavouriteIds(userId),
+    () => null
+  );
+};
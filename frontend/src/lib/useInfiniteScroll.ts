@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel element scrolls into view
+ * (with a 400px head start). Disabled while `enabled` is false, e.g. during a
+ * request or after the last page.
+ */
+export const useInfiniteScroll = <T extends Element>(
+  onLoadMore: () => void,
+  enabled: boolean
+) => {
+  const sentinelRef = useRef<T>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: "400px 0px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+};
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getSession, subscribeToSession } from './auth';
+
+/**
+ * The signed-in session (null when signed out or during server rendering);
+ * re-renders on login, logout and token refresh
+ */
+export const useSession = () =>
+  useSyncExternalStore(subscribeToSession, getSession, () => null);
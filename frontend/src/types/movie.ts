@@ -4,12 +4,61 @@ export interface MovieSummary {
   genres: string[];
   cast: string[];
   rating?: number;
+  // Mean review stars (1-5) and number of reviews
+  communityRating?: number;
+  ratingCount?: number;
   posterUrl?: string;
   posterGridFSId?: string;
   releaseYear?: number;
   score?: number;
+  // Hybrid search only: which retrieval channels returned this movie
+  matchedBy?: SearchChannel[];
+  ranks?: Partial<Record<SearchChannel, number>>;
+  // Per-field semantic scores (title/plot/genre embeddings)
+  breakdown?: Partial<Record<EmbeddingField, number>>;
+  // Plot chunk that best matched the query
+  passage?: PlotPassage;
+  // Only with explain=true
+  explanation?: SearchExplanation;
 }
 
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchExplanation {
+  // Embedding source with the highest similarity
+  matchedSource?: EmbeddingField;
+  sourceScores: Partial<Record<EmbeddingField, number>>;
+  // Plot sentence closest to the query
+  bestSentence?: {
+    text: string;
+    start: number;
+    end: number;
+    score: number;
+    highlights: HighlightRange[];
+  };
+  // Query words found in the movie's title, genres, cast, director or plot
+  keywords: Array<{ term: string; fields: string[] }>;
+  filters: string[];
+}
+
+export interface PlotPassage {
+  chunkIndex: number;
+  // Character offsets of the passage within the movie's plot
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+  // Query words found in the passage, as offsets into `text`
+  highlights: HighlightRange[];
+}
+
+export type SearchMode = 'semantic' | 'hybrid';
+export type SearchChannel = 'lexical' | 'semantic';
+export type EmbeddingField = 'title' | 'plot' | 'genre';
+
 export interface Movie {
   _id?: string;
   id: string;
@@ -23,6 +72,8 @@ export interface Movie {
   posterUrl?: string;
   posterGridFSId?: string;
   rating?: number;
+  communityRating?: number;
+  ratingCount?: number;
   metadata?: Record<string, unknown>;
   createdAt?: string;
   updatedAt?: string;
@@ -33,14 +84,90 @@ export interface SimilarMovie {
   title: string;
   posterUrl?: string;
   posterGridFSId?: string;
+  genres?: string[];
+  releaseYear?: number;
   score?: number;
 }
 
 export interface SimilarMoviesResponse {
   count: number;
+  // Stored vector the search started from (single-movie similarity only)
+  basedOn?: 'plot' | 'genre' | 'title';
   results: SimilarMovie[];
 }
 
+export interface MovieRef {
+  id: string;
+  title: string;
+}
+
+export interface MoviesLikeTheseResponse extends SimilarMoviesResponse {
+  seeds: MovieRef[];
+  negatives: MovieRef[];
+}
+
+export interface Review {
+  id: string;
+  movieId: string;
+  author: { id: string; name: string };
+  // 1-5
+  stars: number;
+  text?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MovieRatingSummary {
+  communityRating?: number;
+  ratingCount: number;
+}
+
+export interface ReviewListResponse extends MovieRatingSummary {
+  reviews: Review[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface ReviewInput {
+  stars: number;
+  text?: string;
+}
+
+export interface WatchlistSummary {
+  id: string;
+  name: string;
+  // Public lists can be opened by anyone with the link
+  isPublic: boolean;
+  count: number;
+  // In list order
+  movieIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Watchlist extends WatchlistSummary {
+  isOwner: boolean;
+  owner: { name: string };
+  movies: (MovieSummary & { addedAt: string })[];
+}
+
+export interface Favourites {
+  count: number;
+  // Most recently added first
+  movieIds: string[];
+  movies: (MovieSummary & { addedAt: string })[];
+}
+
+export type TasteSignalKind = 'rating' | 'watchlist' | 'view';
+
+export interface PersonalRecommendationsResponse {
+  // Movies the user's taste profile was built from; null until there are any
+  basedOn: Record<TasteSignalKind, number> | null;
+  count: number;
+  results: MovieSummary[];
+}
+
 export interface MovieListResponse {
   movies: Movie[];
   total: number;